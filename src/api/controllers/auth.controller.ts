@@ -1,16 +1,48 @@
 import { Request, Response, NextFunction } from 'express';
-import { AuthService } from '../../services/auth.service';
-import { RegisterDto, LoginDto, RefreshTokenDto, UpdateProfileDto, LogoutDto } from '../dto/auth.dto';
-import User from '../../models/user.model';
+import { AuthService, SessionContext } from '../../services/auth.service';
+import { sessionService } from '../../services/session.service';
+import { twoFactorService } from '../../services/two-factor.service';
+import { apiKeyService } from '../../services/api-key.service';
+import { oidcService } from '../../services/oidc.service';
+import { accountService } from '../../services/account.service';
+import { auditLogService } from '../../services/audit-log.service';
+import {
+  RegisterDto,
+  LoginDto,
+  RefreshTokenDto,
+  UpdateProfileDto,
+  LogoutDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  ChangePasswordDto,
+  VerifyEmailDto,
+  TwoFactorCodeDto,
+  TwoFactorLoginDto,
+  DisableTwoFactorDto,
+  CreateApiKeyDto,
+  OidcCallbackDto,
+  MagicLinkRequestDto,
+  MagicLinkVerifyDto,
+  AccountConfirmationDto,
+  ActivityQueryDto
+} from '../dto/auth.dto';
+import User, { getPrivacySettings, toUserProfile } from '../../models/user.model';
 export class AuthController {
   private authService: AuthService;
   constructor() {
     this.authService = new AuthService();
   }
+  private getSessionContext(req: Request): SessionContext {
+    return {
+      userAgent: req.get('User-Agent'),
+      ip: req.ip,
+      deviceLabel: req.body?.deviceLabel
+    };
+  }
   register = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const registerData: RegisterDto = req.body;
-      const tokens = await this.authService.register(registerData);
+      const tokens = await this.authService.register(registerData, this.getSessionContext(req));
       res.status(201).json({
         success: true,
         message: 'User registered successfully',
@@ -23,7 +55,20 @@ export class AuthController {
   login = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const loginData: LoginDto = req.body;
-      const tokens = await this.authService.login(loginData);
+      const result = await this.authService.login(loginData, this.getSessionContext(req));
+      res.status(200).json({
+        success: true,
+        message: 'challengeToken' in result ? 'Two-factor authentication required' : 'Login successful',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  completeTwoFactorLogin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const twoFactorLoginData: TwoFactorLoginDto = req.body;
+      const tokens = await this.authService.completeTwoFactorLogin(twoFactorLoginData, this.getSessionContext(req));
       res.status(200).json({
         success: true,
         message: 'Login successful',
@@ -33,10 +78,74 @@ export class AuthController {
       next(error);
     }
   };
+  requestMagicLink = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const magicLinkRequestData: MagicLinkRequestDto = req.body;
+      await this.authService.requestMagicLink(magicLinkRequestData);
+      res.status(200).json({
+        success: true,
+        message: 'If an account exists for this email, a sign-in link has been sent'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  verifyMagicLink = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { token }: MagicLinkVerifyDto = req.body;
+      const result = await this.authService.loginWithMagicLink({ token }, this.getSessionContext(req));
+      res.status(200).json({
+        success: true,
+        message: 'challengeToken' in result ? 'Two-factor authentication required' : 'Login successful',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  listOidcProviders = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.status(200).json({
+        success: true,
+        data: {
+          providers: oidcService.listProviders()
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  beginOidcLogin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const authorizationRequest = await this.authService.beginOidcLogin(req.params.provider);
+      res.status(200).json({
+        success: true,
+        data: authorizationRequest
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  completeOidcLogin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { code, state }: OidcCallbackDto = req.body;
+      const result = await this.authService.completeOidcLogin(
+        { provider: req.params.provider, code, state },
+        this.getSessionContext(req)
+      );
+      res.status(200).json({
+        success: true,
+        message: 'challengeToken' in result ? 'Two-factor authentication required' : 'Login successful',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
   refreshTokens = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const refreshTokenData: RefreshTokenDto = req.body;
-      const tokens = await this.authService.refreshTokens(refreshTokenData);
+      const tokens = await this.authService.refreshTokens(refreshTokenData, this.getSessionContext(req));
       res.status(200).json({
         success: true,
         message: 'Tokens refreshed successfully',
@@ -61,6 +170,13 @@ export class AuthController {
           id: user._id,
           username: user.username,
           email: user.email,
+          emailVerified: user.emailVerified,
+          pendingEmail: user.pendingEmail || null,
+          ...toUserProfile(user),
+          privacy: getPrivacySettings(user),
+          twoFactorEnabled: user.twoFactorEnabled,
+          roles: user.roles,
+          impersonatedBy: req.user.impersonatorId || null,
           createdAt: user.createdAt,
           updatedAt: user.updatedAt
         }
@@ -75,7 +191,7 @@ export class AuthController {
         throw new Error('User not found in request');
       }
       const updateData: UpdateProfileDto = req.body;
-      const updatedUser = await this.authService.updateProfile(req.user.userId, updateData);
+      const updatedUser = await this.authService.updateProfile(req.user.userId, updateData, this.getSessionContext(req));
       res.status(200).json({
         success: true,
         message: 'Profile updated successfully',
@@ -83,6 +199,9 @@ export class AuthController {
           id: updatedUser._id,
           username: updatedUser.username,
           email: updatedUser.email,
+          emailVerified: updatedUser.emailVerified,
+          pendingEmail: updatedUser.pendingEmail || null,
+          ...toUserProfile(updatedUser),
           createdAt: updatedUser.createdAt,
           updatedAt: updatedUser.updatedAt
         }
@@ -91,10 +210,98 @@ export class AuthController {
       next(error);
     }
   };
+  listActivity = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const query: ActivityQueryDto = req.query as any;
+      const activity = await auditLogService.listForUser(req.user.userId, query);
+      res.status(200).json({
+        success: true,
+        data: activity
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  deactivateAccount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const confirmation: AccountConfirmationDto = req.body;
+      await accountService.deactivate(req.user.userId, confirmation, this.getSessionContext(req));
+      res.status(200).json({
+        success: true,
+        message: 'Account deactivated. Sign in through account reactivation to restore it'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  requestAccountConfirmation = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      await accountService.requestConfirmation(req.user.userId);
+      res.status(200).json({
+        success: true,
+        message: 'Confirmation code sent'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  reactivateAccount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const loginData: LoginDto = req.body;
+      const result = await this.authService.reactivateAccount(loginData, this.getSessionContext(req));
+      res.status(200).json({
+        success: true,
+        message: 'challengeToken' in result ? 'Two-factor authentication required' : 'Account reactivated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  deleteAccount = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const confirmation: AccountConfirmationDto = req.body;
+      const schedule = await accountService.requestDeletion(req.user.userId, confirmation, this.getSessionContext(req));
+      res.status(202).json({
+        success: true,
+        message: 'Account scheduled for deletion. Reactivate it before the deletion date to cancel',
+        data: schedule
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  exportAccountData = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const archive = await accountService.exportUserData(req.user.userId);
+      const fileName = `account-export-${req.user.userId}-${archive.exportedAt.toISOString().slice(0, 10)}.json`;
+      res.status(200)
+        .attachment(fileName)
+        .type('application/json')
+        .send(JSON.stringify(archive, null, 2));
+    } catch (error) {
+      next(error);
+    }
+  };
   logout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       const logoutData: LogoutDto = req.body;
-      await this.authService.logout(logoutData);
+      await this.authService.logout(logoutData, req.user, this.getSessionContext(req));
       res.status(200).json({
         success: true,
         message: 'Logged out successfully'
@@ -103,4 +310,241 @@ export class AuthController {
       next(error);
     }
   };
+  listSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const sessions = await sessionService.listSessions(req.user.userId, req.user.sessionId);
+      res.status(200).json({
+        success: true,
+        data: {
+          sessions
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  revokeSession = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      await sessionService.revokeSession(req.user.userId, req.params.sessionId);
+      res.status(200).json({
+        success: true,
+        message: 'Session revoked successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  revokeOtherSessions = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const revokedCount = await sessionService.revokeOtherSessions(req.user.userId, req.user.sessionId);
+      res.status(200).json({
+        success: true,
+        message: 'Signed out from all other sessions',
+        data: {
+          revokedCount
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  listApiKeys = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const apiKeys = await apiKeyService.listApiKeys(req.user.userId);
+      res.status(200).json({
+        success: true,
+        data: {
+          apiKeys
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  createApiKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const createApiKeyData: CreateApiKeyDto = req.body;
+      const { apiKey, key } = await apiKeyService.createApiKey(req.user.userId, createApiKeyData);
+      res.status(201).json({
+        success: true,
+        message: 'API key created. Store it securely - it will not be shown again',
+        data: {
+          apiKey,
+          key
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  revokeApiKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      await apiKeyService.revokeApiKey(req.user.userId, req.params.apiKeyId);
+      res.status(200).json({
+        success: true,
+        message: 'API key revoked successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  forgotPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const forgotPasswordData: ForgotPasswordDto = req.body;
+      await this.authService.requestPasswordReset(forgotPasswordData);
+      res.status(200).json({
+        success: true,
+        message: 'If an account exists for this email, a password reset link has been sent'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  resetPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const resetPasswordData: ResetPasswordDto = req.body;
+      await this.authService.resetPassword(resetPasswordData, this.getSessionContext(req));
+      res.status(200).json({
+        success: true,
+        message: 'Password has been reset successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  changePassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const changePasswordData: ChangePasswordDto = req.body;
+      await this.authService.changePassword(
+        req.user.userId,
+        changePasswordData,
+        req.user.sessionId,
+        this.getSessionContext(req)
+      );
+      res.status(200).json({
+        success: true,
+        message: 'Password changed successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  verifyEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const verifyEmailData: VerifyEmailDto = req.body;
+      const user = await this.authService.verifyEmail(verifyEmailData);
+      res.status(200).json({
+        success: true,
+        message: 'Email verified successfully',
+        data: {
+          id: user._id,
+          email: user.email,
+          emailVerified: user.emailVerified
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  resendVerificationEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      await this.authService.resendVerificationEmail(req.user.userId);
+      res.status(200).json({
+        success: true,
+        message: 'Verification email sent'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  beginTwoFactorEnrollment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const enrollment = await twoFactorService.beginEnrollment(req.user.userId);
+      res.status(200).json({
+        success: true,
+        message: 'Scan the QR code with your authenticator app and confirm with a code',
+        data: enrollment
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  confirmTwoFactorEnrollment = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const { code }: TwoFactorCodeDto = req.body;
+      const recoveryCodes = await twoFactorService.confirmEnrollment(req.user.userId, code);
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication enabled',
+        data: {
+          recoveryCodes
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  disableTwoFactor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const { password, code }: DisableTwoFactorDto = req.body;
+      await twoFactorService.disable(req.user.userId, password, code);
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication disabled'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  regenerateRecoveryCodes = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const { code }: TwoFactorCodeDto = req.body;
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user.userId, code);
+      res.status(200).json({
+        success: true,
+        message: 'Recovery codes regenerated',
+        data: {
+          recoveryCodes
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
 }
@@ -0,0 +1,110 @@
+import { Request, Response, NextFunction } from 'express';
+import { contactService } from '../../services/contact.service';
+import { CONTACT_REQUEST_STATUSES } from '../../constants/contacts';
+import { ContactRequestQueryDto, SendContactRequestDto } from '../dto/contact.dto';
+export class ContactController {
+  getContacts = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const contacts = await contactService.getContacts(req.user.userId);
+      res.status(200).json({
+        success: true,
+        data: { contacts }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  removeContact = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      await contactService.removeContact(req.user.userId, req.params.userId);
+      res.status(200).json({
+        success: true,
+        message: 'Contact removed successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  getRequests = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const { direction = 'incoming' }: ContactRequestQueryDto = req.query as any;
+      const requests = await contactService.getRequests(req.user.userId, direction);
+      res.status(200).json({
+        success: true,
+        data: { requests }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  sendRequest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const { userId }: SendContactRequestDto = req.body;
+      const request = await contactService.sendRequest(req.user.userId, userId);
+      const accepted = request.status === CONTACT_REQUEST_STATUSES.ACCEPTED;
+      res.status(accepted ? 200 : 201).json({
+        success: true,
+        message: accepted ? 'Contact request accepted' : 'Contact request sent',
+        data: { request }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  acceptRequest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const request = await contactService.acceptRequest(req.user.userId, req.params.requestId);
+      res.status(200).json({
+        success: true,
+        message: 'Contact request accepted',
+        data: { request }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  declineRequest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const request = await contactService.declineRequest(req.user.userId, req.params.requestId);
+      res.status(200).json({
+        success: true,
+        message: 'Contact request declined',
+        data: { request }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  cancelRequest = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      await contactService.cancelRequest(req.user.userId, req.params.requestId);
+      res.status(200).json({
+        success: true,
+        message: 'Contact request cancelled'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,5 +1,6 @@
 import { Response } from 'express';
 import { conversationService } from '../../services/conversation.service';
+import { avatarService } from '../../services/avatar.service';
 import { AuthenticatedRequest } from '../middlewares/auth.middleware';
 import Logger from '../../utils/logger';
 export class ConversationController {
@@ -29,7 +30,7 @@ export class ConversationController {
         success: true,
         message,
         data: {
-          conversation
+          conversation: conversationService.toConversationItem(conversation, currentUserId)
         }
       });
     } catch (error) {
@@ -41,6 +42,146 @@ export class ConversationController {
       throw error;
     }
   }
+  public async createGroupConversation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { title, participantIds } = req.body;
+      const creatorId = req.user!.userId;
+      Logger.info('[CONVERSATION] Create group conversation attempt', {
+        creatorId,
+        participantCount: participantIds.length,
+        category: 'conversation'
+      });
+      const conversation = await conversationService.createGroupConversation({
+        creatorId,
+        title,
+        participantIds
+      });
+      Logger.info('[CONVERSATION] Create group conversation successful', {
+        conversationId: conversation._id,
+        creatorId,
+        category: 'conversation'
+      });
+      res.status(201).json({
+        success: true,
+        message: 'Group conversation created successfully',
+        data: {
+          conversation: conversationService.toConversationItem(conversation, creatorId)
+        }
+      });
+    } catch (error) {
+      Logger.error('[CONVERSATION] Create group conversation failed', error as Error, {
+        creatorId: req.user?.userId,
+        category: 'conversation'
+      });
+      throw error;
+    }
+  }
+  public async updateGroupConversation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { conversationId } = req.params;
+      const userId = req.user!.userId;
+      const conversation = await conversationService.updateGroupConversation(conversationId, userId, {
+        title: req.body.title
+      });
+      res.status(200).json({
+        success: true,
+        message: 'Group conversation updated successfully',
+        data: {
+          conversation: conversationService.toConversationItem(conversation, userId)
+        }
+      });
+    } catch (error) {
+      Logger.error('[CONVERSATION] Update group conversation failed', error as Error, {
+        conversationId: req.params?.conversationId || 'unknown',
+        userId: req.user?.userId || 'unknown',
+        category: 'conversation'
+      });
+      throw error;
+    }
+  }
+  public async addGroupMembers(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { conversationId } = req.params;
+      const userId = req.user!.userId;
+      const conversation = await conversationService.addGroupMembers(conversationId, userId, req.body.memberIds);
+      res.status(200).json({
+        success: true,
+        message: 'Group members added successfully',
+        data: {
+          conversation: conversationService.toConversationItem(conversation, userId)
+        }
+      });
+    } catch (error) {
+      Logger.error('[CONVERSATION] Add group members failed', error as Error, {
+        conversationId: req.params?.conversationId || 'unknown',
+        userId: req.user?.userId || 'unknown',
+        category: 'conversation'
+      });
+      throw error;
+    }
+  }
+  public async removeGroupMember(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { conversationId, userId: memberId } = req.params;
+      const userId = req.user!.userId;
+      const conversation = await conversationService.removeGroupMember(conversationId, userId, memberId);
+      res.status(200).json({
+        success: true,
+        message: memberId === userId ? 'You left the group conversation' : 'Group member removed successfully',
+        data: {
+          conversation: conversation && memberId !== userId
+            ? conversationService.toConversationItem(conversation, userId)
+            : null
+        }
+      });
+    } catch (error) {
+      Logger.error('[CONVERSATION] Remove group member failed', error as Error, {
+        conversationId: req.params?.conversationId || 'unknown',
+        memberId: req.params?.userId || 'unknown',
+        userId: req.user?.userId || 'unknown',
+        category: 'conversation'
+      });
+      throw error;
+    }
+  }
+  public async uploadGroupAvatar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { conversationId } = req.params;
+      if (!req.file) {
+        throw new Error('File not found in request');
+      }
+      const avatarUrls = await avatarService.uploadConversationAvatar(conversationId, req.user!.userId, req.file);
+      res.status(201).json({
+        success: true,
+        message: 'Group avatar uploaded successfully',
+        data: { avatarUrl: avatarUrls.medium, avatarUrls }
+      });
+    } catch (error) {
+      Logger.error('[CONVERSATION] Upload group avatar failed', error as Error, {
+        conversationId: req.params?.conversationId || 'unknown',
+        userId: req.user?.userId || 'unknown',
+        category: 'conversation'
+      });
+      throw error;
+    }
+  }
+  public async removeGroupAvatar(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { conversationId } = req.params;
+      await avatarService.removeConversationAvatar(conversationId, req.user!.userId);
+      res.status(200).json({
+        success: true,
+        message: 'Group avatar removed successfully'
+      });
+    } catch (error) {
+      Logger.error('[CONVERSATION] Remove group avatar failed', error as Error, {
+        conversationId: req.params?.conversationId || 'unknown',
+        userId: req.user?.userId || 'unknown',
+        category: 'conversation'
+      });
+      throw error;
+    }
+  }
   public async getConversations(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const userId = req.user!.userId;
@@ -59,7 +200,8 @@ export class ConversationController {
         filteredConversations = conversations.filter(conversation =>
           conversation.participants.some(participant =>
             participant.username.toLowerCase().includes(searchLower) ||
-            participant.email.toLowerCase().includes(searchLower)
+            participant.displayName?.toLowerCase().includes(searchLower) ||
+            participant.email?.toLowerCase().includes(searchLower)
           )
         );
       }
@@ -119,7 +261,7 @@ export class ConversationController {
         success: true,
         message: 'Conversation retrieved successfully',
         data: {
-          conversation
+          conversation: conversationService.toConversationItem(conversation, userId)
         }
       });
     } catch (error) {
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { storageService } from '../../services/storage.service';
+import { AppError } from '../../utils/app-error';
+import { assertValidMediaSignature } from '../../utils/media-url';
+import { MediaQueryDto } from '../dto/media.dto';
+export class MediaController {
+  getMedia = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const key = req.params[0];
+      const { expires, signature }: MediaQueryDto = req.query as any;
+      assertValidMediaSignature(key, expires, signature);
+      const object = await storageService.get(key);
+      if (!object) {
+        throw new AppError('Media not found', 404, 'MEDIA_NOT_FOUND');
+      }
+      const maxAge = Math.max(expires - Math.floor(Date.now() / 1000), 0);
+      res.set({
+        'Content-Type': object.contentType,
+        'Content-Length': object.body.length.toString(),
+        'Cache-Control': `public, max-age=${maxAge}, immutable`,
+        'Cross-Origin-Resource-Policy': 'cross-origin',
+        'X-Content-Type-Options': 'nosniff'
+      });
+      res.status(200).send(object.body);
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -38,7 +38,13 @@ describe('MessageController', () => {
           senderId: {
             id: 'user123',
             username: 'testuser',
-            email: 'test@example.com'
+            email: 'test@example.com',
+            displayName: null,
+            bio: null,
+            avatarUrl: null,
+            statusText: null,
+            statusExpiresAt: null,
+            lastSeenAt: null
           },
           content: 'Hello world',
           isRead: false,
@@ -1,6 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
 import { UserService } from '../../services/user.service';
-import { UserListQueryDto } from '../dto/user.dto';
+import { auditLogService } from '../../services/audit-log.service';
+import { impersonationService } from '../../services/impersonation.service';
+import { avatarService } from '../../services/avatar.service';
+import { blockService } from '../../services/block.service';
+import { preferencesService } from '../../services/preferences.service';
+import {
+  UserListQueryDto,
+  UserSearchQueryDto,
+  UpdateUserRolesDto,
+  AuditLogQueryDto,
+  ImpersonateUserDto,
+  UpdatePrivacySettingsDto,
+  UpdatePreferencesDto
+} from '../dto/user.dto';
 export class UserController {
   private userService: UserService;
   constructor() {
@@ -8,8 +21,11 @@ export class UserController {
   }
   getUserList = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
       const query: UserListQueryDto = req.query as any;
-      const result = await this.userService.getUserList(query);
+      const result = await this.userService.getUserList(req.user.userId, query);
       res.status(200).json({
         success: true,
         data: result
@@ -18,4 +34,203 @@ export class UserController {
       next(error);
     }
   };
+  searchUsers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const query: UserSearchQueryDto = req.query as any;
+      const result = await this.userService.searchUsers(req.user.userId, query);
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  updateUserRoles = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const updateData: UpdateUserRolesDto = req.body;
+      const result = await this.userService.updateUserRoles(req.params.userId, updateData, req.user.userId);
+      res.status(200).json({
+        success: true,
+        message: 'User roles updated successfully',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  impersonateUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const { reason }: ImpersonateUserDto = req.body;
+      const result = await impersonationService.startImpersonation(
+        req.user.userId,
+        req.params.userId,
+        reason,
+        { ip: req.ip, userAgent: req.get('User-Agent') }
+      );
+      res.status(200).json({
+        success: true,
+        message: 'Impersonation session started',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  getAuditEvents = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const query: AuditLogQueryDto = req.query as any;
+      const result = await auditLogService.query(query);
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  getPrivacy = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const privacy = await this.userService.getPrivacy(req.user.userId);
+      res.status(200).json({
+        success: true,
+        data: { privacy }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  updatePrivacy = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const updateData: UpdatePrivacySettingsDto = req.body;
+      const privacy = await this.userService.updatePrivacy(req.user.userId, updateData);
+      res.status(200).json({
+        success: true,
+        message: 'Privacy settings updated successfully',
+        data: { privacy }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  getPreferences = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const preferences = await preferencesService.getPreferences(req.user.userId);
+      res.status(200).json({
+        success: true,
+        data: { preferences }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  updatePreferences = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const updateData: UpdatePreferencesDto = req.body;
+      const preferences = await preferencesService.updatePreferences(req.user.userId, updateData);
+      res.status(200).json({
+        success: true,
+        message: 'Preferences updated successfully',
+        data: { preferences }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  getBlockedUsers = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const blockedUsers = await blockService.getBlockedUsers(req.user.userId);
+      res.status(200).json({
+        success: true,
+        data: { blockedUsers }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  blockUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      const blockedUser = await blockService.blockUser(req.user.userId, req.params.userId);
+      res.status(200).json({
+        success: true,
+        message: 'User blocked successfully',
+        data: { blockedUser }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  unblockUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      await blockService.unblockUser(req.user.userId, req.params.userId);
+      res.status(200).json({
+        success: true,
+        message: 'User unblocked successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  uploadAvatar = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      if (!req.file) {
+        throw new Error('File not found in request');
+      }
+      const avatarUrls = await avatarService.uploadAvatar(req.user.userId, req.file);
+      res.status(201).json({
+        success: true,
+        message: 'Avatar uploaded successfully',
+        data: { avatarUrl: avatarUrls.medium, avatarUrls }
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+  removeAvatar = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new Error('User not found in request');
+      }
+      await avatarService.removeAvatar(req.user.userId);
+      res.status(200).json({
+        success: true,
+        message: 'Avatar removed successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
 }
@@ -0,0 +1,12 @@
+import { Request, Response, NextFunction } from 'express';
+import { keyRingService } from '../../services/key-ring.service';
+export class WellKnownController {
+  getJwks = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      res.set('Cache-Control', 'public, max-age=300');
+      res.status(200).json(keyRingService.getJwks());
+    } catch (error) {
+      next(error);
+    }
+  };
+}
@@ -1,4 +1,22 @@
-import { IsEmail, IsString, MinLength, MaxLength, Matches, IsOptional } from 'class-validator';
+import {
+  IsEmail,
+  IsString,
+  MinLength,
+  MaxLength,
+  Matches,
+  IsOptional,
+  IsArray,
+  ArrayNotEmpty,
+  IsIn,
+  IsInt,
+  Min,
+  Max,
+  IsUrl,
+  IsDate,
+  ValidateIf
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { API_KEY_SCOPES, ApiKeyScope } from '../../constants/api-key-scopes';
 export class RegisterDto {
   @IsString({ message: 'Username must be a string' })
   @MinLength(3, { message: 'Username must be at least 3 characters long' })
@@ -12,6 +30,10 @@ export class RegisterDto {
   @IsString({ message: 'Password must be a string' })
   @MinLength(6, { message: 'Password must be at least 6 characters long' })
   password!: string;
+  @IsOptional()
+  @IsString({ message: 'Device label must be a string' })
+  @MaxLength(100, { message: 'Device label cannot exceed 100 characters' })
+  deviceLabel?: string;
 }
 export class LoginDto {
   @IsEmail({}, { message: 'Please provide a valid email address' })
@@ -19,6 +41,10 @@ export class LoginDto {
   @IsString({ message: 'Password must be a string' })
   @MinLength(1, { message: 'Password is required' })
   password!: string;
+  @IsOptional()
+  @IsString({ message: 'Device label must be a string' })
+  @MaxLength(100, { message: 'Device label cannot exceed 100 characters' })
+  deviceLabel?: string;
 }
 export class RefreshTokenDto {
   @IsString({ message: 'Refresh token must be a string' })
@@ -37,9 +63,145 @@ export class UpdateProfileDto {
   @IsOptional()
   @IsEmail({}, { message: 'Please provide a valid email address' })
   email?: string;
+  @IsOptional()
+  @IsString({ message: 'Display name must be a string' })
+  @MaxLength(50, { message: 'Display name cannot exceed 50 characters' })
+  displayName?: string | null;
+  @IsOptional()
+  @IsString({ message: 'Bio must be a string' })
+  @MaxLength(280, { message: 'Bio cannot exceed 280 characters' })
+  bio?: string | null;
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true }, { message: 'Avatar URL must be a valid http(s) URL' })
+  @MaxLength(2048, { message: 'Avatar URL cannot exceed 2048 characters' })
+  avatarUrl?: string | null;
+  @IsOptional()
+  @IsString({ message: 'Status text must be a string' })
+  @MaxLength(100, { message: 'Status text cannot exceed 100 characters' })
+  statusText?: string | null;
+  @IsOptional()
+  @Transform(({ value }: { value: any }) => (value === null || value === '' ? null : new Date(value)))
+  @IsDate({ message: 'Status expiry must be a valid date' })
+  statusExpiresAt?: Date | null;
 }
 export class LogoutDto {
   @IsString({ message: 'Refresh token must be a string' })
   @MinLength(1, { message: 'Refresh token is required' })
   refreshToken!: string;
 }
+export class ForgotPasswordDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email!: string;
+}
+export class ResetPasswordDto {
+  @IsString({ message: 'Reset token must be a string' })
+  @MinLength(1, { message: 'Reset token is required' })
+  token!: string;
+  @IsString({ message: 'Password must be a string' })
+  @MinLength(6, { message: 'Password must be at least 6 characters long' })
+  password!: string;
+}
+export class ChangePasswordDto {
+  @IsString({ message: 'Current password must be a string' })
+  @MinLength(1, { message: 'Current password is required' })
+  currentPassword!: string;
+  @IsString({ message: 'New password must be a string' })
+  @MinLength(1, { message: 'New password is required' })
+  newPassword!: string;
+}
+export class VerifyEmailDto {
+  @IsString({ message: 'Verification token must be a string' })
+  @MinLength(1, { message: 'Verification token is required' })
+  token!: string;
+}
+export class TwoFactorCodeDto {
+  @IsString({ message: 'Code must be a string' })
+  @MinLength(1, { message: 'Code is required' })
+  @MaxLength(20, { message: 'Code cannot exceed 20 characters' })
+  code!: string;
+}
+export class TwoFactorLoginDto {
+  @IsString({ message: 'Challenge token must be a string' })
+  @MinLength(1, { message: 'Challenge token is required' })
+  challengeToken!: string;
+  @IsString({ message: 'Code must be a string' })
+  @MinLength(1, { message: 'Code is required' })
+  @MaxLength(20, { message: 'Code cannot exceed 20 characters' })
+  code!: string;
+  @IsOptional()
+  @IsString({ message: 'Device label must be a string' })
+  @MaxLength(100, { message: 'Device label cannot exceed 100 characters' })
+  deviceLabel?: string;
+}
+export class DisableTwoFactorDto {
+  @IsString({ message: 'Password must be a string' })
+  @MinLength(1, { message: 'Password is required' })
+  password!: string;
+  @IsString({ message: 'Code must be a string' })
+  @MinLength(1, { message: 'Code is required' })
+  @MaxLength(20, { message: 'Code cannot exceed 20 characters' })
+  code!: string;
+}
+export class CreateApiKeyDto {
+  @IsString({ message: 'Name must be a string' })
+  @MinLength(1, { message: 'Name is required' })
+  @MaxLength(100, { message: 'Name cannot exceed 100 characters' })
+  name!: string;
+  @IsArray({ message: 'Scopes must be an array' })
+  @ArrayNotEmpty({ message: 'At least one scope is required' })
+  @IsIn(Object.values(API_KEY_SCOPES), { each: true, message: 'Invalid scope' })
+  scopes!: ApiKeyScope[];
+  @IsOptional()
+  @IsInt({ message: 'Expiry must be a whole number of days' })
+  @Min(1, { message: 'Expiry must be at least 1 day' })
+  @Max(365, { message: 'Expiry cannot exceed 365 days' })
+  expiresInDays?: number;
+}
+export class OidcCallbackDto {
+  @IsString({ message: 'Authorization code must be a string' })
+  @MinLength(1, { message: 'Authorization code is required' })
+  code!: string;
+  @IsString({ message: 'State must be a string' })
+  @MinLength(1, { message: 'State is required' })
+  state!: string;
+  @IsOptional()
+  @IsString({ message: 'Device label must be a string' })
+  @MaxLength(100, { message: 'Device label cannot exceed 100 characters' })
+  deviceLabel?: string;
+}
+export class MagicLinkRequestDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email!: string;
+}
+export class MagicLinkVerifyDto {
+  @IsString({ message: 'Magic link token must be a string' })
+  @MinLength(1, { message: 'Magic link token is required' })
+  token!: string;
+  @IsOptional()
+  @IsString({ message: 'Device label must be a string' })
+  @MaxLength(100, { message: 'Device label cannot exceed 100 characters' })
+  deviceLabel?: string;
+}
+export class AccountConfirmationDto {
+  @ValidateIf((dto: AccountConfirmationDto) => dto.confirmationToken === undefined)
+  @IsString({ message: 'Password must be a string' })
+  @MinLength(1, { message: 'Password or confirmation token is required' })
+  password?: string;
+  @IsOptional()
+  @IsString({ message: 'Confirmation token must be a string' })
+  @MinLength(1, { message: 'Confirmation token cannot be empty' })
+  confirmationToken?: string;
+}
+export class ActivityQueryDto {
+  @IsOptional()
+  @Transform(({ value }: { value: any }) => parseInt(value))
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+  @IsOptional()
+  @Transform(({ value }: { value: any }) => parseInt(value))
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  limit?: number = 20;
+}
@@ -0,0 +1,11 @@
+import { IsIn, IsMongoId, IsOptional } from 'class-validator';
+import { CONTACT_REQUEST_DIRECTIONS, ContactRequestDirection } from '../../constants/contacts';
+export class SendContactRequestDto {
+  @IsMongoId({ message: 'User ID must be a valid ID' })
+  userId!: string;
+}
+export class ContactRequestQueryDto {
+  @IsOptional()
+  @IsIn(CONTACT_REQUEST_DIRECTIONS, { message: 'Direction must be one of: incoming, outgoing' })
+  direction?: ContactRequestDirection = 'incoming';
+}
@@ -0,0 +1,10 @@
+import { IsInt, IsString, MinLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+export class MediaQueryDto {
+  @Transform(({ value }: { value: any }) => parseInt(value))
+  @IsInt({ message: 'Expires must be an integer' })
+  expires!: number;
+  @IsString({ message: 'Signature must be a string' })
+  @MinLength(1, { message: 'Signature is required' })
+  signature!: string;
+}
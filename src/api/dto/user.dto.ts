@@ -1,5 +1,10 @@
-import { IsOptional, IsInt, Min, Max } from 'class-validator';
-import { Transform } from 'class-transformer';
+import { IsOptional, IsInt, Min, Max, IsArray, IsIn, ArrayNotEmpty, IsMongoId, IsEmail, IsString, IsDate, IsBoolean, MinLength, MaxLength, Matches, ValidateNested } from 'class-validator';
+import { Transform, plainToClass } from 'class-transformer';
+import { ROLES, PERMISSIONS, Role, Permission } from '../../constants/roles';
+import { AUDIT_EVENT_TYPES, AUDIT_OUTCOMES, AuditEventType, AuditOutcome } from '../../constants/audit-events';
+import { USER_SEARCH_SORTS, UserSearchSort } from '../../constants/user-search';
+import { SUPPORTED_LOCALES, TIME_OF_DAY_PATTERN, SupportedLocale } from '../../constants/preferences';
+import { MESSAGE_AUDIENCES, PRIVACY_AUDIENCES, MessageAudience, PrivacyAudience } from '../../constants/privacy';
 export class UserListQueryDto {
   @IsOptional()
   @Transform(({ value }: { value: any }) => parseInt(value))
@@ -13,3 +18,138 @@ export class UserListQueryDto {
   @Max(100, { message: 'Limit cannot exceed 100' })
   limit?: number = 10;
 }
+export class UserSearchQueryDto extends UserListQueryDto {
+  @IsOptional()
+  @IsString({ message: 'Search query must be a string' })
+  @MinLength(1, { message: 'Search query cannot be empty' })
+  @MaxLength(100, { message: 'Search query cannot exceed 100 characters' })
+  q?: string;
+  @IsOptional()
+  @Transform(({ value }: { value: any }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean({ message: 'Active must be true or false' })
+  active?: boolean;
+  @IsOptional()
+  @Transform(({ value }: { value: any }) => (value === 'true' ? true : value === 'false' ? false : value))
+  @IsBoolean({ message: 'Online must be true or false' })
+  online?: boolean;
+  @IsOptional()
+  @Transform(({ value }: { value: any }) => parseInt(value))
+  @IsInt({ message: 'Active within days must be an integer' })
+  @Min(1, { message: 'Active within days must be at least 1' })
+  @Max(365, { message: 'Active within days cannot exceed 365' })
+  activeWithinDays?: number;
+  @IsOptional()
+  @IsIn(USER_SEARCH_SORTS, { message: 'Invalid sort field' })
+  sort?: UserSearchSort;
+  @IsOptional()
+  @IsIn(['asc', 'desc'], { message: 'Order must be asc or desc' })
+  order?: 'asc' | 'desc';
+}
+export class UpdateUserRolesDto {
+  @IsArray({ message: 'Roles must be an array' })
+  @ArrayNotEmpty({ message: 'At least one role is required' })
+  @IsIn(Object.values(ROLES), { each: true, message: 'Invalid role' })
+  roles!: Role[];
+  @IsOptional()
+  @IsArray({ message: 'Permissions must be an array' })
+  @IsIn(Object.values(PERMISSIONS), { each: true, message: 'Invalid permission' })
+  permissions?: Permission[];
+}
+export class AuditLogQueryDto {
+  @IsOptional()
+  @Transform(({ value }: { value: any }) => parseInt(value))
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+  @IsOptional()
+  @Transform(({ value }: { value: any }) => parseInt(value))
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit cannot exceed 100' })
+  limit?: number = 20;
+  @IsOptional()
+  @IsMongoId({ message: 'Invalid user ID format' })
+  userId?: string;
+  @IsOptional()
+  @IsMongoId({ message: 'Invalid user ID format' })
+  impersonatorId?: string;
+  @IsOptional()
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email?: string;
+  @IsOptional()
+  @IsIn(Object.values(AUDIT_EVENT_TYPES), { message: 'Invalid event type' })
+  type?: AuditEventType;
+  @IsOptional()
+  @IsIn(Object.values(AUDIT_OUTCOMES), { message: 'Invalid outcome' })
+  outcome?: AuditOutcome;
+  @IsOptional()
+  @IsString({ message: 'IP address must be a string' })
+  ip?: string;
+  @IsOptional()
+  @Transform(({ value }: { value: any }) => new Date(value))
+  @IsDate({ message: 'From must be a valid date' })
+  from?: Date;
+  @IsOptional()
+  @Transform(({ value }: { value: any }) => new Date(value))
+  @IsDate({ message: 'To must be a valid date' })
+  to?: Date;
+}
+export class ImpersonateUserDto {
+  @IsString({ message: 'Reason must be a string' })
+  @MinLength(3, { message: 'Reason must be at least 3 characters long' })
+  @MaxLength(500, { message: 'Reason cannot exceed 500 characters' })
+  reason!: string;
+}
+export class UpdatePrivacySettingsDto {
+  @IsOptional()
+  @IsIn(Object.values(PRIVACY_AUDIENCES), { message: 'Email visibility must be one of: everyone, conversations, nobody' })
+  emailVisibility?: PrivacyAudience;
+  @IsOptional()
+  @IsIn(Object.values(PRIVACY_AUDIENCES), { message: 'Last seen visibility must be one of: everyone, conversations, nobody' })
+  lastSeenVisibility?: PrivacyAudience;
+  @IsOptional()
+  @IsIn(Object.values(MESSAGE_AUDIENCES), { message: 'Messages from must be one of: everyone, contacts' })
+  messagesFrom?: MessageAudience;
+}
+export class QuietHoursDto {
+  @IsOptional()
+  @IsBoolean({ message: 'Quiet hours enabled must be a boolean' })
+  enabled?: boolean;
+  @IsOptional()
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'Quiet hours start must be in HH:mm format' })
+  start?: string;
+  @IsOptional()
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'Quiet hours end must be in HH:mm format' })
+  end?: string;
+}
+export class NotificationPreferencesDto {
+  @IsOptional()
+  @IsBoolean({ message: 'Message notifications must be a boolean' })
+  messages?: boolean;
+  @IsOptional()
+  @IsBoolean({ message: 'Contact request notifications must be a boolean' })
+  contactRequests?: boolean;
+}
+export class UpdatePreferencesDto {
+  @IsOptional()
+  @IsIn(SUPPORTED_LOCALES, { message: `Locale must be one of: ${SUPPORTED_LOCALES.join(', ')}` })
+  locale?: SupportedLocale;
+  @IsOptional()
+  @IsString({ message: 'Timezone must be a string' })
+  @MaxLength(64, { message: 'Timezone cannot exceed 64 characters' })
+  timezone?: string;
+  @IsOptional()
+  @ValidateNested()
+  @Transform(({ value }: { value: any }) => plainToClass(QuietHoursDto, value))
+  quietHours?: QuietHoursDto;
+  @IsOptional()
+  @ValidateNested()
+  @Transform(({ value }: { value: any }) => plainToClass(NotificationPreferencesDto, value))
+  notifications?: NotificationPreferencesDto;
+  @IsOptional()
+  @IsBoolean({ message: 'Read receipts must be a boolean' })
+  readReceipts?: boolean;
+  @IsOptional()
+  @IsBoolean({ message: 'Auto messages must be a boolean' })
+  autoMessages?: boolean;
+}
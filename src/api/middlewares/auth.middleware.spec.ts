@@ -1,8 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
-import { authMiddleware } from './auth.middleware';
+import { EventEmitter } from 'events';
+import { authMiddleware, authorize, requireScopes, requireUserSession, forbidImpersonation } from './auth.middleware';
 import { AuthService } from '../../services/auth.service';
+import { apiKeyService } from '../../services/api-key.service';
+import { impersonationService } from '../../services/impersonation.service';
 import { AppError } from '../../utils/app-error';
+import { PERMISSIONS } from '../../constants/roles';
+import { API_KEY_SCOPES } from '../../constants/api-key-scopes';
 jest.mock('../../services/auth.service');
+jest.mock('../../services/api-key.service');
+jest.mock('../../services/impersonation.service');
+jest.mock('../../utils/logger');
 describe('authMiddleware', () => {
   let mockRequest: Partial<Request>;
   let mockResponse: Partial<Response>;
@@ -37,6 +45,36 @@ describe('authMiddleware', () => {
     expect(mockRequest.user).toEqual(mockUser);
     expect(mockNext).toHaveBeenCalledWith();
   });
+  it('should authenticate API keys sent in the X-API-Key header', async () => {
+    const principal = {
+      userId: 'user123',
+      email: 'test@example.com',
+      username: 'testuser',
+      apiKeyId: 'key123',
+      scopes: [API_KEY_SCOPES.MESSAGES_WRITE]
+    };
+    mockRequest = { headers: { 'x-api-key': 'rtm_abc_secret' }, ip: '10.0.0.1' } as Partial<Request>;
+    (apiKeyService.authenticate as jest.Mock).mockResolvedValue(principal);
+    await authMiddleware(mockRequest as Request, mockResponse as Response, mockNext);
+    expect(apiKeyService.authenticate).toHaveBeenCalledWith('rtm_abc_secret', '10.0.0.1');
+    expect(mockAuthService.verifyAccessToken).not.toHaveBeenCalled();
+    expect(mockRequest.user).toEqual(principal);
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+  it('should authenticate API keys sent as Bearer credentials', async () => {
+    mockRequest.headers = {
+      authorization: 'Bearer rtm_abc_secret'
+    };
+    (apiKeyService.authenticate as jest.Mock).mockRejectedValue(new AppError('Invalid API key', 401, 'INVALID_API_KEY'));
+    await authMiddleware(mockRequest as Request, mockResponse as Response, mockNext);
+    expect(mockAuthService.verifyAccessToken).not.toHaveBeenCalled();
+    expect(mockNext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: 401,
+        errorCode: 'INVALID_API_KEY'
+      })
+    );
+  });
   it('should call next() with AppError when no authorization header', async () => {
     mockRequest.headers = {};
     await authMiddleware(mockRequest as Request, mockResponse as Response, mockNext);
@@ -74,6 +112,36 @@ describe('authMiddleware', () => {
       })
     );
   });
+  it('should audit every request made with an impersonation token', async () => {
+    const principal = {
+      userId: 'user123',
+      email: 'test@example.com',
+      username: 'testuser',
+      impersonatorId: 'admin123'
+    };
+    const response = Object.assign(new EventEmitter(), { statusCode: 200 });
+    mockRequest = {
+      headers: { authorization: 'Bearer impersonation-token', 'user-agent': 'support-tool' },
+      method: 'GET',
+      baseUrl: '/api/conversations',
+      path: '/',
+      originalUrl: '/api/conversations',
+      ip: '10.0.0.9',
+      get: jest.fn().mockReturnValue('support-tool')
+    } as unknown as Partial<Request>;
+    mockAuthService.verifyAccessToken.mockResolvedValue(principal);
+    await authMiddleware(mockRequest as Request, response as unknown as Response, mockNext);
+    expect(mockNext).toHaveBeenCalledWith();
+    expect(impersonationService.recordAction).not.toHaveBeenCalled();
+    response.emit('finish');
+    expect(impersonationService.recordAction).toHaveBeenCalledWith(
+      principal,
+      'GET /api/conversations/',
+      'success',
+      { method: 'GET', path: '/api/conversations', statusCode: 200 },
+      { ip: '10.0.0.9', userAgent: 'support-tool' }
+    );
+  });
   it('should call next() with AppError when token verification fails', async () => {
     mockRequest.headers = {
       authorization: 'Bearer invalid-token'
@@ -102,3 +170,117 @@ describe('authMiddleware', () => {
     );
   });
 });
+describe('authorize', () => {
+  let mockNext: NextFunction;
+  const createRequest = (permissions?: string[]): Request => ({
+    method: 'GET',
+    originalUrl: '/api/admin',
+    ...(permissions && {
+      user: {
+        userId: 'user123',
+        email: 'test@example.com',
+        username: 'testuser',
+        permissions
+      }
+    })
+  } as unknown as Request);
+  beforeEach(() => {
+    mockNext = jest.fn();
+  });
+  it('should call next() when the user has every required permission', () => {
+    const request = createRequest([PERMISSIONS.JOBS_MANAGE, PERMISSIONS.QUEUES_MANAGE]);
+    authorize(PERMISSIONS.JOBS_MANAGE, PERMISSIONS.QUEUES_MANAGE)(request, {} as Response, mockNext);
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+  it('should reject with FORBIDDEN when a permission is missing', () => {
+    const request = createRequest([PERMISSIONS.JOBS_MANAGE]);
+    authorize(PERMISSIONS.JOBS_MANAGE, PERMISSIONS.QUEUES_MANAGE)(request, {} as Response, mockNext);
+    expect(mockNext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: 403,
+        errorCode: 'FORBIDDEN'
+      })
+    );
+  });
+  it('should reject with UNAUTHORIZED when no user is attached', () => {
+    authorize(PERMISSIONS.USERS_READ)(createRequest(), {} as Response, mockNext);
+    expect(mockNext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: 401,
+        errorCode: 'UNAUTHORIZED'
+      })
+    );
+  });
+});
+describe('requireScopes', () => {
+  let mockNext: NextFunction;
+  const createRequest = (apiKey?: { scopes: string[] }): Request => ({
+    method: 'POST',
+    originalUrl: '/api/messages',
+    user: {
+      userId: 'user123',
+      email: 'test@example.com',
+      username: 'testuser',
+      ...(apiKey && { apiKeyId: 'key123', scopes: apiKey.scopes })
+    }
+  } as unknown as Request);
+  beforeEach(() => {
+    mockNext = jest.fn();
+  });
+  it('should not restrict interactive sessions', () => {
+    requireScopes(API_KEY_SCOPES.MESSAGES_WRITE)(createRequest(), {} as Response, mockNext);
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+  it('should allow API keys holding the scope', () => {
+    const request = createRequest({ scopes: [API_KEY_SCOPES.MESSAGES_WRITE] });
+    requireScopes(API_KEY_SCOPES.MESSAGES_WRITE)(request, {} as Response, mockNext);
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+  it('should reject API keys missing the scope', () => {
+    const request = createRequest({ scopes: [API_KEY_SCOPES.CONVERSATIONS_READ] });
+    requireScopes(API_KEY_SCOPES.MESSAGES_WRITE)(request, {} as Response, mockNext);
+    expect(mockNext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: 403,
+        errorCode: 'INSUFFICIENT_SCOPE'
+      })
+    );
+  });
+  it('should keep API keys away from session-only routes', () => {
+    const request = createRequest({ scopes: Object.values(API_KEY_SCOPES) });
+    requireUserSession(request, {} as Response, mockNext);
+    expect(mockNext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: 403,
+        errorCode: 'API_KEY_NOT_ALLOWED'
+      })
+    );
+  });
+});
+describe('forbidImpersonation', () => {
+  const createRequest = (impersonatorId?: string): Request => ({
+    method: 'POST',
+    originalUrl: '/api/auth/password/change',
+    user: {
+      userId: 'user123',
+      email: 'test@example.com',
+      username: 'testuser',
+      ...(impersonatorId && { impersonatorId })
+    }
+  } as unknown as Request);
+  it('should allow the account owner', () => {
+    const mockNext = jest.fn();
+    forbidImpersonation(createRequest(), {} as Response, mockNext);
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+  it('should block sensitive actions while impersonating', () => {
+    const mockNext = jest.fn();
+    forbidImpersonation(createRequest('admin123'), {} as Response, mockNext);
+    expect(mockNext).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: 403,
+        errorCode: 'IMPERSONATION_NOT_ALLOWED'
+      })
+    );
+  });
+});
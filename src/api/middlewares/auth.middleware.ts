@@ -1,6 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthService } from '../../services/auth.service';
+import { apiKeyService } from '../../services/api-key.service';
+import { impersonationService } from '../../services/impersonation.service';
 import { AppError } from '../../utils/app-error';
+import { Permission, hasPermissions } from '../../constants/roles';
+import { ApiKeyScope, hasScopes, isApiKey } from '../../constants/api-key-scopes';
+import { AUDIT_OUTCOMES } from '../../constants/audit-events';
+import Logger from '../../utils/logger';
 export interface AuthenticatedRequest extends Request {
   user?: {
     userId: string;
@@ -8,12 +14,29 @@ export interface AuthenticatedRequest extends Request {
     username: string;
   };
 }
+const auditImpersonatedRequest = (req: Request, res: Response): void => {
+  const principal = req.user!;
+  res.on('finish', async () => {
+    await impersonationService.recordAction(
+      principal,
+      `${req.method} ${req.baseUrl}${req.path}`,
+      res.statusCode < 400 ? AUDIT_OUTCOMES.SUCCESS : AUDIT_OUTCOMES.FAILURE,
+      { method: req.method, path: req.originalUrl, statusCode: res.statusCode },
+      { ip: req.ip, userAgent: req.get('User-Agent') }
+    );
+  });
+};
 export const authMiddleware = async (
   req: Request,
-  _res: Response,
+  res: Response,
   next: NextFunction
 ): Promise<void> => {
   try {
+    const apiKeyHeader = req.headers['x-api-key'];
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+      req.user = await apiKeyService.authenticate(apiKeyHeader.trim(), req.ip);
+      return next();
+    }
     const authHeader = req.headers.authorization;
     if (!authHeader) {
       throw new AppError('Authorization header is required', 401, 'UNAUTHORIZED');
@@ -25,9 +48,16 @@ export const authMiddleware = async (
     if (!token) {
       throw new AppError('Access token is required', 401, 'UNAUTHORIZED');
     }
+    if (isApiKey(token)) {
+      req.user = await apiKeyService.authenticate(token, req.ip);
+      return next();
+    }
     const authService = new AuthService();
     const decoded = await authService.verifyAccessToken(token);
     req.user = decoded;
+    if (decoded.impersonatorId) {
+      auditImpersonatedRequest(req, res);
+    }
     next();
   } catch (error) {
     if (error instanceof AppError) {
@@ -37,3 +67,76 @@ export const authMiddleware = async (
     }
   }
 };
+export const authorize = (...permissions: Permission[]) => (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    return next(new AppError('Authentication required', 401, 'UNAUTHORIZED'));
+  }
+  if (!hasPermissions(req.user.permissions, permissions)) {
+    Logger.security('Access denied - missing permissions', {
+      userId: req.user.userId,
+      required: permissions,
+      granted: req.user.permissions || [],
+      method: req.method,
+      url: req.originalUrl
+    });
+    return next(new AppError('You do not have permission to perform this action', 403, 'FORBIDDEN'));
+  }
+  next();
+};
+export const requireScopes = (...scopes: ApiKeyScope[]) => (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    return next(new AppError('Authentication required', 401, 'UNAUTHORIZED'));
+  }
+  if (req.user.apiKeyId && !hasScopes(req.user.scopes, scopes)) {
+    Logger.security('Access denied - API key missing scopes', {
+      userId: req.user.userId,
+      apiKeyId: req.user.apiKeyId,
+      required: scopes,
+      granted: req.user.scopes || [],
+      method: req.method,
+      url: req.originalUrl
+    });
+    return next(new AppError('API key does not have the required scope', 403, 'INSUFFICIENT_SCOPE'));
+  }
+  next();
+};
+export const requireUserSession = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    return next(new AppError('Authentication required', 401, 'UNAUTHORIZED'));
+  }
+  if (req.user.apiKeyId) {
+    return next(new AppError('This action cannot be performed with an API key', 403, 'API_KEY_NOT_ALLOWED'));
+  }
+  next();
+};
+export const forbidImpersonation = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    return next(new AppError('Authentication required', 401, 'UNAUTHORIZED'));
+  }
+  if (req.user.impersonatorId) {
+    Logger.security('Sensitive action blocked during impersonation', {
+      userId: req.user.userId,
+      impersonatorId: req.user.impersonatorId,
+      method: req.method,
+      url: req.originalUrl
+    });
+    return next(new AppError('This action is not allowed while impersonating a user', 403, 'IMPERSONATION_NOT_ALLOWED'));
+  }
+  next();
+};
@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { AppError } from '../../utils/app-error';
+export const imageUpload = (fieldName: string, maxSizeBytes: number, mimeTypes: readonly string[]) => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxSizeBytes, files: 1 },
+    fileFilter: (_req, file, callback) => {
+      if (!mimeTypes.includes(file.mimetype)) {
+        return callback(new AppError(`Unsupported file type: ${file.mimetype}`, 415, 'UNSUPPORTED_MEDIA_TYPE'));
+      }
+      callback(null, true);
+    }
+  }).single(fieldName);
+  return (req: Request, res: Response, next: NextFunction): void => {
+    upload(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return next(error.code === 'LIMIT_FILE_SIZE'
+          ? new AppError('Uploaded file is too large', 413, 'FILE_TOO_LARGE')
+          : new AppError(error.message, 400, 'INVALID_UPLOAD'));
+      }
+      if (error) {
+        return next(error);
+      }
+      if (!req.file) {
+        return next(new AppError(`A file must be uploaded in the "${fieldName}" field`, 400, 'FILE_REQUIRED'));
+      }
+      next();
+    });
+  };
+};
@@ -1,8 +1,27 @@
 import { Router } from 'express';
 import { AuthController } from '../controllers/auth.controller';
 import { validationMiddleware } from '../middlewares/validation.middleware';
-import { authMiddleware } from '../middlewares/auth.middleware';
-import { RegisterDto, LoginDto, RefreshTokenDto, UpdateProfileDto, LogoutDto } from '../dto/auth.dto';
+import { authMiddleware, requireUserSession, forbidImpersonation } from '../middlewares/auth.middleware';
+import {
+  RegisterDto,
+  LoginDto,
+  RefreshTokenDto,
+  UpdateProfileDto,
+  LogoutDto,
+  ForgotPasswordDto,
+  ResetPasswordDto,
+  ChangePasswordDto,
+  VerifyEmailDto,
+  TwoFactorCodeDto,
+  TwoFactorLoginDto,
+  DisableTwoFactorDto,
+  CreateApiKeyDto,
+  OidcCallbackDto,
+  MagicLinkRequestDto,
+  MagicLinkVerifyDto,
+  AccountConfirmationDto,
+  ActivityQueryDto
+} from '../dto/auth.dto';
 const router = Router();
 const authController = new AuthController();
 router.post(
@@ -15,6 +34,34 @@ router.post(
   validationMiddleware(LoginDto),
   authController.login
 );
+router.post(
+  '/login/2fa',
+  validationMiddleware(TwoFactorLoginDto),
+  authController.completeTwoFactorLogin
+);
+router.post(
+  '/magic-link',
+  validationMiddleware(MagicLinkRequestDto),
+  authController.requestMagicLink
+);
+router.post(
+  '/magic-link/verify',
+  validationMiddleware(MagicLinkVerifyDto),
+  authController.verifyMagicLink
+);
+router.get(
+  '/oidc/providers',
+  authController.listOidcProviders
+);
+router.post(
+  '/oidc/:provider/authorize',
+  authController.beginOidcLogin
+);
+router.post(
+  '/oidc/:provider/callback',
+  validationMiddleware(OidcCallbackDto),
+  authController.completeOidcLogin
+);
 router.post(
   '/refresh',
   validationMiddleware(RefreshTokenDto),
@@ -28,13 +75,162 @@ router.get(
 router.patch(
   '/me',
   authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
   validationMiddleware(UpdateProfileDto),
   authController.updateProfile
 );
+router.delete(
+  '/me',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  validationMiddleware(AccountConfirmationDto),
+  authController.deleteAccount
+);
+router.get(
+  '/me/export',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  authController.exportAccountData
+);
+router.get(
+  '/me/activity',
+  authMiddleware,
+  requireUserSession,
+  validationMiddleware(ActivityQueryDto, 'query'),
+  authController.listActivity
+);
+router.post(
+  '/me/deactivate',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  validationMiddleware(AccountConfirmationDto),
+  authController.deactivateAccount
+);
+router.post(
+  '/me/confirmation',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  authController.requestAccountConfirmation
+);
+router.post(
+  '/reactivate',
+  validationMiddleware(LoginDto),
+  authController.reactivateAccount
+);
 router.post(
   '/logout',
   authMiddleware,
+  requireUserSession,
   validationMiddleware(LogoutDto),
   authController.logout
 );
+router.post(
+  '/password/forgot',
+  validationMiddleware(ForgotPasswordDto),
+  authController.forgotPassword
+);
+router.post(
+  '/password/reset',
+  validationMiddleware(ResetPasswordDto),
+  authController.resetPassword
+);
+router.post(
+  '/password/change',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  validationMiddleware(ChangePasswordDto),
+  authController.changePassword
+);
+router.post(
+  '/email/verify',
+  validationMiddleware(VerifyEmailDto),
+  authController.verifyEmail
+);
+router.post(
+  '/email/resend',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  authController.resendVerificationEmail
+);
+router.post(
+  '/2fa/enroll',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  authController.beginTwoFactorEnrollment
+);
+router.post(
+  '/2fa/enroll/verify',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  validationMiddleware(TwoFactorCodeDto),
+  authController.confirmTwoFactorEnrollment
+);
+router.post(
+  '/2fa/disable',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  validationMiddleware(DisableTwoFactorDto),
+  authController.disableTwoFactor
+);
+router.post(
+  '/2fa/recovery-codes',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  validationMiddleware(TwoFactorCodeDto),
+  authController.regenerateRecoveryCodes
+);
+router.get(
+  '/sessions',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  authController.listSessions
+);
+router.post(
+  '/sessions/revoke-others',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  authController.revokeOtherSessions
+);
+router.delete(
+  '/sessions/:sessionId',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  authController.revokeSession
+);
+router.get(
+  '/api-keys',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  authController.listApiKeys
+);
+router.post(
+  '/api-keys',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  validationMiddleware(CreateApiKeyDto),
+  authController.createApiKey
+);
+router.delete(
+  '/api-keys/:apiKeyId',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  authController.revokeApiKey
+);
 export default router;
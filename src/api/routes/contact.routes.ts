@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { ContactController } from '../controllers/contact.controller';
+import { validationMiddleware } from '../middlewares/validation.middleware';
+import { authMiddleware, requireUserSession, forbidImpersonation } from '../middlewares/auth.middleware';
+import { ContactRequestQueryDto, SendContactRequestDto } from '../dto/contact.dto';
+const router = Router();
+const contactController = new ContactController();
+router.get(
+  '/',
+  authMiddleware,
+  requireUserSession,
+  contactController.getContacts
+);
+router.get(
+  '/requests',
+  authMiddleware,
+  requireUserSession,
+  validationMiddleware(ContactRequestQueryDto, 'query'),
+  contactController.getRequests
+);
+router.post(
+  '/requests',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  validationMiddleware(SendContactRequestDto),
+  contactController.sendRequest
+);
+router.post(
+  '/requests/:requestId/accept',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  contactController.acceptRequest
+);
+router.post(
+  '/requests/:requestId/decline',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  contactController.declineRequest
+);
+router.delete(
+  '/requests/:requestId',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  contactController.cancelRequest
+);
+router.delete(
+  '/:userId',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  contactController.removeContact
+);
+export default router;
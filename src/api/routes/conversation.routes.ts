@@ -1,37 +1,93 @@
 import { Router } from 'express';
 import { conversationController } from '../controllers/conversation.controller';
-import { authMiddleware } from '../middlewares/auth.middleware';
+import { authMiddleware, requireScopes } from '../middlewares/auth.middleware';
 import { validateRequest } from '../middlewares/validation.middleware';
+import { imageUpload } from '../middlewares/upload.middleware';
+import { API_KEY_SCOPES } from '../../constants/api-key-scopes';
+import { AVATAR_MIME_TYPES } from '../../constants/avatars';
+import { config } from '../../config/env';
 import {
   createConversationValidator,
   getConversationValidator,
   getConversationsValidator,
-  deleteConversationValidator
+  deleteConversationValidator,
+  createGroupConversationValidator,
+  updateGroupConversationValidator,
+  addGroupMembersValidator,
+  removeGroupMemberValidator,
+  groupAvatarValidator
 } from '../validators/conversation.validator';
 const router = Router();
 router.use(authMiddleware);
 router.post(
   '/',
+  requireScopes(API_KEY_SCOPES.CONVERSATIONS_WRITE),
   createConversationValidator,
   validateRequest,
   conversationController.createConversation
 );
+router.post(
+  '/groups',
+  requireScopes(API_KEY_SCOPES.CONVERSATIONS_WRITE),
+  createGroupConversationValidator,
+  validateRequest,
+  conversationController.createGroupConversation
+);
 router.get(
   '/',
+  requireScopes(API_KEY_SCOPES.CONVERSATIONS_READ),
   getConversationsValidator,
   validateRequest,
   conversationController.getConversations
 );
 router.get(
   '/:conversationId',
+  requireScopes(API_KEY_SCOPES.CONVERSATIONS_READ),
   getConversationValidator,
   validateRequest,
   conversationController.getConversation
 );
 router.delete(
   '/:conversationId',
+  requireScopes(API_KEY_SCOPES.CONVERSATIONS_WRITE),
   deleteConversationValidator,
   validateRequest,
   conversationController.deleteConversation
 );
+router.patch(
+  '/:conversationId',
+  requireScopes(API_KEY_SCOPES.CONVERSATIONS_WRITE),
+  updateGroupConversationValidator,
+  validateRequest,
+  conversationController.updateGroupConversation
+);
+router.post(
+  '/:conversationId/members',
+  requireScopes(API_KEY_SCOPES.CONVERSATIONS_WRITE),
+  addGroupMembersValidator,
+  validateRequest,
+  conversationController.addGroupMembers
+);
+router.delete(
+  '/:conversationId/members/:userId',
+  requireScopes(API_KEY_SCOPES.CONVERSATIONS_WRITE),
+  removeGroupMemberValidator,
+  validateRequest,
+  conversationController.removeGroupMember
+);
+router.post(
+  '/:conversationId/avatar',
+  requireScopes(API_KEY_SCOPES.CONVERSATIONS_WRITE),
+  groupAvatarValidator,
+  validateRequest,
+  imageUpload('avatar', config.AVATAR_MAX_SIZE_BYTES, AVATAR_MIME_TYPES),
+  conversationController.uploadGroupAvatar
+);
+router.delete(
+  '/:conversationId/avatar',
+  requireScopes(API_KEY_SCOPES.CONVERSATIONS_WRITE),
+  groupAvatarValidator,
+  validateRequest,
+  conversationController.removeGroupAvatar
+);
 export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { MediaController } from '../controllers/media.controller';
+import { validationMiddleware } from '../middlewares/validation.middleware';
+import { MediaQueryDto } from '../dto/media.dto';
+const router = Router();
+const mediaController = new MediaController();
+router.get(
+  '/*',
+  validationMiddleware(MediaQueryDto, 'query'),
+  mediaController.getMedia
+);
+export default router;
@@ -1,18 +1,21 @@
 import { Router } from 'express';
 import { messageController } from '../controllers/message.controller';
 import { messageValidator } from '../validators/message.validator';
-import { authMiddleware } from '../middlewares/auth.middleware';
+import { authMiddleware, requireScopes } from '../middlewares/auth.middleware';
 import { validateRequest } from '../middlewares/validation.middleware';
+import { API_KEY_SCOPES } from '../../constants/api-key-scopes';
 const router = Router();
 router.use(authMiddleware);
 router.get(
   '/:conversationId',
+  requireScopes(API_KEY_SCOPES.MESSAGES_READ),
   messageValidator.getMessagesByConversationId(),
   validateRequest,
   messageController.getMessagesByConversationId.bind(messageController)
 );
 router.post(
   '/',
+  requireScopes(API_KEY_SCOPES.MESSAGES_WRITE),
   messageValidator.createMessage(),
   validateRequest,
   messageController.createMessage.bind(messageController)
@@ -1,14 +1,121 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/user.controller';
 import { validationMiddleware } from '../middlewares/validation.middleware';
-import { authMiddleware } from '../middlewares/auth.middleware';
-import { UserListQueryDto } from '../dto/user.dto';
+import { authMiddleware, authorize, requireScopes, requireUserSession, forbidImpersonation } from '../middlewares/auth.middleware';
+import { imageUpload } from '../middlewares/upload.middleware';
+import {
+  UserListQueryDto,
+  UserSearchQueryDto,
+  UpdateUserRolesDto,
+  AuditLogQueryDto,
+  ImpersonateUserDto,
+  UpdatePrivacySettingsDto,
+  UpdatePreferencesDto
+} from '../dto/user.dto';
+import { PERMISSIONS } from '../../constants/roles';
+import { API_KEY_SCOPES } from '../../constants/api-key-scopes';
+import { AVATAR_MIME_TYPES } from '../../constants/avatars';
+import { config } from '../../config/env';
 const router = Router();
 const userController = new UserController();
 router.get(
   '/list',
   authMiddleware,
+  requireScopes(API_KEY_SCOPES.USERS_READ),
   validationMiddleware(UserListQueryDto, 'query'),
   userController.getUserList
 );
+router.get(
+  '/search',
+  authMiddleware,
+  requireScopes(API_KEY_SCOPES.USERS_READ),
+  validationMiddleware(UserSearchQueryDto, 'query'),
+  userController.searchUsers
+);
+router.get(
+  '/me/privacy',
+  authMiddleware,
+  requireUserSession,
+  userController.getPrivacy
+);
+router.patch(
+  '/me/privacy',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  validationMiddleware(UpdatePrivacySettingsDto),
+  userController.updatePrivacy
+);
+router.get(
+  '/me/preferences',
+  authMiddleware,
+  requireUserSession,
+  userController.getPreferences
+);
+router.patch(
+  '/me/preferences',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  validationMiddleware(UpdatePreferencesDto),
+  userController.updatePreferences
+);
+router.get(
+  '/blocks',
+  authMiddleware,
+  requireUserSession,
+  userController.getBlockedUsers
+);
+router.post(
+  '/:userId/block',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  userController.blockUser
+);
+router.delete(
+  '/:userId/block',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  userController.unblockUser
+);
+router.post(
+  '/me/avatar',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  imageUpload('avatar', config.AVATAR_MAX_SIZE_BYTES, AVATAR_MIME_TYPES),
+  userController.uploadAvatar
+);
+router.delete(
+  '/me/avatar',
+  authMiddleware,
+  requireUserSession,
+  forbidImpersonation,
+  userController.removeAvatar
+);
+router.patch(
+  '/:userId/roles',
+  authMiddleware,
+  forbidImpersonation,
+  authorize(PERMISSIONS.USERS_MANAGE),
+  validationMiddleware(UpdateUserRolesDto),
+  userController.updateUserRoles
+);
+router.post(
+  '/:userId/impersonate',
+  authMiddleware,
+  forbidImpersonation,
+  authorize(PERMISSIONS.USERS_IMPERSONATE),
+  validationMiddleware(ImpersonateUserDto),
+  userController.impersonateUser
+);
+router.get(
+  '/audit-events',
+  authMiddleware,
+  authorize(PERMISSIONS.AUDIT_READ),
+  validationMiddleware(AuditLogQueryDto, 'query'),
+  userController.getAuditEvents
+);
 export default router;
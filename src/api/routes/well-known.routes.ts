@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { WellKnownController } from '../controllers/well-known.controller';
+const router = Router();
+const wellKnownController = new WellKnownController();
+router.get(
+  '/jwks.json',
+  wellKnownController.getJwks
+);
+export default router;
@@ -1,5 +1,7 @@
 import { body, param, query } from 'express-validator';
 import { Types } from 'mongoose';
+import { config } from '../../config/env';
+import { GROUP_TITLE_MAX_LENGTH } from '../../constants/conversations';
 export const createConversationValidator = [
   body('participantId')
     .notEmpty()
@@ -61,3 +63,62 @@ export const deleteConversationValidator = [
     })
     .withMessage('Invalid conversation ID format')
 ];
+const conversationIdParam = () => param('conversationId')
+  .notEmpty()
+  .withMessage('Conversation ID is required')
+  .isString()
+  .withMessage('Conversation ID must be a string')
+  .custom((value: string) => {
+    if (!Types.ObjectId.isValid(value)) {
+      throw new Error('Invalid conversation ID format');
+    }
+    return true;
+  })
+  .withMessage('Invalid conversation ID format');
+const groupTitleBody = () => body('title')
+  .isString()
+  .withMessage('Title must be a string')
+  .trim()
+  .isLength({ min: 1, max: GROUP_TITLE_MAX_LENGTH })
+  .withMessage(`Title must be between 1 and ${GROUP_TITLE_MAX_LENGTH} characters`);
+const userIdsBody = (field: string) => [
+  body(field)
+    .isArray({ min: 1, max: config.GROUP_CONVERSATION_MAX_MEMBERS })
+    .withMessage(`${field} must be an array of 1 to ${config.GROUP_CONVERSATION_MAX_MEMBERS} user IDs`),
+  body(`${field}.*`)
+    .isString()
+    .withMessage('User ID must be a string')
+    .custom((value: string) => {
+      if (!Types.ObjectId.isValid(value)) {
+        throw new Error('Invalid user ID format');
+      }
+      return true;
+    })
+    .withMessage('Invalid user ID format')
+];
+export const createGroupConversationValidator = [
+  groupTitleBody(),
+  ...userIdsBody('participantIds')
+];
+export const updateGroupConversationValidator = [
+  conversationIdParam(),
+  groupTitleBody().optional()
+];
+export const addGroupMembersValidator = [
+  conversationIdParam(),
+  ...userIdsBody('memberIds')
+];
+export const removeGroupMemberValidator = [
+  conversationIdParam(),
+  param('userId')
+    .custom((value: string) => {
+      if (!Types.ObjectId.isValid(value)) {
+        throw new Error('Invalid user ID format');
+      }
+      return true;
+    })
+    .withMessage('Invalid user ID format')
+];
+export const groupAvatarValidator = [
+  conversationIdParam()
+];
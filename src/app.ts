@@ -9,8 +9,11 @@ import { errorHandler } from './api/middlewares/error.middleware';
 import { requestLoggingMiddleware, errorLoggingMiddleware } from './api/middlewares/logging.middleware';
 import authRoutes from './api/routes/auth.routes';
 import userRoutes from './api/routes/user.routes';
+import contactRoutes from './api/routes/contact.routes';
 import conversationRoutes from './api/routes/conversation.routes';
 import messageRoutes from './api/routes/message.routes';
+import wellKnownRoutes from './api/routes/well-known.routes';
+import mediaRoutes from './api/routes/media.routes';
 import Logger from './utils/logger';
 export function createApp(): Application {
   initSentry();
@@ -46,10 +49,13 @@ export function createApp(): Application {
       environment: config.NODE_ENV
     });
   });
+  app.use('/.well-known', wellKnownRoutes);
   app.use('/api/auth', authRoutes);
+  app.use('/api/users/contacts', contactRoutes);
   app.use('/api/users', userRoutes);
   app.use('/api/conversations', conversationRoutes);
   app.use('/api/messages', messageRoutes);
+  app.use('/api/media', mediaRoutes);
 
   app.use('*', (req: Request, res: Response) => {
     Logger.warn(`Route not found: ${req.method} ${req.originalUrl}`, {
@@ -0,0 +1,26 @@
+import { connectDB, disconnectDB } from '../config/database';
+import User from '../models/user.model';
+import Logger from '../utils/logger';
+async function backfillUserSearchFields(): Promise<void> {
+  await connectDB();
+  try {
+    const usernames = await User.updateMany(
+      { usernameLower: { $exists: false } },
+      [{ $set: { usernameLower: { $toLower: '$username' } } }]
+    );
+    const displayNames = await User.updateMany(
+      { displayName: { $exists: true }, displayNameLower: { $exists: false } },
+      [{ $set: { displayNameLower: { $toLower: '$displayName' } } }]
+    );
+    Logger.info('User search fields backfilled', {
+      usernames: usernames.modifiedCount,
+      displayNames: displayNames.modifiedCount
+    });
+  } finally {
+    await disconnectDB();
+  }
+}
+backfillUserSearchFields().catch(error => {
+  Logger.error('User search field backfill failed', error as Error);
+  process.exitCode = 1;
+});
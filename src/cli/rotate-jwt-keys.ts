@@ -0,0 +1,23 @@
+import { config } from '../config/env';
+import { parseJwtSigningAlgorithm, rotateKeyRingFile } from '../utils/jwt-keys';
+import Logger from '../utils/logger';
+function rotateJwtKeys(): void {
+  const { keyRing, key } = rotateKeyRingFile(config.JWT_KEYRING_PATH, {
+    alg: parseJwtSigningAlgorithm(config.JWT_SIGNING_ALGORITHM),
+    activationDelaySeconds: config.JWT_KEY_ACTIVATION_DELAY_SECONDS,
+    retentionSeconds: config.JWT_KEY_RETENTION_SECONDS
+  });
+  Logger.security('JWT signing key rotated', {
+    path: config.JWT_KEYRING_PATH,
+    kid: key.kid,
+    alg: key.alg,
+    activatesAt: key.activatesAt,
+    keyIds: keyRing.keys.map(ringKey => ringKey.kid)
+  });
+}
+try {
+  rotateJwtKeys();
+} catch (error) {
+  Logger.error('JWT key rotation failed', error as Error);
+  process.exitCode = 1;
+}
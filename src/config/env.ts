@@ -1,5 +1,40 @@
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 dotenv.config();
+export interface OidcProviderConfig {
+  id: string;
+  displayName: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string | undefined;
+  redirectUri: string;
+  scopes: string[];
+  allowSignup: boolean;
+}
+function parseOidcProviders(): OidcProviderConfig[] {
+  const appBaseUrl = process.env.APP_BASE_URL || 'http://localhost:3000';
+  return (process.env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean)
+    .map(id => {
+      const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+      return {
+        id,
+        displayName: process.env[`${prefix}DISPLAY_NAME`] || id,
+        issuer: process.env[`${prefix}ISSUER`] || '',
+        clientId: process.env[`${prefix}CLIENT_ID`] || '',
+        clientSecret: process.env[`${prefix}CLIENT_SECRET`] || undefined,
+        redirectUri: process.env[`${prefix}REDIRECT_URI`] || `${appBaseUrl}/auth/oidc/${id}/callback`,
+        scopes: (process.env[`${prefix}SCOPES`] || 'openid email profile').split(/\s+/).filter(Boolean),
+        allowSignup: process.env[`${prefix}ALLOW_SIGNUP`] !== 'false'
+      };
+    })
+    .filter(provider => provider.issuer && provider.clientId);
+}
+function readSecret(name: string): string {
+  return process.env[name] || crypto.randomBytes(32).toString('hex');
+}
 export const config = {
   PORT: process.env.PORT || 3000,
   NODE_ENV: process.env.NODE_ENV || 'development',
@@ -8,6 +43,12 @@ export const config = {
   JWT_REFRESH_SECRET: process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key-change-in-production',
   JWT_EXPIRES_IN: process.env.JWT_EXPIRES_IN || '15m',
   JWT_REFRESH_EXPIRES_IN: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+  JWT_SIGNING_ALGORITHM: process.env.JWT_SIGNING_ALGORITHM || 'RS256',
+  JWT_KEYRING_PATH: process.env.JWT_KEYRING_PATH || 'keys/jwt-keyring.json',
+  JWT_KEY_ACTIVATION_DELAY_SECONDS: parseInt(process.env.JWT_KEY_ACTIVATION_DELAY_SECONDS || '300'),
+  JWT_KEY_RETENTION_SECONDS: parseInt(process.env.JWT_KEY_RETENTION_SECONDS || '86400'),
+  JWT_KEYRING_RELOAD_INTERVAL_MS: parseInt(process.env.JWT_KEYRING_RELOAD_INTERVAL_MS || '60000'),
+  JWT_ACCEPT_LEGACY_HS256: process.env.JWT_ACCEPT_LEGACY_HS256 === 'true',
   BCRYPT_SALT_ROUNDS: parseInt(process.env.BCRYPT_SALT_ROUNDS || '12'),
   CORS_ORIGIN: process.env.CORS_ORIGIN || 'http://localhost:3000',
   RATE_LIMIT_WINDOW_MS: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'),
@@ -20,10 +61,64 @@ export const config = {
   REDIS_PASSWORD: process.env.REDIS_PASSWORD,
   REDIS_DB: parseInt(process.env.REDIS_DB || '0'),
   REDIS_KEY_PREFIX: process.env.REDIS_KEY_PREFIX || 'rtm:',
-  RABBITMQ_URL: process.env.RABBITMQ_URL || 'amqp://localhost:5672'
+  RABBITMQ_URL: process.env.RABBITMQ_URL || 'amqp://localhost:5672',
+  APP_BASE_URL: process.env.APP_BASE_URL || 'http://localhost:3000',
+  MAIL_TRANSPORT: process.env.MAIL_TRANSPORT || 'console',
+  MAIL_FROM: process.env.MAIL_FROM || 'no-reply@localhost',
+  MAIL_FILE_DIR: process.env.MAIL_FILE_DIR || 'logs/mail',
+  PASSWORD_RESET_TOKEN_TTL_MINUTES: parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES || '30'),
+  EMAIL_VERIFICATION_REQUIRED: process.env.EMAIL_VERIFICATION_REQUIRED === 'true',
+  EMAIL_VERIFICATION_TOKEN_TTL_HOURS: parseInt(process.env.EMAIL_VERIFICATION_TOKEN_TTL_HOURS || '24'),
+  PASSWORD_MIN_LENGTH: parseInt(process.env.PASSWORD_MIN_LENGTH || '8'),
+  PASSWORD_REQUIRE_UPPERCASE: process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false',
+  PASSWORD_REQUIRE_LOWERCASE: process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+  PASSWORD_REQUIRE_NUMBER: process.env.PASSWORD_REQUIRE_NUMBER !== 'false',
+  PASSWORD_REQUIRE_SYMBOL: process.env.PASSWORD_REQUIRE_SYMBOL === 'true',
+  TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || 'Real-Time Messaging',
+  TWO_FACTOR_CHALLENGE_SECRET: readSecret('TWO_FACTOR_CHALLENGE_SECRET'),
+  TWO_FACTOR_CHALLENGE_TTL_SECONDS: parseInt(process.env.TWO_FACTOR_CHALLENGE_TTL_SECONDS || '300'),
+  TWO_FACTOR_RECOVERY_CODE_COUNT: parseInt(process.env.TWO_FACTOR_RECOVERY_CODE_COUNT || '10'),
+  LOGIN_MAX_ACCOUNT_FAILURES: parseInt(process.env.LOGIN_MAX_ACCOUNT_FAILURES || '5'),
+  LOGIN_MAX_IP_FAILURES: parseInt(process.env.LOGIN_MAX_IP_FAILURES || '20'),
+  LOGIN_FAILURE_WINDOW_SECONDS: parseInt(process.env.LOGIN_FAILURE_WINDOW_SECONDS || '900'),
+  LOGIN_LOCKOUT_SECONDS: parseInt(process.env.LOGIN_LOCKOUT_SECONDS || '900'),
+  LOGIN_DELAY_BASE_MS: parseInt(process.env.LOGIN_DELAY_BASE_MS || '250'),
+  LOGIN_DELAY_MAX_MS: parseInt(process.env.LOGIN_DELAY_MAX_MS || '5000'),
+  ADMIN_EMAILS: (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean),
+  API_KEY_MAX_PER_USER: parseInt(process.env.API_KEY_MAX_PER_USER || '10'),
+  API_KEY_LAST_USED_UPDATE_INTERVAL_SECONDS: parseInt(process.env.API_KEY_LAST_USED_UPDATE_INTERVAL_SECONDS || '60'),
+  MAGIC_LINK_SECRET: readSecret('MAGIC_LINK_SECRET'),
+  MAGIC_LINK_TTL_SECONDS: parseInt(process.env.MAGIC_LINK_TTL_SECONDS || '600'),
+  IMPERSONATION_TOKEN_TTL_SECONDS: parseInt(process.env.IMPERSONATION_TOKEN_TTL_SECONDS || '900'),
+  SOCKET_TOKEN_EXPIRY_WARNING_SECONDS: parseInt(process.env.SOCKET_TOKEN_EXPIRY_WARNING_SECONDS || '60'),
+  AUDIT_LOG_RETENTION_DAYS: parseInt(process.env.AUDIT_LOG_RETENTION_DAYS || '90'),
+  ACCOUNT_DELETION_GRACE_DAYS: parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30'),
+  ACCOUNT_CONFIRMATION_TOKEN_TTL_MINUTES: parseInt(process.env.ACCOUNT_CONFIRMATION_TOKEN_TTL_MINUTES || '15'),
+  STORAGE_DRIVER: process.env.STORAGE_DRIVER || 'local',
+  STORAGE_LOCAL_DIR: process.env.STORAGE_LOCAL_DIR || 'uploads',
+  STORAGE_S3_ENDPOINT: process.env.STORAGE_S3_ENDPOINT || 'http://localhost:9000',
+  STORAGE_S3_REGION: process.env.STORAGE_S3_REGION || 'us-east-1',
+  STORAGE_S3_BUCKET: process.env.STORAGE_S3_BUCKET || '',
+  STORAGE_S3_ACCESS_KEY_ID: process.env.STORAGE_S3_ACCESS_KEY_ID || '',
+  STORAGE_S3_SECRET_ACCESS_KEY: process.env.STORAGE_S3_SECRET_ACCESS_KEY || '',
+  STORAGE_HTTP_TIMEOUT_MS: parseInt(process.env.STORAGE_HTTP_TIMEOUT_MS || '10000'),
+  MEDIA_BASE_URL: process.env.MEDIA_BASE_URL || '/api/media',
+  MEDIA_URL_SECRET: readSecret('MEDIA_URL_SECRET'),
+  MEDIA_URL_TTL_SECONDS: parseInt(process.env.MEDIA_URL_TTL_SECONDS || '86400'),
+  AVATAR_MAX_SIZE_BYTES: parseInt(process.env.AVATAR_MAX_SIZE_BYTES || '5242880'),
+  DEFAULT_LOCALE: process.env.DEFAULT_LOCALE || 'tr',
+  DEFAULT_TIMEZONE: process.env.DEFAULT_TIMEZONE || 'Europe/Istanbul',
+  GROUP_CONVERSATION_MAX_MEMBERS: parseInt(process.env.GROUP_CONVERSATION_MAX_MEMBERS || '50'),
+  OIDC_PROVIDERS: parseOidcProviders(),
+  OIDC_AUTH_REQUEST_TTL_SECONDS: parseInt(process.env.OIDC_AUTH_REQUEST_TTL_SECONDS || '600'),
+  OIDC_METADATA_CACHE_SECONDS: parseInt(process.env.OIDC_METADATA_CACHE_SECONDS || '3600'),
+  OIDC_HTTP_TIMEOUT_MS: parseInt(process.env.OIDC_HTTP_TIMEOUT_MS || '5000')
 };
 export function validateConfig(): void {
-  const requiredVars = ['JWT_SECRET', 'JWT_REFRESH_SECRET'];
+  const requiredVars = ['JWT_SECRET', 'JWT_REFRESH_SECRET', 'TWO_FACTOR_CHALLENGE_SECRET', 'MAGIC_LINK_SECRET', 'MEDIA_URL_SECRET'];
   const missingVars = requiredVars.filter(varName => !process.env[varName]);
   if (missingVars.length > 0) {
     console.error('Missing required environment variables:', missingVars);
@@ -0,0 +1,15 @@
+export const API_KEY_SCOPES = {
+  MESSAGES_READ: 'messages:read',
+  MESSAGES_WRITE: 'messages:write',
+  CONVERSATIONS_READ: 'conversations:read',
+  CONVERSATIONS_WRITE: 'conversations:write',
+  USERS_READ: 'users:read'
+} as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[keyof typeof API_KEY_SCOPES];
+export const API_KEY_PREFIX = 'rtm';
+export function isApiKey(credential: string): boolean {
+  return credential.startsWith(`${API_KEY_PREFIX}_`);
+}
+export function hasScopes(granted: readonly ApiKeyScope[] = [], required: readonly ApiKeyScope[]): boolean {
+  return required.every(scope => granted.includes(scope));
+}
@@ -0,0 +1,20 @@
+export const AUDIT_EVENT_TYPES = {
+  LOGIN: 'login',
+  TOKEN_REFRESH: 'token_refresh',
+  LOGOUT: 'logout',
+  PROFILE_UPDATE: 'profile_update',
+  PASSWORD_CHANGE: 'password_change',
+  PASSWORD_RESET: 'password_reset',
+  SOCKET_AUTH: 'socket_auth',
+  ACCOUNT_DEACTIVATE: 'account_deactivate',
+  ACCOUNT_REACTIVATE: 'account_reactivate',
+  ACCOUNT_DELETION_REQUEST: 'account_deletion_request',
+  IMPERSONATION_START: 'impersonation_start',
+  IMPERSONATED_ACTION: 'impersonated_action'
+} as const;
+export type AuditEventType = typeof AUDIT_EVENT_TYPES[keyof typeof AUDIT_EVENT_TYPES];
+export const AUDIT_OUTCOMES = {
+  SUCCESS: 'success',
+  FAILURE: 'failure'
+} as const;
+export type AuditOutcome = typeof AUDIT_OUTCOMES[keyof typeof AUDIT_OUTCOMES];
@@ -0,0 +1,14 @@
+export const AVATAR_VARIANTS = {
+  small: 64,
+  medium: 256,
+  large: 512
+} as const;
+export type AvatarVariant = keyof typeof AVATAR_VARIANTS;
+export const AVATAR_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'] as const;
+export const AVATAR_MAX_INPUT_PIXELS = 40_000_000;
+export function getAvatarKey(avatarKey: string, variant: AvatarVariant): string {
+  return `${avatarKey}/${variant}.webp`;
+}
+export function getAvatarKeys(avatarKey: string): string[] {
+  return (Object.keys(AVATAR_VARIANTS) as AvatarVariant[]).map(variant => getAvatarKey(avatarKey, variant));
+}
@@ -0,0 +1,9 @@
+export const CONTACT_REQUEST_STATUSES = {
+  PENDING: 'pending',
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  CANCELLED: 'cancelled'
+} as const;
+export type ContactRequestStatus = typeof CONTACT_REQUEST_STATUSES[keyof typeof CONTACT_REQUEST_STATUSES];
+export const CONTACT_REQUEST_DIRECTIONS = ['incoming', 'outgoing'] as const;
+export type ContactRequestDirection = typeof CONTACT_REQUEST_DIRECTIONS[number];
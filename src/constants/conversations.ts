@@ -0,0 +1,6 @@
+export const CONVERSATION_TYPES = {
+  DIRECT: 'direct',
+  GROUP: 'group'
+} as const;
+export type ConversationType = typeof CONVERSATION_TYPES[keyof typeof CONVERSATION_TYPES];
+export const GROUP_TITLE_MAX_LENGTH = 100;
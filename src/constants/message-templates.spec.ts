@@ -1,8 +1,10 @@
 import { 
   MESSAGE_TEMPLATES, 
+  MESSAGE_TEMPLATES_BY_LOCALE,
   getRandomMessageTemplate, 
   getRandomMessageTemplates 
 } from './message-templates';
+import { SUPPORTED_LOCALES } from './preferences';
 describe('Message Templates', () => {
   describe('MESSAGE_TEMPLATES', () => {
     it('should contain expected message templates', () => {
@@ -90,4 +92,19 @@ describe('Message Templates', () => {
       });
     });
   });
+  describe('localized templates', () => {
+    it('should provide the same number of templates for every supported locale', () => {
+      SUPPORTED_LOCALES.forEach(locale => {
+        expect(MESSAGE_TEMPLATES_BY_LOCALE[locale]).toHaveLength(MESSAGE_TEMPLATES.length);
+      });
+    });
+    it('should pick templates in the requested locale', () => {
+      for (let i = 0; i < 20; i++) {
+        expect(MESSAGE_TEMPLATES_BY_LOCALE.en).toContain(getRandomMessageTemplate('en'));
+      }
+      getRandomMessageTemplates(3, 'en').forEach(template => {
+        expect(MESSAGE_TEMPLATES_BY_LOCALE.en).toContain(template);
+      });
+    });
+  });
 });
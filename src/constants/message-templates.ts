@@ -1,3 +1,4 @@
+import { SupportedLocale } from './preferences';
 export const MESSAGE_TEMPLATES: readonly string[] = [
   "Merhaba! Nasılsın?",
   "Bugün nasıl geçiyor?",
@@ -8,15 +9,33 @@ export const MESSAGE_TEMPLATES: readonly string[] = [
   "Nasıl gidiyor işler?",
   "Selam! Uzun zamandır konuşmuyoruz."
 ] as const;
-export function getRandomMessageTemplate(): string {
-  const randomIndex = Math.floor(Math.random() * MESSAGE_TEMPLATES.length);
-  return MESSAGE_TEMPLATES[randomIndex];
+export const MESSAGE_TEMPLATES_BY_LOCALE: Record<SupportedLocale, readonly string[]> = {
+  tr: MESSAGE_TEMPLATES,
+  en: [
+    "Hello! How are you?",
+    "How is your day going?",
+    "Hi, what are you up to?",
+    "Good day! How are things?",
+    "Let's have a little chat!",
+    "Isn't it a nice day today?",
+    "How is work going?",
+    "Hi! We haven't talked in a while."
+  ]
+};
+function getMessageTemplates(locale?: SupportedLocale): readonly string[] {
+  return locale ? MESSAGE_TEMPLATES_BY_LOCALE[locale] : MESSAGE_TEMPLATES;
 }
-export function getRandomMessageTemplates(count: number): string[] {
+export function getRandomMessageTemplate(locale?: SupportedLocale): string {
+  const templates = getMessageTemplates(locale);
+  const randomIndex = Math.floor(Math.random() * templates.length);
+  return templates[randomIndex];
+}
+export function getRandomMessageTemplates(count: number, locale?: SupportedLocale): string[] {
+  const templates = getMessageTemplates(locale);
   if (count <= 0) return [];
-  if (count >= MESSAGE_TEMPLATES.length) {
-    return [...MESSAGE_TEMPLATES].sort(() => Math.random() - 0.5);
+  if (count >= templates.length) {
+    return [...templates].sort(() => Math.random() - 0.5);
   }
-  const shuffled = [...MESSAGE_TEMPLATES].sort(() => Math.random() - 0.5);
+  const shuffled = [...templates].sort(() => Math.random() - 0.5);
   return shuffled.slice(0, count);
 }
@@ -0,0 +1,9 @@
+export const SUPPORTED_LOCALES = ['tr', 'en'] as const;
+export type SupportedLocale = typeof SUPPORTED_LOCALES[number];
+export const NOTIFICATION_TYPES = ['messages', 'contactRequests'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+export const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+export function resolveSupportedLocale(locale: string | undefined, fallback: SupportedLocale): SupportedLocale {
+  const language = locale?.toLowerCase().split(/[-_]/)[0];
+  return (SUPPORTED_LOCALES as readonly string[]).includes(language || '') ? language as SupportedLocale : fallback;
+}
@@ -0,0 +1,33 @@
+export const PRIVACY_AUDIENCES = {
+  EVERYONE: 'everyone',
+  CONVERSATIONS: 'conversations',
+  NOBODY: 'nobody'
+} as const;
+export type PrivacyAudience = typeof PRIVACY_AUDIENCES[keyof typeof PRIVACY_AUDIENCES];
+export const MESSAGE_AUDIENCES = {
+  EVERYONE: 'everyone',
+  CONTACTS: 'contacts'
+} as const;
+export type MessageAudience = typeof MESSAGE_AUDIENCES[keyof typeof MESSAGE_AUDIENCES];
+export const VIEWER_RELATIONS = {
+  SELF: 'self',
+  CONVERSATION: 'conversation',
+  NONE: 'none'
+} as const;
+export type ViewerRelation = typeof VIEWER_RELATIONS[keyof typeof VIEWER_RELATIONS];
+export interface PrivacySettings {
+  emailVisibility: PrivacyAudience;
+  lastSeenVisibility: PrivacyAudience;
+  messagesFrom: MessageAudience;
+}
+export type VisibilitySetting = 'emailVisibility' | 'lastSeenVisibility';
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  emailVisibility: PRIVACY_AUDIENCES.NOBODY,
+  lastSeenVisibility: PRIVACY_AUDIENCES.EVERYONE,
+  messagesFrom: MESSAGE_AUDIENCES.EVERYONE
+};
+export function isVisibleTo(audience: PrivacyAudience, relation: ViewerRelation): boolean {
+  return relation === VIEWER_RELATIONS.SELF
+    || audience === PRIVACY_AUDIENCES.EVERYONE
+    || (audience === PRIVACY_AUDIENCES.CONVERSATIONS && relation === VIEWER_RELATIONS.CONVERSATION);
+}
@@ -0,0 +1,32 @@
+import { ROLES, PERMISSIONS, resolvePermissions, hasPermissions } from './roles';
+describe('Roles', () => {
+  describe('resolvePermissions', () => {
+    it('should grant no permissions to regular users', () => {
+      expect(resolvePermissions([ROLES.USER])).toEqual([]);
+    });
+    it('should default to the user role', () => {
+      expect(resolvePermissions()).toEqual([]);
+    });
+    it('should merge role permissions with direct grants without duplicates', () => {
+      expect(resolvePermissions([ROLES.MODERATOR], [PERMISSIONS.JOBS_MANAGE, PERMISSIONS.USERS_READ])).toEqual([
+        PERMISSIONS.JOBS_MANAGE,
+        PERMISSIONS.MESSAGES_MODERATE,
+        PERMISSIONS.USERS_READ
+      ]);
+    });
+    it('should give admins every permission', () => {
+      expect(resolvePermissions([ROLES.ADMIN])).toEqual(Object.values(PERMISSIONS).sort());
+    });
+  });
+  describe('hasPermissions', () => {
+    it('should require every listed permission', () => {
+      const granted = [PERMISSIONS.USERS_READ, PERMISSIONS.MESSAGES_MODERATE];
+      expect(hasPermissions(granted, [PERMISSIONS.USERS_READ])).toBe(true);
+      expect(hasPermissions(granted, [PERMISSIONS.USERS_READ, PERMISSIONS.JOBS_MANAGE])).toBe(false);
+    });
+    it('should treat missing grants as none', () => {
+      expect(hasPermissions(undefined, [PERMISSIONS.USERS_READ])).toBe(false);
+      expect(hasPermissions(undefined, [])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+export const ROLES = {
+  USER: 'user',
+  MODERATOR: 'moderator',
+  ADMIN: 'admin'
+} as const;
+export type Role = typeof ROLES[keyof typeof ROLES];
+export const PERMISSIONS = {
+  USERS_READ: 'users:read',
+  USERS_MANAGE: 'users:manage',
+  MESSAGES_MODERATE: 'messages:moderate',
+  JOBS_MANAGE: 'jobs:manage',
+  QUEUES_MANAGE: 'queues:manage',
+  AUDIT_READ: 'audit:read',
+  USERS_IMPERSONATE: 'users:impersonate'
+} as const;
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+export const ROLE_PERMISSIONS: Readonly<Record<Role, readonly Permission[]>> = {
+  [ROLES.USER]: [],
+  [ROLES.MODERATOR]: [
+    PERMISSIONS.USERS_READ,
+    PERMISSIONS.MESSAGES_MODERATE
+  ],
+  [ROLES.ADMIN]: Object.values(PERMISSIONS)
+};
+export function resolvePermissions(roles: readonly Role[] = [ROLES.USER], grants: readonly Permission[] = []): Permission[] {
+  const permissions = new Set<Permission>(grants);
+  roles.forEach(role => {
+    (ROLE_PERMISSIONS[role] || []).forEach(permission => permissions.add(permission));
+  });
+  return Array.from(permissions).sort();
+}
+export function hasPermissions(granted: readonly Permission[] = [], required: readonly Permission[]): boolean {
+  return required.every(permission => granted.includes(permission));
+}
@@ -0,0 +1,2 @@
+export const USER_SEARCH_SORTS = ['username', 'displayName', 'createdAt', 'lastSeenAt'] as const;
+export type UserSearchSort = typeof USER_SEARCH_SORTS[number];
@@ -0,0 +1,80 @@
+import * as cron from 'node-cron';
+import { accountService } from '../services/account.service';
+import { config } from '../config/env';
+import Logger from '../utils/logger';
+export class AccountDeletionJob {
+  private cronJob: cron.ScheduledTask | null = null;
+  private isRunning: boolean = false;
+  private readonly schedule = '30 3 * * *';
+  private async executeJob(): Promise<number> {
+    if (this.isRunning) {
+      Logger.warn('[ACCOUNT_DELETION_JOB] Job already running, skipping execution', {
+        category: 'cron-job'
+      });
+      return 0;
+    }
+    this.isRunning = true;
+    const startTime = Date.now();
+    try {
+      const accountsPurged = await accountService.purgeDueDeletions();
+      Logger.info('[ACCOUNT_DELETION_JOB] Account deletion job completed successfully', {
+        accountsPurged,
+        executionTimeMs: Date.now() - startTime,
+        category: 'cron-job'
+      });
+      return accountsPurged;
+    } catch (error) {
+      Logger.error('[ACCOUNT_DELETION_JOB] Account deletion job failed', error as Error, {
+        executionTimeMs: Date.now() - startTime,
+        category: 'cron-job'
+      });
+      return 0;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+  public start(): void {
+    if (this.cronJob) {
+      Logger.warn('[ACCOUNT_DELETION_JOB] Cron job already started', {
+        category: 'cron-job'
+      });
+      return;
+    }
+    this.cronJob = cron.schedule(this.schedule, async () => {
+      await this.executeJob();
+    }, {
+      scheduled: false,
+      timezone: config.DEFAULT_TIMEZONE
+    });
+    this.cronJob.start();
+    Logger.info('[ACCOUNT_DELETION_JOB] Account deletion cron job started', {
+      schedule: this.schedule,
+      timezone: config.DEFAULT_TIMEZONE,
+      category: 'cron-job'
+    });
+  }
+  public stop(): void {
+    if (this.cronJob) {
+      this.cronJob.stop();
+      this.cronJob = null;
+      Logger.info('[ACCOUNT_DELETION_JOB] Account deletion cron job stopped', {
+        category: 'cron-job'
+      });
+    }
+  }
+  public getStatus(): {
+    isScheduled: boolean;
+    isRunning: boolean;
+  } {
+    return {
+      isScheduled: this.cronJob !== null,
+      isRunning: this.isRunning
+    };
+  }
+  public async executeManually(): Promise<number> {
+    Logger.info('[ACCOUNT_DELETION_JOB] Manual execution triggered', {
+      category: 'cron-job'
+    });
+    return this.executeJob();
+  }
+}
@@ -1,13 +1,16 @@
 import { MessagePlanningJob } from './message-planning.job';
 import { QueueManagerJob } from './queue-manager.job';
+import { AccountDeletionJob } from './account-deletion.job';
 import Logger from '../utils/logger';
 export class JobManager {
   private messagePlanningJob: MessagePlanningJob;
   private queueManagerJob: QueueManagerJob;
+  private accountDeletionJob: AccountDeletionJob;
   private isInitialized: boolean = false;
   constructor() {
     this.messagePlanningJob = new MessagePlanningJob();
     this.queueManagerJob = new QueueManagerJob();
+    this.accountDeletionJob = new AccountDeletionJob();
   }
   public async initialize(): Promise<void> {
     if (this.isInitialized) {
@@ -22,9 +25,10 @@ export class JobManager {
       });
       this.messagePlanningJob.start();
       this.queueManagerJob.start();
+      this.accountDeletionJob.start();
       this.isInitialized = true;
       Logger.info('[JOB_MANAGER] Job manager initialized successfully', {
-        jobs: ['message-planning', 'queue-manager'],
+        jobs: ['message-planning', 'queue-manager', 'account-deletion'],
         category: 'job-manager'
       });
     } catch (error) {
@@ -47,6 +51,7 @@ export class JobManager {
       });
       this.messagePlanningJob.stop();
       this.queueManagerJob.stop();
+      this.accountDeletionJob.stop();
       this.isInitialized = false;
       Logger.info('[JOB_MANAGER] Job manager shutdown completed', {
         category: 'job-manager'
@@ -73,11 +78,16 @@ export class JobManager {
       totalQueued: number;
       totalErrors: number;
     };
+    accountDeletionJob: {
+      isScheduled: boolean;
+      isRunning: boolean;
+    };
   } {
     return {
       isInitialized: this.isInitialized,
       messagePlanningJob: this.messagePlanningJob.getStatus(),
-      queueManagerJob: this.queueManagerJob.getStatus()
+      queueManagerJob: this.queueManagerJob.getStatus(),
+      accountDeletionJob: this.accountDeletionJob.getStatus()
     };
   }
   public async triggerMessagePlanningJob(): Promise<number> {
@@ -116,6 +126,12 @@ export class JobManager {
       throw error;
     }
   }
+  public async triggerAccountDeletionJob(): Promise<number> {
+    Logger.info('[JOB_MANAGER] Manually triggering account deletion job', {
+      category: 'job-manager'
+    });
+    return this.accountDeletionJob.executeManually();
+  }
   public isJobManagerInitialized(): boolean {
     return this.isInitialized;
   }
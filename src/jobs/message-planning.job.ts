@@ -1,5 +1,6 @@
 import * as cron from 'node-cron';
 import { AutoMessageService } from '../services/auto-message.service';
+import { config } from '../config/env';
 import Logger from '../utils/logger';
 export class MessagePlanningJob {
   private autoMessageService: AutoMessageService;
@@ -53,12 +54,12 @@ export class MessagePlanningJob {
         await this.executeJob();
       }, {
         scheduled: false, 
-        timezone: 'Europe/Istanbul'
+        timezone: config.DEFAULT_TIMEZONE
       });
       this.cronJob.start();
       Logger.info('[MESSAGE_PLANNING_JOB] Nightly message planning cron job started', {
         schedule: '0 2 * * *',
-        timezone: 'Europe/Istanbul',
+        timezone: config.DEFAULT_TIMEZONE,
         nextExecution: this.getNextExecutionTime(),
         category: 'cron-job'
       });
@@ -1,6 +1,7 @@
 import * as cron from 'node-cron';
 import { queueService } from '../services/queue.service';
 import { QueueJobStatus } from '../types/queue.types';
+import { config } from '../config/env';
 import Logger from '../utils/logger';
 export class QueueManagerJob {
   private cronJob: cron.ScheduledTask | null = null;
@@ -69,12 +70,12 @@ export class QueueManagerJob {
         await this.executeJob();
       }, {
         scheduled: false, 
-        timezone: 'Europe/Istanbul'
+        timezone: config.DEFAULT_TIMEZONE
       });
       this.cronJob.start();
       Logger.info('[QUEUE_MANAGER_JOB] Queue management cron job started', {
         schedule: '* * * * *',
-        timezone: 'Europe/Istanbul',
+        timezone: config.DEFAULT_TIMEZONE,
         nextExecution: this.getNextExecutionTime(),
         category: 'cron-job'
       });
@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { API_KEY_SCOPES, ApiKeyScope } from '../constants/api-key-scopes';
+export interface IApiKey extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+  revokedAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+const ApiKeySchema = new Schema<IApiKey>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  prefix: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  keyHash: {
+    type: String,
+    required: true
+  },
+  scopes: {
+    type: [{
+      type: String,
+      enum: Object.values(API_KEY_SCOPES)
+    }],
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: false
+  },
+  revokedAt: {
+    type: Date,
+    required: false
+  },
+  lastUsedAt: {
+    type: Date,
+    required: false
+  },
+  lastUsedIp: {
+    type: String,
+    required: false
+  }
+}, {
+  timestamps: true
+});
+ApiKeySchema.index({ userId: 1, revokedAt: 1 });
+const ApiKey = mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
+export default ApiKey;
@@ -0,0 +1,75 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { AUDIT_EVENT_TYPES, AUDIT_OUTCOMES, AuditEventType, AuditOutcome } from '../constants/audit-events';
+export interface IAuditEvent extends Document {
+  _id: Types.ObjectId;
+  userId?: Types.ObjectId;
+  impersonatorId?: Types.ObjectId;
+  email?: string;
+  type: AuditEventType;
+  outcome: AuditOutcome;
+  reason?: string;
+  ip?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+const AuditEventSchema = new Schema<IAuditEvent>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: false
+  },
+  impersonatorId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: false
+  },
+  email: {
+    type: String,
+    required: false,
+    lowercase: true,
+    trim: true
+  },
+  type: {
+    type: String,
+    enum: Object.values(AUDIT_EVENT_TYPES),
+    required: true
+  },
+  outcome: {
+    type: String,
+    enum: Object.values(AUDIT_OUTCOMES),
+    required: true
+  },
+  reason: {
+    type: String,
+    required: false
+  },
+  ip: {
+    type: String,
+    required: false
+  },
+  userAgent: {
+    type: String,
+    required: false,
+    maxlength: 500
+  },
+  metadata: {
+    type: Schema.Types.Mixed,
+    required: false
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+AuditEventSchema.index({ userId: 1, createdAt: -1 });
+AuditEventSchema.index({ impersonatorId: 1, createdAt: -1 }, { sparse: true });
+AuditEventSchema.index({ type: 1, outcome: 1, createdAt: -1 });
+AuditEventSchema.index({ ip: 1, createdAt: -1 });
+AuditEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+const AuditEvent = mongoose.model<IAuditEvent>('AuditEvent', AuditEventSchema);
+export default AuditEvent;
@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { CONTACT_REQUEST_STATUSES, ContactRequestStatus } from '../constants/contacts';
+export interface IContactRequest extends Document {
+  _id: Types.ObjectId;
+  requesterId: Types.ObjectId;
+  recipientId: Types.ObjectId;
+  status: ContactRequestStatus;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+export interface IContactRequestModel extends mongoose.Model<IContactRequest> {
+  findActiveBetween(userId1: Types.ObjectId, userId2: Types.ObjectId): Promise<IContactRequest | null>;
+  areContacts(userId1: Types.ObjectId, userId2: Types.ObjectId): Promise<boolean>;
+  findContactIds(userId: Types.ObjectId): Promise<Types.ObjectId[]>;
+}
+const ContactRequestSchema = new Schema<IContactRequest>({
+  requesterId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  recipientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: Object.values(CONTACT_REQUEST_STATUSES),
+    default: CONTACT_REQUEST_STATUSES.PENDING
+  },
+  respondedAt: {
+    type: Date,
+    required: false
+  }
+}, {
+  timestamps: true
+});
+ContactRequestSchema.index({ requesterId: 1, status: 1 });
+ContactRequestSchema.index({ recipientId: 1, status: 1 });
+const ACTIVE_STATUSES = [CONTACT_REQUEST_STATUSES.PENDING, CONTACT_REQUEST_STATUSES.ACCEPTED];
+const betweenUsers = (userId1: Types.ObjectId, userId2: Types.ObjectId) => ({
+  $or: [
+    { requesterId: userId1, recipientId: userId2 },
+    { requesterId: userId2, recipientId: userId1 }
+  ]
+});
+ContactRequestSchema.statics.findActiveBetween = function(userId1: Types.ObjectId, userId2: Types.ObjectId) {
+  return this.findOne({ ...betweenUsers(userId1, userId2), status: { $in: ACTIVE_STATUSES } });
+};
+ContactRequestSchema.statics.areContacts = async function(userId1: Types.ObjectId, userId2: Types.ObjectId): Promise<boolean> {
+  const contact = await this.exists({ ...betweenUsers(userId1, userId2), status: CONTACT_REQUEST_STATUSES.ACCEPTED });
+  return !!contact;
+};
+ContactRequestSchema.statics.findContactIds = async function(userId: Types.ObjectId): Promise<Types.ObjectId[]> {
+  const contacts: IContactRequest[] = await this.find({
+    $or: [{ requesterId: userId }, { recipientId: userId }],
+    status: CONTACT_REQUEST_STATUSES.ACCEPTED
+  }).select('requesterId recipientId').lean();
+  return contacts.map(contact => (contact.requesterId.equals(userId) ? contact.recipientId : contact.requesterId));
+};
+const ContactRequest = mongoose.model<IContactRequest, IContactRequestModel>('ContactRequest', ContactRequestSchema);
+export default ContactRequest;
@@ -49,6 +49,28 @@ describe('Conversation Model', () => {
       });
       await expect(conversation.save()).rejects.toThrow('Participants must be different users');
     });
+    it('should allow group conversations with more than 2 participants', async () => {
+      const user3 = await User.create({
+        username: 'testuser3',
+        email: 'test3@example.com',
+        password: 'Password123'
+      });
+      const conversation = await Conversation.create({
+        type: 'group',
+        title: 'Weekend plans',
+        createdBy: user1._id,
+        participants: [user1._id, user2._id, user3._id]
+      });
+      expect(conversation.isGroup()).toBe(true);
+      expect(conversation.participants).toHaveLength(3);
+    });
+    it('should require a title for group conversations', async () => {
+      const conversation = new Conversation({
+        type: 'group',
+        participants: [user1._id, user2._id]
+      });
+      await expect(conversation.save()).rejects.toThrow('Path `title` is required');
+    });
     it('should save conversation with last message', async () => {
       const conversation = new Conversation({
         participants: [user1._id, user2._id],
@@ -90,6 +112,30 @@ describe('Conversation Model', () => {
       const foundConversation = await Conversation.findBetweenUsers(user1._id, user3._id);
       expect(foundConversation).toBeNull();
     });
+    it('should ignore group conversations when finding a direct conversation', async () => {
+      await Conversation.deleteMany({});
+      await Conversation.create({
+        type: 'group',
+        title: 'Pair group',
+        participants: [user1._id, user2._id]
+      });
+      const foundConversation = await Conversation.findBetweenUsers(user1._id, user2._id);
+      expect(foundConversation).toBeNull();
+    });
+    it('should only count direct conversations as partners', async () => {
+      const user3 = await User.create({
+        username: 'testuser3',
+        email: 'test3@example.com',
+        password: 'Password123'
+      });
+      await Conversation.create({
+        type: 'group',
+        title: 'Project team',
+        participants: [user1._id, user2._id, user3._id]
+      });
+      const partnerIds = await Conversation.findPartnerIds(user1._id);
+      expect(partnerIds.map(partnerId => partnerId.toString())).toEqual([user2._id.toString()]);
+    });
     it('should find user conversations', async () => {
       const user3 = await User.create({
         username: 'testuser3',
@@ -1,4 +1,8 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { USER_PUBLIC_FIELDS } from './user.model';
+import { config } from '../config/env';
+import { CONVERSATION_TYPES, ConversationType, GROUP_TITLE_MAX_LENGTH } from '../constants/conversations';
+import { VIEWER_RELATIONS, ViewerRelation } from '../constants/privacy';
 export interface ILastMessage {
   content: string;
   sender: Types.ObjectId;
@@ -6,10 +10,16 @@ export interface ILastMessage {
 }
 export interface IConversation extends Document {
   _id: Types.ObjectId;
+  type: ConversationType;
   participants: Types.ObjectId[];
+  title?: string;
+  avatarKey?: string;
+  createdBy?: Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
   lastMessage?: ILastMessage;
+  isGroup(): boolean;
+  getParticipantRelation(): ViewerRelation;
   isParticipant(userId: Types.ObjectId): boolean;
   getOtherParticipant(userId: Types.ObjectId): Types.ObjectId | null;
   updateLastMessage(content: string, senderId: Types.ObjectId): Promise<IConversation>;
@@ -33,11 +43,33 @@ const LastMessageSchema = new Schema<ILastMessage>({
   }
 }, { _id: false });
 const ConversationSchema = new Schema<IConversation>({
+  type: {
+    type: String,
+    enum: Object.values(CONVERSATION_TYPES),
+    default: CONVERSATION_TYPES.DIRECT
+  },
   participants: [{
     type: Schema.Types.ObjectId,
     ref: 'User',
     required: true
   }],
+  title: {
+    type: String,
+    trim: true,
+    maxlength: GROUP_TITLE_MAX_LENGTH,
+    required: function(this: IConversation) {
+      return this.type === CONVERSATION_TYPES.GROUP;
+    }
+  },
+  avatarKey: {
+    type: String,
+    required: false
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: false
+  },
   lastMessage: {
     type: LastMessageSchema,
     required: false
@@ -57,15 +89,21 @@ ConversationSchema.index({ participants: 1 });
 ConversationSchema.index({ updatedAt: -1 });
 ConversationSchema.index({ participants: 1, updatedAt: -1 });
 ConversationSchema.pre('validate', function(next) {
-  if (this.participants.length !== 2) {
+  if (this.type === CONVERSATION_TYPES.GROUP) {
+    if (this.participants.length < 1 || this.participants.length > config.GROUP_CONVERSATION_MAX_MEMBERS) {
+      next(new Error(`Group conversation must have between 1 and ${config.GROUP_CONVERSATION_MAX_MEMBERS} participants`));
+    } else {
+      next();
+    }
+  } else if (this.participants.length !== 2) {
     next(new Error('Conversation must have exactly 2 participants'));
   } else {
     next();
   }
 });
 ConversationSchema.pre('validate', function(next) {
-  const [participant1, participant2] = this.participants;
-  if (participant1.toString() === participant2.toString()) {
+  const participantIds = this.participants.map(participant => participant.toString());
+  if (new Set(participantIds).size !== participantIds.length) {
     next(new Error('Participants must be different users'));
   } else {
     next();
@@ -73,20 +111,36 @@ ConversationSchema.pre('validate', function(next) {
 });
 ConversationSchema.statics.findBetweenUsers = function(userId1: Types.ObjectId, userId2: Types.ObjectId) {
   return this.findOne({
+    type: { $ne: CONVERSATION_TYPES.GROUP },
     participants: {
       $all: [userId1, userId2],
       $size: 2
     }
-  }).populate('participants', 'username email');
+  })
+  .populate('participants', USER_PUBLIC_FIELDS)
+  .populate('lastMessage.sender', 'username displayName');
 };
 ConversationSchema.statics.findUserConversations = function(userId: Types.ObjectId) {
   return this.find({
     participants: userId
   })
-  .populate('participants', 'username email')
-  .populate('lastMessage.sender', 'username')
+  .populate('participants', USER_PUBLIC_FIELDS)
+  .populate('lastMessage.sender', 'username displayName')
   .sort({ updatedAt: -1 });
 };
+ConversationSchema.statics.findPartnerIds = async function(userId: Types.ObjectId): Promise<Types.ObjectId[]> {
+  const participantIds: Types.ObjectId[] = await this.distinct('participants', {
+    type: { $ne: CONVERSATION_TYPES.GROUP },
+    participants: userId
+  });
+  return participantIds.filter(participantId => !participantId.equals(userId));
+};
+ConversationSchema.methods.isGroup = function(): boolean {
+  return this.type === CONVERSATION_TYPES.GROUP;
+};
+ConversationSchema.methods.getParticipantRelation = function(): ViewerRelation {
+  return this.type === CONVERSATION_TYPES.GROUP ? VIEWER_RELATIONS.NONE : VIEWER_RELATIONS.CONVERSATION;
+};
 ConversationSchema.methods.isParticipant = function(userId: Types.ObjectId): boolean {
   return this.participants.some((participant: Types.ObjectId) => 
     participant.toString() === userId.toString()
@@ -110,6 +164,7 @@ ConversationSchema.methods.updateLastMessage = function(content: string, senderI
 export interface IConversationModel extends mongoose.Model<IConversation> {
   findBetweenUsers(userId1: Types.ObjectId, userId2: Types.ObjectId): Promise<IConversation | null>;
   findUserConversations(userId: Types.ObjectId): Promise<IConversation[]>;
+  findPartnerIds(userId: Types.ObjectId): Promise<Types.ObjectId[]>;
 }
 const Conversation = mongoose.model<IConversation, IConversationModel>('Conversation', ConversationSchema);
 export default Conversation;
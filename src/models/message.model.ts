@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema, Types } from 'mongoose';
+import { USER_PUBLIC_FIELDS } from './user.model';
 export interface IMessage extends Document {
   _id: Types.ObjectId;
   conversationId: Types.ObjectId;
@@ -59,7 +60,7 @@ MessageSchema.statics.findByConversationId = async function(
   const skip = (page - 1) * limit;
   const [messages, total] = await Promise.all([
     this.find({ conversationId })
-      .populate('senderId', 'username email')
+      .populate('senderId', USER_PUBLIC_FIELDS)
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit)
@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+export interface IOidcAuthRequest extends Document {
+  _id: Types.ObjectId;
+  provider: string;
+  stateHash: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+const OidcAuthRequestSchema = new Schema<IOidcAuthRequest>({
+  provider: {
+    type: String,
+    required: true
+  },
+  stateHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  nonce: {
+    type: String,
+    required: true
+  },
+  codeVerifier: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true
+});
+OidcAuthRequestSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+const OidcAuthRequest = mongoose.model<IOidcAuthRequest>('OidcAuthRequest', OidcAuthRequestSchema);
+export default OidcAuthRequest;
@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+export const ONE_TIME_TOKEN_PURPOSES = {
+  PASSWORD_RESET: 'password_reset',
+  EMAIL_VERIFICATION: 'email_verification',
+  TWO_FACTOR_CHALLENGE: 'two_factor_challenge',
+  ACCOUNT_CONFIRMATION: 'account_confirmation'
+} as const;
+export type OneTimeTokenPurpose = typeof ONE_TIME_TOKEN_PURPOSES[keyof typeof ONE_TIME_TOKEN_PURPOSES];
+export interface IOneTimeToken extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  purpose: OneTimeTokenPurpose;
+  tokenHash: string;
+  email?: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+export interface IOneTimeTokenModel extends mongoose.Model<IOneTimeToken> {
+  issue(userId: Types.ObjectId, purpose: OneTimeTokenPurpose, ttlMs: number, email?: string): Promise<string>;
+  findUsable(token: string, purpose: OneTimeTokenPurpose): Promise<IOneTimeToken | null>;
+  consume(token: string, purpose: OneTimeTokenPurpose): Promise<IOneTimeToken | null>;
+}
+const OneTimeTokenSchema = new Schema<IOneTimeToken>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  purpose: {
+    type: String,
+    enum: Object.values(ONE_TIME_TOKEN_PURPOSES),
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  email: {
+    type: String,
+    required: false,
+    lowercase: true,
+    trim: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    required: false
+  }
+}, {
+  timestamps: true
+});
+OneTimeTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+OneTimeTokenSchema.index({ userId: 1, purpose: 1 });
+OneTimeTokenSchema.statics.issue = async function(
+  userId: Types.ObjectId,
+  purpose: OneTimeTokenPurpose,
+  ttlMs: number,
+  email?: string
+): Promise<string> {
+  await this.deleteMany({ userId, purpose, usedAt: { $exists: false } });
+  const token = generateSecureToken();
+  await this.create({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    ...(email && { email }),
+    expiresAt: new Date(Date.now() + ttlMs)
+  });
+  return token;
+};
+const usableTokenFilter = (token: string, purpose: OneTimeTokenPurpose) => ({
+  tokenHash: hashToken(token),
+  purpose,
+  usedAt: { $exists: false },
+  expiresAt: { $gt: new Date() }
+});
+OneTimeTokenSchema.statics.findUsable = function(token: string, purpose: OneTimeTokenPurpose) {
+  return this.findOne(usableTokenFilter(token, purpose));
+};
+OneTimeTokenSchema.statics.consume = function(token: string, purpose: OneTimeTokenPurpose) {
+  return this.findOneAndUpdate(
+    usableTokenFilter(token, purpose),
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
+};
+const OneTimeToken = mongoose.model<IOneTimeToken, IOneTimeTokenModel>('OneTimeToken', OneTimeTokenSchema);
+export default OneTimeToken;
@@ -0,0 +1,114 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { hashToken } from '../utils/crypto';
+export interface IRefreshToken extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  tokenHash: string;
+  familyId: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedByHash?: string;
+  deviceLabel: string;
+  userAgent?: string;
+  ip?: string;
+  sessionCreatedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+export interface IRefreshTokenModel extends mongoose.Model<IRefreshToken> {
+  hashToken(token: string): string;
+  findByToken(token: string): Promise<IRefreshToken | null>;
+  rotate(token: string, replacementToken: string): Promise<IRefreshToken | null>;
+  findActiveSessions(userId: Types.ObjectId): Promise<IRefreshToken[]>;
+  revokeFamily(familyId: string): Promise<any>;
+  revokeAllForUser(userId: Types.ObjectId): Promise<any>;
+}
+const RefreshTokenSchema = new Schema<IRefreshToken>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  familyId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: {
+    type: Date,
+    required: false
+  },
+  replacedByHash: {
+    type: String,
+    required: false
+  },
+  deviceLabel: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  userAgent: {
+    type: String,
+    required: false,
+    maxlength: 500
+  },
+  ip: {
+    type: String,
+    required: false
+  },
+  sessionCreatedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+RefreshTokenSchema.index({ userId: 1, revokedAt: 1 });
+RefreshTokenSchema.statics.hashToken = function(token: string): string {
+  return hashToken(token);
+};
+RefreshTokenSchema.statics.findByToken = function(token: string) {
+  return this.findOne({ tokenHash: (this as IRefreshTokenModel).hashToken(token) });
+};
+RefreshTokenSchema.statics.rotate = function(token: string, replacementToken: string) {
+  const model = this as IRefreshTokenModel;
+  return this.findOneAndUpdate(
+    { tokenHash: model.hashToken(token), revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), replacedByHash: model.hashToken(replacementToken) } },
+    { new: true }
+  );
+};
+RefreshTokenSchema.statics.findActiveSessions = function(userId: Types.ObjectId) {
+  return this.find({
+    userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() }
+  }).sort({ createdAt: -1 });
+};
+RefreshTokenSchema.statics.revokeFamily = function(familyId: string) {
+  return this.updateMany(
+    { familyId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+};
+RefreshTokenSchema.statics.revokeAllForUser = function(userId: Types.ObjectId) {
+  return this.updateMany(
+    { userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date() } }
+  );
+};
+const RefreshToken = mongoose.model<IRefreshToken, IRefreshTokenModel>('RefreshToken', RefreshTokenSchema);
+export default RefreshToken;
@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+export interface IUserBlock extends Document {
+  _id: Types.ObjectId;
+  blockerId: Types.ObjectId;
+  blockedId: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+export interface IUserBlockModel extends mongoose.Model<IUserBlock> {
+  isBlockedBetween(userId1: Types.ObjectId, userId2: Types.ObjectId): Promise<boolean>;
+  findBlockedUserIds(userId: Types.ObjectId): Promise<Types.ObjectId[]>;
+}
+const UserBlockSchema = new Schema<IUserBlock>({
+  blockerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  blockedId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  }
+}, {
+  timestamps: true
+});
+UserBlockSchema.index({ blockerId: 1, blockedId: 1 }, { unique: true });
+UserBlockSchema.statics.isBlockedBetween = async function(userId1: Types.ObjectId, userId2: Types.ObjectId): Promise<boolean> {
+  const block = await this.exists({
+    $or: [
+      { blockerId: userId1, blockedId: userId2 },
+      { blockerId: userId2, blockedId: userId1 }
+    ]
+  });
+  return !!block;
+};
+UserBlockSchema.statics.findBlockedUserIds = async function(userId: Types.ObjectId): Promise<Types.ObjectId[]> {
+  const blocks: IUserBlock[] = await this.find({
+    $or: [{ blockerId: userId }, { blockedId: userId }]
+  }).select('blockerId blockedId').lean();
+  return blocks.map(block => (block.blockerId.equals(userId) ? block.blockedId : block.blockerId));
+};
+const UserBlock = mongoose.model<IUserBlock, IUserBlockModel>('UserBlock', UserBlockSchema);
+export default UserBlock;
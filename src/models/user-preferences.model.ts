@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+import { SUPPORTED_LOCALES, SupportedLocale, TIME_OF_DAY_PATTERN } from '../constants/preferences';
+export interface IUserPreferences extends Document {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  locale?: SupportedLocale;
+  timezone?: string;
+  quietHours: {
+    enabled: boolean;
+    start: string;
+    end: string;
+  };
+  notifications: {
+    messages: boolean;
+    contactRequests: boolean;
+  };
+  readReceipts: boolean;
+  autoMessages: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+const UserPreferencesSchema = new Schema<IUserPreferences>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  locale: {
+    type: String,
+    enum: SUPPORTED_LOCALES,
+    required: false
+  },
+  timezone: {
+    type: String,
+    required: false,
+    trim: true,
+    maxlength: 64
+  },
+  quietHours: {
+    _id: false,
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    start: {
+      type: String,
+      match: [TIME_OF_DAY_PATTERN, 'Quiet hours must use the HH:mm format'],
+      default: '22:00'
+    },
+    end: {
+      type: String,
+      match: [TIME_OF_DAY_PATTERN, 'Quiet hours must use the HH:mm format'],
+      default: '08:00'
+    }
+  },
+  notifications: {
+    _id: false,
+    messages: {
+      type: Boolean,
+      default: true
+    },
+    contactRequests: {
+      type: Boolean,
+      default: true
+    }
+  },
+  readReceipts: {
+    type: Boolean,
+    default: true
+  },
+  autoMessages: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+UserPreferencesSchema.index({ autoMessages: 1 });
+const UserPreferences = mongoose.model<IUserPreferences>('UserPreferences', UserPreferencesSchema);
+export default UserPreferences;
@@ -1,11 +1,58 @@
-import mongoose, { Document, Schema } from 'mongoose';
+import mongoose, { Document, Schema, UpdateQuery } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { ROLES, PERMISSIONS, Role, Permission } from '../constants/roles';
+import { getAvatarKey } from '../constants/avatars';
+import {
+  DEFAULT_PRIVACY_SETTINGS,
+  MESSAGE_AUDIENCES,
+  PRIVACY_AUDIENCES,
+  PrivacySettings,
+  ViewerRelation,
+  isVisibleTo
+} from '../constants/privacy';
+import { createSignedMediaUrl } from '../utils/media-url';
+export interface ITwoFactorRecoveryCode {
+  codeHash: string;
+  usedAt?: Date;
+}
+export interface IUserIdentity {
+  provider: string;
+  subject: string;
+  email?: string;
+  linkedAt: Date;
+}
 export interface IUser extends Document {
   _id: mongoose.Types.ObjectId;
   username: string;
+  usernameLower: string;
   email: string;
   password: string;
   isActive: boolean;
+  roles: Role[];
+  permissions: Permission[];
+  displayName?: string;
+  displayNameLower?: string;
+  bio?: string;
+  avatarUrl?: string;
+  avatarKey?: string;
+  statusText?: string;
+  statusExpiresAt?: Date;
+  lastSeenAt?: Date;
+  privacy: PrivacySettings;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  pendingEmail?: string;
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt?: Date;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorLastUsedStep?: number;
+  twoFactorRecoveryCodes: ITwoFactorRecoveryCode[];
+  identities: IUserIdentity[];
+  deactivatedAt?: Date;
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date;
+  deletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(enteredPassword: string): Promise<boolean>;
@@ -19,6 +66,10 @@ const userSchema = new Schema<IUser>({
     minlength: [3, 'Username must be at least 3 characters long'],
     maxlength: [30, 'Username cannot exceed 30 characters']
   },
+  usernameLower: {
+    type: String,
+    required: false
+  },
   email: {
     type: String,
     required: [true, 'Email is required'],
@@ -38,12 +89,205 @@ const userSchema = new Schema<IUser>({
   isActive: {
     type: Boolean,
     default: true
+  },
+  roles: {
+    type: [{
+      type: String,
+      enum: Object.values(ROLES)
+    }],
+    default: [ROLES.USER]
+  },
+  permissions: {
+    type: [{
+      type: String,
+      enum: Object.values(PERMISSIONS)
+    }],
+    default: []
+  },
+  displayName: {
+    type: String,
+    required: false,
+    trim: true,
+    maxlength: [50, 'Display name cannot exceed 50 characters']
+  },
+  displayNameLower: {
+    type: String,
+    required: false
+  },
+  bio: {
+    type: String,
+    required: false,
+    trim: true,
+    maxlength: [280, 'Bio cannot exceed 280 characters']
+  },
+  avatarUrl: {
+    type: String,
+    required: false,
+    trim: true,
+    maxlength: [2048, 'Avatar URL cannot exceed 2048 characters']
+  },
+  avatarKey: {
+    type: String,
+    required: false
+  },
+  statusText: {
+    type: String,
+    required: false,
+    trim: true,
+    maxlength: [100, 'Status text cannot exceed 100 characters']
+  },
+  statusExpiresAt: {
+    type: Date,
+    required: false
+  },
+  lastSeenAt: {
+    type: Date,
+    required: false
+  },
+  privacy: {
+    _id: false,
+    emailVisibility: {
+      type: String,
+      enum: Object.values(PRIVACY_AUDIENCES),
+      default: DEFAULT_PRIVACY_SETTINGS.emailVisibility
+    },
+    lastSeenVisibility: {
+      type: String,
+      enum: Object.values(PRIVACY_AUDIENCES),
+      default: DEFAULT_PRIVACY_SETTINGS.lastSeenVisibility
+    },
+    messagesFrom: {
+      type: String,
+      enum: Object.values(MESSAGE_AUDIENCES),
+      default: DEFAULT_PRIVACY_SETTINGS.messagesFrom
+    }
+  },
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerifiedAt: {
+    type: Date,
+    required: false
+  },
+  pendingEmail: {
+    type: String,
+    required: false,
+    lowercase: true,
+    trim: true,
+    match: [
+      /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+      'Please provide a valid email address'
+    ]
+  },
+  twoFactorEnabled: {
+    type: Boolean,
+    default: false
+  },
+  twoFactorEnabledAt: {
+    type: Date,
+    required: false
+  },
+  twoFactorSecret: {
+    type: String,
+    required: false
+  },
+  twoFactorPendingSecret: {
+    type: String,
+    required: false
+  },
+  twoFactorLastUsedStep: {
+    type: Number,
+    required: false
+  },
+  twoFactorRecoveryCodes: [{
+    _id: false,
+    codeHash: {
+      type: String,
+      required: true
+    },
+    usedAt: {
+      type: Date,
+      required: false
+    }
+  }],
+  identities: [{
+    _id: false,
+    provider: {
+      type: String,
+      required: true
+    },
+    subject: {
+      type: String,
+      required: true
+    },
+    email: {
+      type: String,
+      required: false,
+      lowercase: true,
+      trim: true
+    },
+    linkedAt: {
+      type: Date,
+      required: true,
+      default: Date.now
+    }
+  }],
+  deactivatedAt: {
+    type: Date,
+    required: false
+  },
+  deletionRequestedAt: {
+    type: Date,
+    required: false
+  },
+  deletionScheduledFor: {
+    type: Date,
+    required: false
+  },
+  deletedAt: {
+    type: Date,
+    required: false
   }
 }, {
   timestamps: true
 });
 userSchema.index({ email: 1 });
 userSchema.index({ username: 1 });
+userSchema.index({ usernameLower: 1 });
+userSchema.index({ displayNameLower: 1 }, { sparse: true });
+userSchema.index({ lastSeenAt: -1 }, { sparse: true });
+userSchema.index({ deletionScheduledFor: 1 }, { sparse: true });
+userSchema.index(
+  { 'identities.provider': 1, 'identities.subject': 1 },
+  { unique: true, partialFilterExpression: { 'identities.subject': { $exists: true } } }
+);
+userSchema.pre('save', function(next) {
+  if (this.isModified('username')) {
+    this.usernameLower = this.username.toLowerCase();
+  }
+  if (this.isModified('displayName')) {
+    this.set('displayNameLower', this.displayName ? this.displayName.toLowerCase() : undefined);
+  }
+  next();
+});
+userSchema.pre('findOneAndUpdate', function(next) {
+  const update = this.getUpdate() as UpdateQuery<IUser> | null;
+  if (!update || Array.isArray(update)) {
+    return next();
+  }
+  const fields = { ...update, ...update.$set };
+  if (typeof fields.username === 'string') {
+    this.set('usernameLower', fields.username.toLowerCase());
+  }
+  if (typeof fields.displayName === 'string') {
+    this.set('displayNameLower', fields.displayName.toLowerCase());
+  }
+  if (update.$unset?.displayName !== undefined) {
+    update.$unset.displayNameLower = 1;
+  }
+  next();
+});
 userSchema.pre('save', async function(next) {
   if (!this.isModified('password')) {
     return next();
@@ -62,7 +306,61 @@ userSchema.methods.comparePassword = async function(enteredPassword: string): Pr
 userSchema.methods.toJSON = function() {
   const userObject = this.toObject();
   delete userObject.password;
+  delete userObject.twoFactorSecret;
+  delete userObject.twoFactorPendingSecret;
+  delete userObject.twoFactorLastUsedStep;
+  delete userObject.twoFactorRecoveryCodes;
+  delete userObject.usernameLower;
+  delete userObject.displayNameLower;
+  if (userObject.statusExpiresAt && userObject.statusExpiresAt <= new Date()) {
+    delete userObject.statusText;
+    delete userObject.statusExpiresAt;
+  }
   return userObject;
 };
+export const USER_PUBLIC_FIELDS = 'username email displayName bio avatarUrl avatarKey statusText statusExpiresAt lastSeenAt privacy';
+export interface UserProfile {
+  displayName: string | null;
+  bio: string | null;
+  avatarUrl: string | null;
+  statusText: string | null;
+  statusExpiresAt: Date | null;
+}
+export const toUserProfile = (
+  user: Partial<Pick<IUser, 'displayName' | 'bio' | 'avatarUrl' | 'avatarKey' | 'statusText' | 'statusExpiresAt'>>
+): UserProfile => {
+  const hasActiveStatus = !!user.statusText && (!user.statusExpiresAt || user.statusExpiresAt > new Date());
+  return {
+    displayName: user.displayName || null,
+    bio: user.bio || null,
+    avatarUrl: user.avatarKey ? createSignedMediaUrl(getAvatarKey(user.avatarKey, 'medium')) : user.avatarUrl || null,
+    statusText: hasActiveStatus ? user.statusText! : null,
+    statusExpiresAt: hasActiveStatus ? user.statusExpiresAt || null : null
+  };
+};
+export type PublicUser = {
+  id: string;
+  username: string;
+  email: string | null;
+  lastSeenAt: Date | null;
+} & UserProfile;
+export const getPrivacySettings = (user: Partial<Pick<IUser, 'privacy'>>): PrivacySettings => ({
+  emailVisibility: user.privacy?.emailVisibility || DEFAULT_PRIVACY_SETTINGS.emailVisibility,
+  lastSeenVisibility: user.privacy?.lastSeenVisibility || DEFAULT_PRIVACY_SETTINGS.lastSeenVisibility,
+  messagesFrom: user.privacy?.messagesFrom || DEFAULT_PRIVACY_SETTINGS.messagesFrom
+});
+export const toPublicUser = (
+  user: Partial<IUser> & Pick<IUser, '_id' | 'username'>,
+  relation: ViewerRelation
+): PublicUser => {
+  const privacy = getPrivacySettings(user);
+  return {
+    id: user._id.toString(),
+    username: user.username,
+    email: isVisibleTo(privacy.emailVisibility, relation) ? user.email || null : null,
+    ...toUserProfile(user),
+    lastSeenAt: isVisibleTo(privacy.lastSeenVisibility, relation) ? user.lastSeenAt || null : null
+  };
+};
 const User = mongoose.model<IUser>('User', userSchema);
 export default User;
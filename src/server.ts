@@ -5,6 +5,7 @@ import { captureException } from './config/sentry';
 import Logger from './utils/logger';
 import { initializeSocketService } from './socket/socket.service';
 import { jobManager } from './jobs/job-manager';
+import { UserService } from './services/user.service';
 import { messageSubscriber } from './subscribers/message.subscriber';
 import { rabbitmqConfig } from './config/rabbitmq';
 import { createServer } from 'http';
@@ -24,6 +25,7 @@ async function startServer(): Promise<void> {
     validateConfig();
     const database = DatabaseConfig.getInstance();
     await database.connect();
+    await new UserService().grantConfiguredAdminRoles();
     const app = createApp();
     const httpServer = createServer(app);
     initializeSocketService(httpServer);
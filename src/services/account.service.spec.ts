@@ -0,0 +1,141 @@
+import { AccountService, DELETED_MESSAGE_PLACEHOLDER } from './account.service';
+import { AuthService, AuthTokens } from './auth.service';
+import { mailService } from './mail.service';
+import User from '../models/user.model';
+import Conversation from '../models/conversation.model';
+import Message from '../models/message.model';
+import AutoMessage from '../models/auto-message.model';
+import RefreshToken from '../models/refresh-token.model';
+import { AppError } from '../utils/app-error';
+describe('AccountService', () => {
+  let accountService: AccountService;
+  let authService: AuthService;
+  let userId: string;
+  let otherUserId: string;
+  const credentials = { email: 'leaver@example.com', password: 'Password123' };
+  beforeEach(async () => {
+    accountService = new AccountService();
+    authService = new AuthService();
+    jest.spyOn(mailService, 'send').mockResolvedValue();
+    await authService.register({ username: 'leaver', ...credentials });
+    const user = await User.findOne({ email: credentials.email });
+    userId = user!._id.toString();
+    const otherUser = await User.create({ username: 'stayer', email: 'stayer@example.com', password: 'Password123' });
+    otherUserId = otherUser._id.toString();
+  });
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  describe('deactivate', () => {
+    it('should deactivate the account and end every session', async () => {
+      await accountService.deactivate(userId, { password: credentials.password });
+      const user = await User.findById(userId);
+      expect(user?.isActive).toBe(false);
+      expect(user?.deactivatedAt).toBeInstanceOf(Date);
+      expect(await RefreshToken.countDocuments({ userId, revokedAt: { $exists: false } })).toBe(0);
+      await expect(authService.login(credentials)).rejects.toMatchObject({ errorCode: 'ACCOUNT_DEACTIVATED' });
+    });
+    it('should require the current password', async () => {
+      await expect(accountService.deactivate(userId, { password: 'WrongPassword1' })).rejects.toBeInstanceOf(AppError);
+      expect((await User.findById(userId))?.isActive).toBe(true);
+    });
+  });
+  describe('reactivate', () => {
+    it('should restore a deactivated account and sign the user in', async () => {
+      await accountService.deactivate(userId, { password: credentials.password });
+      const result = await authService.reactivateAccount(credentials) as AuthTokens;
+      expect(result).toHaveProperty('accessToken');
+      const user = await User.findById(userId);
+      expect(user?.isActive).toBe(true);
+      expect(user?.deactivatedAt).toBeUndefined();
+    });
+    it('should cancel a pending deletion', async () => {
+      await accountService.requestDeletion(userId, { password: credentials.password });
+      await authService.reactivateAccount(credentials);
+      expect(await accountService.purgeDueDeletions(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000))).toBe(0);
+      expect((await User.findById(userId))?.deletionScheduledFor).toBeUndefined();
+    });
+    it('should not reactivate accounts disabled by an administrator', async () => {
+      await User.findByIdAndUpdate(userId, { isActive: false });
+      await expect(authService.reactivateAccount(credentials)).rejects.toMatchObject({ errorCode: 'ACCOUNT_DISABLED' });
+    });
+  });
+  describe('requestDeletion', () => {
+    it('should schedule deletion after the grace period', async () => {
+      const { deletionScheduledFor } = await accountService.requestDeletion(userId, { password: credentials.password });
+      expect(deletionScheduledFor.getTime()).toBeGreaterThan(Date.now() + 29 * 24 * 60 * 60 * 1000);
+      const user = await User.findById(userId);
+      expect(user?.isActive).toBe(false);
+      expect(mailService.send).toHaveBeenCalledWith(expect.objectContaining({ to: credentials.email }));
+    });
+    it('should accept a single-use emailed confirmation code instead of the password', async () => {
+      await accountService.requestConfirmation(userId);
+      const [[confirmationMail]] = (mailService.send as jest.Mock).mock.calls;
+      const confirmationToken = confirmationMail.text.match(/^[a-f0-9]{64}$/m)[0];
+      await expect(
+        accountService.requestDeletion(otherUserId, { confirmationToken })
+      ).rejects.toMatchObject({ errorCode: 'INVALID_CONFIRMATION_TOKEN' });
+      await accountService.requestConfirmation(userId);
+      const secondToken = (mailService.send as jest.Mock).mock.calls[1][0].text.match(/^[a-f0-9]{64}$/m)[0];
+      await accountService.requestDeletion(userId, { confirmationToken: secondToken });
+      expect((await User.findById(userId))?.deletionScheduledFor).toBeInstanceOf(Date);
+      await expect(
+        accountService.deactivate(userId, { confirmationToken: secondToken })
+      ).rejects.toMatchObject({ errorCode: 'INVALID_CONFIRMATION_TOKEN' });
+    });
+    it('should reject requests without a password or confirmation code', async () => {
+      await expect(accountService.requestDeletion(userId, {})).rejects.toMatchObject({ errorCode: 'INVALID_PASSWORD' });
+      expect((await User.findById(userId))?.isActive).toBe(true);
+    });
+  });
+  describe('purgeDueDeletions', () => {
+    it('should anonymize the user and remove them from conversations once due', async () => {
+      const conversation = await Conversation.create({ participants: [userId, otherUserId] });
+      await Message.create({ conversationId: conversation._id, senderId: userId, content: 'Goodbye' });
+      await Message.create({ conversationId: conversation._id, senderId: otherUserId, content: 'See you' });
+      await conversation.updateLastMessage('Goodbye', conversation.participants[0]);
+      await AutoMessage.create({ senderId: userId, receiverId: otherUserId, content: 'Hi', sendDate: new Date() });
+      await accountService.requestDeletion(userId, { password: credentials.password });
+      expect(await accountService.purgeDueDeletions()).toBe(0);
+      expect(await accountService.purgeDueDeletions(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000))).toBe(1);
+      const user = await User.findById(userId);
+      expect(user?.deletedAt).toBeInstanceOf(Date);
+      expect(user?.email).not.toBe(credentials.email);
+      expect(user?.username).toMatch(/^deleted_/);
+      const messages = await Message.find({ conversationId: conversation._id }).sort({ createdAt: 1 });
+      expect(messages.map(message => message.content)).toEqual([DELETED_MESSAGE_PLACEHOLDER, 'See you']);
+      const updatedConversation = await Conversation.findById(conversation._id);
+      expect(updatedConversation?.participants.map(participant => participant.toString())).toEqual([otherUserId]);
+      expect(updatedConversation?.lastMessage?.content).toBe(DELETED_MESSAGE_PLACEHOLDER);
+      expect(await AutoMessage.countDocuments()).toBe(0);
+      await expect(authService.login(credentials)).rejects.toBeInstanceOf(AppError);
+    });
+    it('should hand groups created by the user to a remaining member', async () => {
+      const group = await Conversation.create({
+        type: 'group',
+        title: 'Book club',
+        participants: [userId, otherUserId],
+        createdBy: userId
+      });
+      await accountService.requestDeletion(userId, { password: credentials.password });
+      await accountService.purgeDueDeletions(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000));
+      const updatedGroup = await Conversation.findById(group._id);
+      expect(updatedGroup?.participants.map(participant => participant.toString())).toEqual([otherUserId]);
+      expect(updatedGroup?.createdBy?.toString()).toBe(otherUserId);
+    });
+  });
+  describe('exportUserData', () => {
+    it('should include the profile, conversations, messages and auto-messages', async () => {
+      const conversation = await Conversation.create({ participants: [userId, otherUserId] });
+      await Message.create({ conversationId: conversation._id, senderId: userId, content: 'Hello' });
+      await AutoMessage.create({ senderId: otherUserId, receiverId: userId, content: 'Hi', sendDate: new Date() });
+      const archive = await accountService.exportUserData(userId);
+      expect(archive.profile).toMatchObject({ username: 'leaver', email: credentials.email });
+      expect(archive.profile).not.toHaveProperty('password');
+      expect(archive.sessions).toHaveLength(1);
+      expect(archive.conversations).toHaveLength(1);
+      expect(archive.messages).toEqual([expect.objectContaining({ content: 'Hello', senderId: userId })]);
+      expect(archive.autoMessages).toEqual([expect.objectContaining({ content: 'Hi', receiverId: userId })]);
+    });
+  });
+});
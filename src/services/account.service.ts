@@ -0,0 +1,339 @@
+import { Types } from 'mongoose';
+import User, { IUser, getPrivacySettings, toUserProfile } from '../models/user.model';
+import Conversation from '../models/conversation.model';
+import Message from '../models/message.model';
+import AutoMessage from '../models/auto-message.model';
+import RefreshToken from '../models/refresh-token.model';
+import OneTimeToken, { ONE_TIME_TOKEN_PURPOSES } from '../models/one-time-token.model';
+import ApiKey from '../models/api-key.model';
+import UserBlock from '../models/user-block.model';
+import ContactRequest from '../models/contact-request.model';
+import UserPreferences from '../models/user-preferences.model';
+import { config } from '../config/env';
+import { mailService } from './mail.service';
+import { sessionService } from './session.service';
+import { auditLogService } from './audit-log.service';
+import { storageService } from './storage.service';
+import { preferencesService } from './preferences.service';
+import { SessionContext } from './auth.service';
+import { CONVERSATION_TYPES } from '../constants/conversations';
+import { AUDIT_EVENT_TYPES, AUDIT_OUTCOMES, AuditEventType } from '../constants/audit-events';
+import { getAvatarKeys } from '../constants/avatars';
+import { AppError } from '../utils/app-error';
+import { generateSecureToken } from '../utils/crypto';
+import Logger from '../utils/logger';
+export const DELETED_MESSAGE_PLACEHOLDER = '[deleted]';
+export interface AccountConfirmation {
+  password?: string | undefined;
+  confirmationToken?: string | undefined;
+}
+export interface DeletionSchedule {
+  deletionScheduledFor: Date;
+}
+export interface UserDataExport {
+  exportedAt: Date;
+  profile: Record<string, unknown>;
+  sessions: Array<Record<string, unknown>>;
+  apiKeys: Array<Record<string, unknown>>;
+  conversations: Array<Record<string, unknown>>;
+  messages: Array<Record<string, unknown>>;
+  autoMessages: Array<Record<string, unknown>>;
+}
+export class AccountService {
+  public async requestConfirmation(userId: string): Promise<void> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    const ttlMinutes = config.ACCOUNT_CONFIRMATION_TOKEN_TTL_MINUTES;
+    const token = await OneTimeToken.issue(user._id, ONE_TIME_TOKEN_PURPOSES.ACCOUNT_CONFIRMATION, ttlMinutes * 60 * 1000);
+    await mailService.send({
+      to: user.email,
+      subject: 'Confirm your account change',
+      text: [
+        `Hi ${user.username},`,
+        '',
+        'Use the code below to confirm deactivating or deleting your account:',
+        token,
+        '',
+        `This code expires in ${ttlMinutes} minutes and can only be used once.`,
+        'If you did not request this, you can ignore this email.'
+      ].join('\n')
+    });
+    Logger.auth('Account confirmation code sent', { userId });
+  }
+  public async deactivate(userId: string, confirmation: AccountConfirmation, context: SessionContext = {}): Promise<void> {
+    const user = await this.findConfirmedUser(userId, confirmation, AUDIT_EVENT_TYPES.ACCOUNT_DEACTIVATE, context);
+    user.isActive = false;
+    user.deactivatedAt = new Date();
+    await user.save();
+    await sessionService.revokeAllSessions(userId, 'Account deactivated');
+    sessionService.disconnectUserSockets(userId, 'Account deactivated');
+    await auditLogService.record({
+      type: AUDIT_EVENT_TYPES.ACCOUNT_DEACTIVATE,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      userId,
+      ip: context.ip,
+      userAgent: context.userAgent
+    });
+    Logger.auth('Account deactivated', { userId });
+  }
+  public assertCanReactivate(user: IUser): void {
+    if (!user.isActive && (!user.deactivatedAt || user.deletedAt)) {
+      throw new AppError('Account is disabled', 403, 'ACCOUNT_DISABLED');
+    }
+  }
+  public async reactivate(user: IUser): Promise<void> {
+    this.assertCanReactivate(user);
+    if (user.isActive) {
+      return;
+    }
+    const wasScheduledForDeletion = !!user.deletionScheduledFor;
+    user.isActive = true;
+    user.set('deactivatedAt', undefined);
+    user.set('deletionRequestedAt', undefined);
+    user.set('deletionScheduledFor', undefined);
+    await user.save();
+    Logger.auth('Account reactivated', {
+      userId: user._id.toString(),
+      deletionCancelled: wasScheduledForDeletion
+    });
+  }
+  public async requestDeletion(
+    userId: string,
+    confirmation: AccountConfirmation,
+    context: SessionContext = {}
+  ): Promise<DeletionSchedule> {
+    const user = await this.findConfirmedUser(userId, confirmation, AUDIT_EVENT_TYPES.ACCOUNT_DELETION_REQUEST, context);
+    const now = new Date();
+    const deletionScheduledFor = new Date(now.getTime() + config.ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+    user.isActive = false;
+    user.deactivatedAt = user.deactivatedAt || now;
+    user.deletionRequestedAt = now;
+    user.deletionScheduledFor = deletionScheduledFor;
+    await user.save();
+    await sessionService.revokeAllSessions(userId, 'Account deletion requested');
+    sessionService.disconnectUserSockets(userId, 'Account deletion requested');
+    await auditLogService.record({
+      type: AUDIT_EVENT_TYPES.ACCOUNT_DELETION_REQUEST,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      userId,
+      ip: context.ip,
+      userAgent: context.userAgent,
+      metadata: { deletionScheduledFor }
+    });
+    try {
+      await mailService.send({
+        to: user.email,
+        subject: 'Your account is scheduled for deletion',
+        text: [
+          `Hi ${user.username},`,
+          '',
+          `Your account will be permanently deleted on ${deletionScheduledFor.toUTCString()}.`,
+          'Your messages will be anonymized and you will be removed from all conversations.',
+          '',
+          'If you change your mind, sign in to reactivate your account before that date.'
+        ].join('\n')
+      });
+    } catch (mailError) {
+      Logger.error('Failed to send account deletion email', mailError as Error, { userId });
+    }
+    Logger.auth('Account deletion requested', { userId, deletionScheduledFor });
+    return { deletionScheduledFor };
+  }
+  public async purgeDueDeletions(now: Date = new Date()): Promise<number> {
+    const dueUsers = await User.find({
+      deletionScheduledFor: { $lte: now },
+      deletedAt: { $exists: false }
+    }).select('_id');
+    let purgedCount = 0;
+    for (const dueUser of dueUsers) {
+      try {
+        await this.purgeUser(dueUser._id);
+        purgedCount++;
+      } catch (error) {
+        Logger.error('Failed to purge deleted account', error as Error, { userId: dueUser._id.toString() });
+      }
+    }
+    return purgedCount;
+  }
+  public async exportUserData(userId: string): Promise<UserDataExport> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const userObjectId = new Types.ObjectId(userId);
+    const user = await User.findById(userObjectId);
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    const [sessions, preferences, apiKeys, conversations, autoMessages] = await Promise.all([
+      sessionService.listSessions(userId),
+      preferencesService.getPreferences(userId),
+      ApiKey.find({ userId: userObjectId }).sort({ createdAt: -1 }),
+      Conversation.find({ participants: userObjectId })
+        .populate('participants', 'username')
+        .sort({ updatedAt: -1 }),
+      AutoMessage.find({ $or: [{ senderId: userObjectId }, { receiverId: userObjectId }] })
+        .sort({ createdAt: 1 })
+    ]);
+    const messages = await Message.find({
+      conversationId: { $in: conversations.map(conversation => conversation._id) }
+    }).sort({ createdAt: 1 });
+    return {
+      exportedAt: new Date(),
+      profile: {
+        id: user._id.toString(),
+        username: user.username,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        pendingEmail: user.pendingEmail || null,
+        ...toUserProfile(user),
+        privacy: getPrivacySettings(user),
+        preferences,
+        roles: user.roles,
+        twoFactorEnabled: user.twoFactorEnabled,
+        identities: user.identities.map(identity => ({
+          provider: identity.provider,
+          email: identity.email || null,
+          linkedAt: identity.linkedAt
+        })),
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt
+      },
+      sessions: sessions.map(({ isCurrent, ...session }) => session),
+      apiKeys: apiKeys.map(apiKey => ({
+        id: apiKey._id.toString(),
+        name: apiKey.name,
+        prefix: apiKey.prefix,
+        scopes: apiKey.scopes,
+        expiresAt: apiKey.expiresAt || null,
+        revokedAt: apiKey.revokedAt || null,
+        lastUsedAt: apiKey.lastUsedAt || null,
+        createdAt: apiKey.createdAt
+      })),
+      conversations: conversations.map(conversation => ({
+        id: conversation._id.toString(),
+        type: conversation.type,
+        title: conversation.title || null,
+        participants: (conversation.participants as unknown as IUser[]).map(participant => ({
+          id: participant._id.toString(),
+          username: participant.username
+        })),
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt
+      })),
+      messages: messages.map(message => ({
+        id: message._id.toString(),
+        conversationId: message.conversationId.toString(),
+        senderId: message.senderId.toString(),
+        content: message.content,
+        isRead: message.isRead,
+        createdAt: message.createdAt
+      })),
+      autoMessages: autoMessages.map(autoMessage => ({
+        id: autoMessage._id.toString(),
+        senderId: autoMessage.senderId.toString(),
+        receiverId: autoMessage.receiverId.toString(),
+        content: autoMessage.content,
+        sendDate: autoMessage.sendDate,
+        isSent: autoMessage.isSent,
+        createdAt: autoMessage.createdAt
+      }))
+    };
+  }
+  private async purgeUser(userId: Types.ObjectId): Promise<void> {
+    await Message.updateMany({ senderId: userId }, { $set: { content: DELETED_MESSAGE_PLACEHOLDER } });
+    await Conversation.updateMany(
+      { 'lastMessage.sender': userId },
+      { $set: { 'lastMessage.content': DELETED_MESSAGE_PLACEHOLDER } }
+    );
+    await Conversation.updateMany({ participants: userId }, { $pull: { participants: userId } });
+    await Conversation.updateMany({ type: CONVERSATION_TYPES.GROUP, createdBy: userId }, [
+      { $set: { createdBy: { $arrayElemAt: ['$participants', 0] } } }
+    ]);
+    await AutoMessage.deleteMany({ $or: [{ senderId: userId }, { receiverId: userId }] });
+    await RefreshToken.deleteMany({ userId });
+    await OneTimeToken.deleteMany({ userId });
+    await ApiKey.deleteMany({ userId });
+    await UserBlock.deleteMany({ $or: [{ blockerId: userId }, { blockedId: userId }] });
+    await ContactRequest.deleteMany({ $or: [{ requesterId: userId }, { recipientId: userId }] });
+    await UserPreferences.deleteOne({ userId });
+    const user = await User.findById(userId);
+    if (!user) {
+      return;
+    }
+    const { avatarKey } = user;
+    user.username = `deleted_${generateSecureToken(8)}`;
+    user.email = `deleted+${userId.toString()}@deleted.invalid`;
+    user.password = generateSecureToken(32);
+    user.isActive = false;
+    user.emailVerified = false;
+    user.twoFactorEnabled = false;
+    user.twoFactorRecoveryCodes = [];
+    user.identities = [];
+    user.roles = [];
+    user.permissions = [];
+    user.set('pendingEmail', undefined);
+    user.set('emailVerifiedAt', undefined);
+    user.set('twoFactorEnabledAt', undefined);
+    user.set('twoFactorSecret', undefined);
+    user.set('twoFactorPendingSecret', undefined);
+    user.set('twoFactorLastUsedStep', undefined);
+    user.set('deletionScheduledFor', undefined);
+    user.set('displayName', undefined);
+    user.set('bio', undefined);
+    user.set('avatarUrl', undefined);
+    user.set('avatarKey', undefined);
+    user.set('statusText', undefined);
+    user.set('statusExpiresAt', undefined);
+    user.deletedAt = new Date();
+    await user.save();
+    if (avatarKey) {
+      await storageService.delete(getAvatarKeys(avatarKey));
+    }
+    Logger.auth('Account deleted and anonymized', { userId: userId.toString() });
+  }
+  private async findConfirmedUser(
+    userId: string,
+    confirmation: AccountConfirmation,
+    auditType: AuditEventType,
+    context: SessionContext
+  ): Promise<IUser> {
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    const { password, confirmationToken } = confirmation;
+    if (confirmationToken) {
+      const consumedToken = await OneTimeToken.consume(confirmationToken, ONE_TIME_TOKEN_PURPOSES.ACCOUNT_CONFIRMATION);
+      if (!consumedToken || !consumedToken.userId.equals(user._id)) {
+        await this.rejectConfirmation(userId, 'INVALID_CONFIRMATION_TOKEN', auditType, context);
+        throw new AppError('Confirmation code is invalid or expired', 400, 'INVALID_CONFIRMATION_TOKEN');
+      }
+      return user;
+    }
+    if (!password || !(await user.comparePassword(password))) {
+      await this.rejectConfirmation(userId, 'INVALID_PASSWORD', auditType, context);
+      throw new AppError('Password is incorrect', 400, 'INVALID_PASSWORD');
+    }
+    return user;
+  }
+  private async rejectConfirmation(
+    userId: string,
+    reason: string,
+    auditType: AuditEventType,
+    context: SessionContext
+  ): Promise<void> {
+    Logger.security('Account change rejected - invalid confirmation', { userId, reason });
+    await auditLogService.record({
+      type: auditType,
+      outcome: AUDIT_OUTCOMES.FAILURE,
+      userId,
+      reason,
+      ip: context.ip,
+      userAgent: context.userAgent
+    });
+  }
+}
+export const accountService = new AccountService();
+export default accountService;
@@ -0,0 +1,107 @@
+import { ApiKeyService } from './api-key.service';
+import ApiKey from '../models/api-key.model';
+import User from '../models/user.model';
+import { API_KEY_SCOPES } from '../constants/api-key-scopes';
+import { config } from '../config/env';
+jest.mock('../utils/logger');
+describe('ApiKeyService', () => {
+  let apiKeyService: ApiKeyService;
+  let userId: string;
+  const createData = {
+    name: 'Deploy bot',
+    scopes: [API_KEY_SCOPES.MESSAGES_WRITE, API_KEY_SCOPES.CONVERSATIONS_READ]
+  };
+  beforeEach(async () => {
+    apiKeyService = new ApiKeyService();
+    const user = await User.create({
+      username: 'testuser',
+      email: 'test@example.com',
+      password: 'Password123'
+    });
+    userId = user._id.toString();
+  });
+  describe('createApiKey', () => {
+    it('should return the key once and store only its hash', async () => {
+      const { apiKey, key } = await apiKeyService.createApiKey(userId, createData);
+      expect(key.startsWith(`${apiKey.prefix}_`)).toBe(true);
+      expect(apiKey.prefix).toMatch(/^rtm_[0-9a-f]{16}$/);
+      expect(apiKey.scopes).toEqual(createData.scopes);
+      const stored = await ApiKey.findById(apiKey.id);
+      expect(stored!.keyHash).not.toContain(key);
+      expect(JSON.stringify(stored!.toObject())).not.toContain(key);
+    });
+    it('should set an expiry when requested', async () => {
+      const { apiKey } = await apiKeyService.createApiKey(userId, { ...createData, expiresInDays: 7 });
+      expect(apiKey.expiresAt!.getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000);
+    });
+    it('should enforce the per-user key limit', async () => {
+      const originalLimit = config.API_KEY_MAX_PER_USER;
+      config.API_KEY_MAX_PER_USER = 1;
+      try {
+        await apiKeyService.createApiKey(userId, createData);
+        await expect(apiKeyService.createApiKey(userId, createData)).rejects.toMatchObject({
+          statusCode: 400,
+          errorCode: 'API_KEY_LIMIT_REACHED'
+        });
+      } finally {
+        config.API_KEY_MAX_PER_USER = originalLimit;
+      }
+    });
+  });
+  describe('authenticate', () => {
+    it('should resolve the owner with the key scopes and no role permissions', async () => {
+      const { apiKey, key } = await apiKeyService.createApiKey(userId, createData);
+      const principal = await apiKeyService.authenticate(key, '10.0.0.1');
+      expect(principal).toMatchObject({
+        userId,
+        username: 'testuser',
+        apiKeyId: apiKey.id,
+        scopes: createData.scopes,
+        permissions: []
+      });
+      const [listed] = await apiKeyService.listApiKeys(userId);
+      expect(listed.lastUsedAt).toBeInstanceOf(Date);
+      expect(listed.lastUsedIp).toBe('10.0.0.1');
+    });
+    it('should expose the key expiry as the principal expiry', async () => {
+      const { apiKey, key } = await apiKeyService.createApiKey(userId, { ...createData, expiresInDays: 7 });
+      const principal = await apiKeyService.authenticate(key);
+      expect(principal.exp).toBe(Math.floor(apiKey.expiresAt!.getTime() / 1000));
+      const { key: permanentKey } = await apiKeyService.createApiKey(userId, createData);
+      expect((await apiKeyService.authenticate(permanentKey)).exp).toBeUndefined();
+    });
+    it('should reject a key with a valid prefix but wrong secret', async () => {
+      const { apiKey } = await apiKeyService.createApiKey(userId, createData);
+      await expect(apiKeyService.authenticate(`${apiKey.prefix}_${'0'.repeat(64)}`)).rejects.toMatchObject({
+        statusCode: 401,
+        errorCode: 'INVALID_API_KEY'
+      });
+    });
+    it('should reject revoked keys', async () => {
+      const { apiKey, key } = await apiKeyService.createApiKey(userId, createData);
+      await apiKeyService.revokeApiKey(userId, apiKey.id);
+      await expect(apiKeyService.authenticate(key)).rejects.toMatchObject({ errorCode: 'INVALID_API_KEY' });
+      await expect(apiKeyService.listApiKeys(userId)).resolves.toHaveLength(0);
+    });
+    it('should reject expired keys', async () => {
+      const { apiKey, key } = await apiKeyService.createApiKey(userId, createData);
+      await ApiKey.updateOne({ _id: apiKey.id }, { expiresAt: new Date(Date.now() - 1000) });
+      await expect(apiKeyService.authenticate(key)).rejects.toMatchObject({ errorCode: 'API_KEY_EXPIRED' });
+    });
+    it('should reject keys of deactivated users', async () => {
+      const { key } = await apiKeyService.createApiKey(userId, createData);
+      await User.updateOne({ _id: userId }, { isActive: false });
+      await expect(apiKeyService.authenticate(key)).rejects.toMatchObject({ errorCode: 'ACCOUNT_DISABLED' });
+    });
+  });
+  describe('revokeApiKey', () => {
+    it('should not revoke keys owned by another user', async () => {
+      const other = await User.create({ username: 'otheruser', email: 'other@example.com', password: 'Password123' });
+      const { apiKey } = await apiKeyService.createApiKey(userId, createData);
+      await expect(apiKeyService.revokeApiKey(other._id.toString(), apiKey.id)).rejects.toMatchObject({
+        statusCode: 404,
+        errorCode: 'API_KEY_NOT_FOUND'
+      });
+    });
+  });
+});
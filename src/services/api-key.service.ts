@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import ApiKey, { IApiKey } from '../models/api-key.model';
+import User from '../models/user.model';
+import { config } from '../config/env';
+import { API_KEY_PREFIX, ApiKeyScope } from '../constants/api-key-scopes';
+import { JWTPayload } from './auth.service';
+import { sessionService } from './session.service';
+import { AppError } from '../utils/app-error';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+import Logger from '../utils/logger';
+export interface CreateApiKeyData {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays?: number | undefined;
+}
+export interface ApiKeyListItem {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: Date;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+}
+export interface CreatedApiKey {
+  apiKey: ApiKeyListItem;
+  key: string;
+}
+export class ApiKeyService {
+  public async createApiKey(userId: string, data: CreateApiKeyData): Promise<CreatedApiKey> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const activeCount = await ApiKey.countDocuments(this.activeKeysQuery(userId));
+    if (activeCount >= config.API_KEY_MAX_PER_USER) {
+      throw new AppError(
+        `You can have at most ${config.API_KEY_MAX_PER_USER} active API keys`,
+        400,
+        'API_KEY_LIMIT_REACHED'
+      );
+    }
+    const prefix = `${API_KEY_PREFIX}_${generateSecureToken(8)}`;
+    const key = `${prefix}_${generateSecureToken(32)}`;
+    const apiKey = await ApiKey.create({
+      userId: new Types.ObjectId(userId),
+      name: data.name,
+      prefix,
+      keyHash: hashToken(key),
+      scopes: Array.from(new Set(data.scopes)),
+      ...(data.expiresInDays && {
+        expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000)
+      })
+    });
+    Logger.auth('API key created', { userId, apiKeyId: apiKey._id.toString(), prefix, scopes: apiKey.scopes });
+    return { apiKey: this.toListItem(apiKey), key };
+  }
+  public async listApiKeys(userId: string): Promise<ApiKeyListItem[]> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const apiKeys = await ApiKey.find(this.activeKeysQuery(userId)).sort({ createdAt: -1 });
+    return apiKeys.map((apiKey: IApiKey) => this.toListItem(apiKey));
+  }
+  public async revokeApiKey(userId: string, apiKeyId: string): Promise<void> {
+    if (!Types.ObjectId.isValid(apiKeyId)) {
+      throw new AppError('API key not found', 404, 'API_KEY_NOT_FOUND');
+    }
+    const apiKey = await ApiKey.findOneAndUpdate(
+      { _id: new Types.ObjectId(apiKeyId), userId: new Types.ObjectId(userId), revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+    if (!apiKey) {
+      throw new AppError('API key not found', 404, 'API_KEY_NOT_FOUND');
+    }
+    sessionService.disconnectApiKeySockets(userId, apiKeyId, 'API key revoked');
+    Logger.auth('API key revoked', { userId, apiKeyId, prefix: apiKey.prefix });
+  }
+  public async authenticate(key: string, ip?: string): Promise<JWTPayload> {
+    const prefix = key.split('_').slice(0, 2).join('_');
+    const apiKey = await ApiKey.findOne({ prefix, revokedAt: { $exists: false } });
+    if (!apiKey || !this.matchesHash(key, apiKey.keyHash)) {
+      Logger.security('Rejected invalid API key', { prefix, ip });
+      throw new AppError('Invalid API key', 401, 'INVALID_API_KEY');
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      throw new AppError('API key has expired', 401, 'API_KEY_EXPIRED');
+    }
+    const user = await User.findById(apiKey.userId).select('username email roles isActive');
+    if (!user || !user.isActive) {
+      Logger.security('Rejected API key for inactive account', { userId: apiKey.userId.toString(), prefix });
+      throw new AppError('Account is disabled', 401, 'ACCOUNT_DISABLED');
+    }
+    await this.recordUsage(apiKey, ip);
+    return {
+      userId: user._id.toString(),
+      email: user.email,
+      username: user.username,
+      roles: user.roles,
+      permissions: [],
+      apiKeyId: apiKey._id.toString(),
+      scopes: apiKey.scopes,
+      ...(apiKey.expiresAt && { exp: Math.floor(apiKey.expiresAt.getTime() / 1000) })
+    };
+  }
+  private async recordUsage(apiKey: IApiKey, ip?: string): Promise<void> {
+    const threshold = new Date(Date.now() - config.API_KEY_LAST_USED_UPDATE_INTERVAL_SECONDS * 1000);
+    if (apiKey.lastUsedAt && apiKey.lastUsedAt > threshold && apiKey.lastUsedIp === ip) {
+      return;
+    }
+    await ApiKey.updateOne(
+      { _id: apiKey._id },
+      { $set: { lastUsedAt: new Date(), ...(ip && { lastUsedIp: ip }) } }
+    );
+  }
+  private matchesHash(key: string, keyHash: string): boolean {
+    const actual = Buffer.from(hashToken(key), 'hex');
+    const expected = Buffer.from(keyHash, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+  private activeKeysQuery(userId: string) {
+    return {
+      userId: new Types.ObjectId(userId),
+      revokedAt: { $exists: false },
+      $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: new Date() } }]
+    };
+  }
+  private toListItem(apiKey: IApiKey): ApiKeyListItem {
+    return {
+      id: apiKey._id.toString(),
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      createdAt: apiKey.createdAt,
+      expiresAt: apiKey.expiresAt || null,
+      lastUsedAt: apiKey.lastUsedAt || null,
+      lastUsedIp: apiKey.lastUsedIp || null
+    };
+  }
+}
+export const apiKeyService = new ApiKeyService();
+export default apiKeyService;
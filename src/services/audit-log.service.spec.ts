@@ -0,0 +1,82 @@
+import { AuditLogService } from './audit-log.service';
+import { AuthService } from './auth.service';
+import AuditEvent from '../models/audit-event.model';
+import User from '../models/user.model';
+import { config } from '../config/env';
+import { AUDIT_EVENT_TYPES, AUDIT_OUTCOMES } from '../constants/audit-events';
+describe('AuditLogService', () => {
+  let auditLogService: AuditLogService;
+  let authService: AuthService;
+  let userId: string;
+  const credentials = { email: 'audited@example.com', password: 'Password123' };
+  const context = { ip: '203.0.113.7', userAgent: 'Mozilla/5.0 (X11; Linux x86_64)' };
+  beforeEach(async () => {
+    auditLogService = new AuditLogService();
+    authService = new AuthService();
+    await authService.register({ username: 'audited', ...credentials });
+    userId = (await User.findOne({ email: credentials.email }))!._id.toString();
+  });
+  describe('record', () => {
+    it('should persist events with an expiry matching the retention policy', async () => {
+      await auditLogService.record({
+        type: AUDIT_EVENT_TYPES.LOGOUT,
+        outcome: AUDIT_OUTCOMES.SUCCESS,
+        userId,
+        ...context
+      });
+      const event = await AuditEvent.findOne({ userId });
+      expect(event).toMatchObject({ type: 'logout', outcome: 'success', ip: context.ip });
+      const retentionMs = config.AUDIT_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+      expect(event!.expiresAt.getTime() - event!.createdAt.getTime()).toBeGreaterThanOrEqual(retentionMs - 1000);
+    });
+    it('should never throw when the event cannot be stored', async () => {
+      await expect(auditLogService.record({
+        type: AUDIT_EVENT_TYPES.LOGIN,
+        outcome: AUDIT_OUTCOMES.FAILURE,
+        userId: 'not-an-object-id'
+      })).resolves.toBeUndefined();
+    });
+  });
+  describe('authentication events', () => {
+    it('should record successful and failed logins with request details', async () => {
+      await authService.login(credentials, context);
+      await expect(authService.login({ ...credentials, password: 'WrongPassword1' }, context)).rejects.toThrow();
+      await expect(authService.login({ email: 'nobody@example.com', password: 'x' }, context)).rejects.toThrow();
+      const { events } = await auditLogService.query({ type: AUDIT_EVENT_TYPES.LOGIN });
+      expect(events).toHaveLength(3);
+      expect(events).toEqual(expect.arrayContaining([
+        expect.objectContaining({ userId, outcome: 'success', ip: context.ip, userAgent: context.userAgent }),
+        expect.objectContaining({ userId, outcome: 'failure' }),
+        expect.objectContaining({ userId: null, email: 'nobody@example.com', outcome: 'failure' })
+      ]));
+    });
+    it('should record password changes', async () => {
+      await authService.changePassword(userId, { currentPassword: credentials.password, newPassword: 'NewPassword456' }, undefined, context);
+      const { events } = await auditLogService.listForUser(userId);
+      expect(events[0]).toMatchObject({ type: 'password_change', outcome: 'success' });
+    });
+  });
+  describe('listForUser', () => {
+    it('should only return events for the given user, newest first', async () => {
+      const otherUser = await User.create({ username: 'other', email: 'other@example.com', password: 'Password123' });
+      await auditLogService.record({ type: AUDIT_EVENT_TYPES.LOGIN, outcome: AUDIT_OUTCOMES.SUCCESS, userId });
+      await auditLogService.record({ type: AUDIT_EVENT_TYPES.LOGOUT, outcome: AUDIT_OUTCOMES.SUCCESS, userId });
+      await auditLogService.record({ type: AUDIT_EVENT_TYPES.LOGIN, outcome: AUDIT_OUTCOMES.SUCCESS, userId: otherUser._id });
+      const { events, pagination } = await auditLogService.listForUser(userId, { limit: 1 });
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('logout');
+      expect(pagination).toMatchObject({ totalEvents: 2, totalPages: 2, hasNextPage: true });
+    });
+  });
+  describe('query', () => {
+    it('should filter by outcome, IP and time range', async () => {
+      await auditLogService.record({ type: AUDIT_EVENT_TYPES.LOGIN, outcome: AUDIT_OUTCOMES.FAILURE, ip: '198.51.100.1' });
+      await auditLogService.record({ type: AUDIT_EVENT_TYPES.LOGIN, outcome: AUDIT_OUTCOMES.SUCCESS, ip: '198.51.100.1' });
+      await auditLogService.record({ type: AUDIT_EVENT_TYPES.SOCKET_AUTH, outcome: AUDIT_OUTCOMES.FAILURE, ip: '198.51.100.2' });
+      const failures = await auditLogService.query({ outcome: AUDIT_OUTCOMES.FAILURE, ip: '198.51.100.1' });
+      expect(failures.events).toHaveLength(1);
+      const future = await auditLogService.query({ from: new Date(Date.now() + 60 * 1000) });
+      expect(future.events).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { FilterQuery, Types } from 'mongoose';
+import AuditEvent, { IAuditEvent } from '../models/audit-event.model';
+import { config } from '../config/env';
+import { AuditEventType, AuditOutcome } from '../constants/audit-events';
+import { AppError } from '../utils/app-error';
+import Logger from '../utils/logger';
+export interface AuditEventInput {
+  type: AuditEventType;
+  outcome: AuditOutcome;
+  userId?: string | Types.ObjectId | undefined;
+  impersonatorId?: string | Types.ObjectId | undefined;
+  email?: string | undefined;
+  reason?: string | undefined;
+  ip?: string | undefined;
+  userAgent?: string | undefined;
+  metadata?: Record<string, unknown> | undefined;
+}
+export interface AuditLogPage {
+  page?: number | undefined;
+  limit?: number | undefined;
+}
+export interface AuditLogQuery extends AuditLogPage {
+  userId?: string | undefined;
+  impersonatorId?: string | undefined;
+  email?: string | undefined;
+  type?: AuditEventType | undefined;
+  outcome?: AuditOutcome | undefined;
+  ip?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+}
+export interface AuditEventItem {
+  id: string;
+  userId: string | null;
+  impersonatorId: string | null;
+  email: string | null;
+  type: AuditEventType;
+  outcome: AuditOutcome;
+  reason: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: Date;
+}
+export interface AuditLogResponse {
+  events: AuditEventItem[];
+  pagination: {
+    currentPage: number;
+    totalPages: number;
+    totalEvents: number;
+    hasNextPage: boolean;
+    hasPrevPage: boolean;
+  };
+}
+export class AuditLogService {
+  public async record(event: AuditEventInput): Promise<void> {
+    try {
+      await AuditEvent.create({
+        ...event,
+        userAgent: event.userAgent?.slice(0, 500),
+        expiresAt: new Date(Date.now() + config.AUDIT_LOG_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+      });
+    } catch (error) {
+      Logger.error('Failed to record audit event', error as Error, {
+        type: event.type,
+        outcome: event.outcome,
+        ...(event.userId && { userId: event.userId.toString() })
+      });
+    }
+  }
+  public async listForUser(userId: string, page: AuditLogPage = {}): Promise<AuditLogResponse> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    return this.paginate({ userId: new Types.ObjectId(userId) }, page);
+  }
+  public async query(query: AuditLogQuery): Promise<AuditLogResponse> {
+    const filter: FilterQuery<IAuditEvent> = {};
+    if (query.userId) {
+      if (!Types.ObjectId.isValid(query.userId)) {
+        throw new AppError('Invalid user ID format', 400);
+      }
+      filter.userId = new Types.ObjectId(query.userId);
+    }
+    if (query.impersonatorId) {
+      if (!Types.ObjectId.isValid(query.impersonatorId)) {
+        throw new AppError('Invalid user ID format', 400);
+      }
+      filter.impersonatorId = new Types.ObjectId(query.impersonatorId);
+    }
+    if (query.email) filter.email = query.email.toLowerCase();
+    if (query.type) filter.type = query.type;
+    if (query.outcome) filter.outcome = query.outcome;
+    if (query.ip) filter.ip = query.ip;
+    if (query.from || query.to) {
+      filter.createdAt = {
+        ...(query.from && { $gte: query.from }),
+        ...(query.to && { $lte: query.to })
+      };
+    }
+    return this.paginate(filter, query);
+  }
+  private async paginate(filter: FilterQuery<IAuditEvent>, { page = 1, limit = 20 }: AuditLogPage): Promise<AuditLogResponse> {
+    const [events, totalEvents] = await Promise.all([
+      AuditEvent.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      AuditEvent.countDocuments(filter)
+    ]);
+    const totalPages = Math.ceil(totalEvents / limit);
+    return {
+      events: events.map(event => ({
+        id: event._id.toString(),
+        userId: event.userId?.toString() || null,
+        impersonatorId: event.impersonatorId?.toString() || null,
+        email: event.email || null,
+        type: event.type,
+        outcome: event.outcome,
+        reason: event.reason || null,
+        ip: event.ip || null,
+        userAgent: event.userAgent || null,
+        metadata: event.metadata || null,
+        createdAt: event.createdAt
+      })),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalEvents,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    };
+  }
+}
+export const auditLogService = new AuditLogService();
+export default auditLogService;
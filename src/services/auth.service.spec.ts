@@ -1,6 +1,12 @@
-import { AuthService } from './auth.service';
+import jwt from 'jsonwebtoken';
+import { AuthService, AuthTokens } from './auth.service';
 import User from '../models/user.model';
+import RefreshToken from '../models/refresh-token.model';
+import { mailService } from './mail.service';
+import { magicLinkService } from './magic-link.service';
+import { MailMessage } from '../types/mail.types';
 import { AppError } from '../utils/app-error';
+import { config } from '../config/env';
 describe('AuthService', () => {
   let authService: AuthService;
   beforeEach(() => {
@@ -100,7 +106,7 @@ describe('AuthService', () => {
       const result = await authService.login({
         email: validUserData.email,
         password: validUserData.password
-      });
+      }) as AuthTokens;
       expect(result).toHaveProperty('accessToken');
       expect(result).toHaveProperty('refreshToken');
       expect(typeof result.accessToken).toBe('string');
@@ -126,7 +132,7 @@ describe('AuthService', () => {
       const { accessToken } = await authService.login({
         email: validUserData.email,
         password: validUserData.password
-      });
+      }) as AuthTokens;
       const decoded = await authService.verifyAccessToken(accessToken);
       expect(decoded.email).toBe(validUserData.email);
       expect(decoded.username).toBe(validUserData.username);
@@ -174,6 +180,30 @@ describe('AuthService', () => {
         authService.refreshTokens({ refreshToken })
       ).rejects.toThrow(AppError);
     });
+    it('should store refresh tokens hashed', async () => {
+      const storedToken = await RefreshToken.findByToken(refreshToken);
+      expect(storedToken).toBeTruthy();
+      expect(storedToken?.tokenHash).not.toBe(refreshToken);
+      expect(storedToken?.revokedAt).toBeUndefined();
+    });
+    it('should rotate refresh token and keep the same family', async () => {
+      const result = await authService.refreshTokens({ refreshToken });
+      expect(result.refreshToken).not.toBe(refreshToken);
+      const oldToken = await RefreshToken.findByToken(refreshToken);
+      const newToken = await RefreshToken.findByToken(result.refreshToken);
+      expect(oldToken?.revokedAt).toBeInstanceOf(Date);
+      expect(oldToken?.replacedByHash).toBe(newToken?.tokenHash);
+      expect(newToken?.familyId).toBe(oldToken?.familyId);
+    });
+    it('should revoke the whole family when a rotated token is replayed', async () => {
+      const rotated = await authService.refreshTokens({ refreshToken });
+      await expect(
+        authService.refreshTokens({ refreshToken })
+      ).rejects.toMatchObject({ statusCode: 401, errorCode: 'REFRESH_TOKEN_REUSED' });
+      await expect(
+        authService.refreshTokens({ refreshToken: rotated.refreshToken })
+      ).rejects.toMatchObject({ statusCode: 401, errorCode: 'TOKEN_REVOKED' });
+    });
   });
   describe('updateProfile', () => {
     const validUserData = {
@@ -193,20 +223,22 @@ describe('AuthService', () => {
       expect(result.username).toBe('newusername');
       expect(result.email).toBe(validUserData.email);
     });
-    it('should successfully update email', async () => {
+    it('should keep the current email until the new one is verified', async () => {
       const updateData = { email: 'newemail@example.com' };
       const result = await authService.updateProfile(userId, updateData);
-      expect(result.email).toBe('newemail@example.com');
+      expect(result.email).toBe(validUserData.email);
+      expect(result.pendingEmail).toBe('newemail@example.com');
       expect(result.username).toBe(validUserData.username);
     });
-    it('should successfully update both username and email', async () => {
+    it('should successfully update username and request email change', async () => {
       const updateData = {
         username: 'newusername',
         email: 'newemail@example.com'
       };
       const result = await authService.updateProfile(userId, updateData);
       expect(result.username).toBe('newusername');
-      expect(result.email).toBe('newemail@example.com');
+      expect(result.email).toBe(validUserData.email);
+      expect(result.pendingEmail).toBe('newemail@example.com');
     });
     it('should throw error for duplicate email', async () => {
       await authService.register({
@@ -248,6 +280,27 @@ describe('AuthService', () => {
       expect(result.username).toBe(validUserData.username);
       expect(result.email).toBe(validUserData.email);
     });
+    it('should update and clear profile details', async () => {
+      const statusExpiresAt = new Date(Date.now() + 60 * 60 * 1000);
+      const result = await authService.updateProfile(userId, {
+        displayName: 'Test User',
+        bio: 'Hello there',
+        statusText: 'In a meeting',
+        statusExpiresAt
+      });
+      expect(result).toMatchObject({ displayName: 'Test User', bio: 'Hello there', statusText: 'In a meeting' });
+      expect(result.statusExpiresAt).toEqual(statusExpiresAt);
+      const cleared = await authService.updateProfile(userId, { bio: null, statusText: '' });
+      expect(cleared.displayName).toBe('Test User');
+      expect(cleared.bio).toBeUndefined();
+      expect(cleared.statusText).toBeUndefined();
+      expect(cleared.statusExpiresAt).toBeUndefined();
+    });
+    it('should reject a status expiry in the past', async () => {
+      await expect(
+        authService.updateProfile(userId, { statusText: 'Away', statusExpiresAt: new Date(Date.now() - 1000) })
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'VALIDATION_ERROR' });
+    });
   });
   describe('logout', () => {
     const validUserData = {
@@ -265,6 +318,18 @@ describe('AuthService', () => {
         authService.logout({ refreshToken })
       ).resolves.not.toThrow();
     });
+    it('should revoke refresh token on logout', async () => {
+      await authService.logout({ refreshToken });
+      await expect(
+        authService.refreshTokens({ refreshToken })
+      ).rejects.toMatchObject({ statusCode: 401, errorCode: 'TOKEN_REVOKED' });
+    });
+    it('should throw error when logging out twice with the same token', async () => {
+      await authService.logout({ refreshToken });
+      await expect(
+        authService.logout({ refreshToken })
+      ).rejects.toThrow(AppError);
+    });
     it('should throw error for invalid refresh token', async () => {
       await expect(
         authService.logout({ refreshToken: 'invalid-refresh-token' })
@@ -283,4 +348,370 @@ describe('AuthService', () => {
       ).rejects.toThrow(AppError);
     });
   });
+  describe('password reset', () => {
+    const validUserData = {
+      username: 'testuser',
+      email: 'test@example.com',
+      password: 'Password123'
+    };
+    let sentMessages: MailMessage[];
+    let refreshToken: string;
+    const extractResetToken = (message: MailMessage): string =>
+      message.text.match(/token=([a-f0-9]+)/)![1];
+    beforeEach(async () => {
+      sentMessages = [];
+      mailService.setTransport({
+        name: 'test',
+        send: async (message) => {
+          sentMessages.push(message);
+        }
+      });
+      const tokens = await authService.register(validUserData);
+      refreshToken = tokens.refreshToken;
+    });
+    it('should email a reset link to an existing user', async () => {
+      await authService.requestPasswordReset({ email: validUserData.email });
+      expect(sentMessages).toHaveLength(1);
+      expect(sentMessages[0].to).toBe(validUserData.email);
+      expect(extractResetToken(sentMessages[0])).toHaveLength(64);
+    });
+    it('should silently ignore unknown emails', async () => {
+      await expect(
+        authService.requestPasswordReset({ email: 'unknown@example.com' })
+      ).resolves.toBeUndefined();
+      expect(sentMessages).toHaveLength(0);
+    });
+    it('should reset the password and revoke existing sessions', async () => {
+      await authService.requestPasswordReset({ email: validUserData.email });
+      const token = extractResetToken(sentMessages[0]);
+      await authService.resetPassword({ token, password: 'NewPassword456' });
+      await expect(
+        authService.login({ email: validUserData.email, password: validUserData.password })
+      ).rejects.toThrow(AppError);
+      await expect(
+        authService.login({ email: validUserData.email, password: 'NewPassword456' })
+      ).resolves.toHaveProperty('accessToken');
+      await expect(
+        authService.refreshTokens({ refreshToken })
+      ).rejects.toMatchObject({ errorCode: 'TOKEN_REVOKED' });
+    });
+    it('should only allow a reset token to be used once', async () => {
+      await authService.requestPasswordReset({ email: validUserData.email });
+      const token = extractResetToken(sentMessages[0]);
+      await authService.resetPassword({ token, password: 'NewPassword456' });
+      await expect(
+        authService.resetPassword({ token, password: 'AnotherPassword789' })
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'INVALID_RESET_TOKEN' });
+    });
+    it('should keep the reset token usable when the new password is rejected', async () => {
+      await authService.requestPasswordReset({ email: validUserData.email });
+      const token = extractResetToken(sentMessages[0]);
+      await expect(
+        authService.resetPassword({ token, password: 'weak' })
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'WEAK_PASSWORD' });
+      await authService.resetPassword({ token, password: 'NewPassword456' });
+      await expect(
+        authService.login({ email: validUserData.email, password: 'NewPassword456' })
+      ).resolves.toHaveProperty('accessToken');
+    });
+    it('should invalidate earlier reset tokens when a new one is requested', async () => {
+      await authService.requestPasswordReset({ email: validUserData.email });
+      await authService.requestPasswordReset({ email: validUserData.email });
+      const firstToken = extractResetToken(sentMessages[0]);
+      await expect(
+        authService.resetPassword({ token: firstToken, password: 'NewPassword456' })
+      ).rejects.toMatchObject({ errorCode: 'INVALID_RESET_TOKEN' });
+    });
+  });
+  describe('changePassword', () => {
+    const validUserData = {
+      username: 'testuser',
+      email: 'test@example.com',
+      password: 'Password123'
+    };
+    let userId: string;
+    let currentSessionId: string;
+    let otherRefreshToken: string;
+    let currentRefreshToken: string;
+    beforeEach(async () => {
+      const otherTokens = await authService.register(validUserData);
+      otherRefreshToken = otherTokens.refreshToken;
+      const currentTokens = await authService.login({
+        email: validUserData.email,
+        password: validUserData.password
+      }) as AuthTokens;
+      currentRefreshToken = currentTokens.refreshToken;
+      const decoded = await authService.verifyAccessToken(currentTokens.accessToken);
+      userId = decoded.userId;
+      currentSessionId = decoded.sessionId!;
+    });
+    it('should change the password and revoke other sessions', async () => {
+      await authService.changePassword(userId, {
+        currentPassword: validUserData.password,
+        newPassword: 'NewPassword456'
+      }, currentSessionId);
+      await expect(
+        authService.login({ email: validUserData.email, password: 'NewPassword456' })
+      ).resolves.toHaveProperty('accessToken');
+      await expect(
+        authService.refreshTokens({ refreshToken: otherRefreshToken })
+      ).rejects.toMatchObject({ errorCode: 'TOKEN_REVOKED' });
+      await expect(
+        authService.refreshTokens({ refreshToken: currentRefreshToken })
+      ).resolves.toHaveProperty('accessToken');
+    });
+    it('should hash the new password through the model hook', async () => {
+      await authService.changePassword(userId, {
+        currentPassword: validUserData.password,
+        newPassword: 'NewPassword456'
+      }, currentSessionId);
+      const user = await User.findById(userId);
+      expect(user?.password).not.toBe('NewPassword456');
+      expect(await user?.comparePassword('NewPassword456')).toBe(true);
+    });
+    it('should reject an incorrect current password', async () => {
+      await expect(
+        authService.changePassword(userId, {
+          currentPassword: 'WrongPassword123',
+          newPassword: 'NewPassword456'
+        })
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'INVALID_CURRENT_PASSWORD' });
+    });
+    it('should reject reusing the current password', async () => {
+      await expect(
+        authService.changePassword(userId, {
+          currentPassword: validUserData.password,
+          newPassword: validUserData.password
+        })
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'PASSWORD_REUSED' });
+    });
+    it('should enforce the password policy', async () => {
+      await expect(
+        authService.changePassword(userId, {
+          currentPassword: validUserData.password,
+          newPassword: 'weakpass'
+        })
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'WEAK_PASSWORD' });
+    });
+  });
+  describe('email verification', () => {
+    const validUserData = {
+      username: 'testuser',
+      email: 'test@example.com',
+      password: 'Password123'
+    };
+    let sentMessages: MailMessage[];
+    let userId: string;
+    const extractVerificationToken = (message: MailMessage): string =>
+      message.text.match(/token=([a-f0-9]+)/)![1];
+    beforeEach(async () => {
+      sentMessages = [];
+      mailService.setTransport({
+        name: 'test',
+        send: async (message) => {
+          sentMessages.push(message);
+        }
+      });
+      await authService.register(validUserData);
+      const user = await User.findOne({ email: validUserData.email });
+      userId = user!._id.toString();
+    });
+    it('should send a verification email on registration', async () => {
+      const user = await User.findById(userId);
+      expect(user?.emailVerified).toBe(false);
+      expect(sentMessages).toHaveLength(1);
+      expect(sentMessages[0].to).toBe(validUserData.email);
+    });
+    it('should verify the email with a valid token', async () => {
+      const token = extractVerificationToken(sentMessages[0]);
+      const user = await authService.verifyEmail({ token });
+      expect(user.emailVerified).toBe(true);
+      expect(user.emailVerifiedAt).toBeInstanceOf(Date);
+      await expect(
+        authService.verifyEmail({ token })
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'INVALID_VERIFICATION_TOKEN' });
+    });
+    it('should grant the configured admin role only once the email is verified', async () => {
+      config.ADMIN_EMAILS.push('admin@example.com');
+      try {
+        await authService.register({ username: 'claimant', email: 'admin@example.com', password: 'Password123' });
+        expect((await User.findOne({ email: 'admin@example.com' }))!.roles).toEqual(['user']);
+        const user = await authService.verifyEmail({ token: extractVerificationToken(sentMessages[1]) });
+        expect(user.roles).toEqual(['user', 'admin']);
+      } finally {
+        config.ADMIN_EMAILS.pop();
+      }
+    });
+    it('should switch to the new email only after it is confirmed', async () => {
+      await authService.updateProfile(userId, { email: 'newemail@example.com' });
+      expect(sentMessages[1].to).toBe('newemail@example.com');
+      const user = await authService.verifyEmail({ token: extractVerificationToken(sentMessages[1]) });
+      expect(user.email).toBe('newemail@example.com');
+      expect(user.pendingEmail).toBeUndefined();
+      expect(user.emailVerified).toBe(true);
+    });
+    it('should reject a pending email claimed by another account before confirmation', async () => {
+      await authService.updateProfile(userId, { email: 'newemail@example.com' });
+      const token = extractVerificationToken(sentMessages[1]);
+      await authService.register({
+        username: 'anotheruser',
+        email: 'newemail@example.com',
+        password: 'Password123'
+      });
+      await expect(
+        authService.verifyEmail({ token })
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'DUPLICATE_EMAIL' });
+    });
+    it('should resend the verification email for unverified accounts', async () => {
+      await authService.resendVerificationEmail(userId);
+      expect(sentMessages).toHaveLength(2);
+      await expect(
+        authService.verifyEmail({ token: extractVerificationToken(sentMessages[0]) })
+      ).rejects.toMatchObject({ errorCode: 'INVALID_VERIFICATION_TOKEN' });
+      await expect(
+        authService.verifyEmail({ token: extractVerificationToken(sentMessages[1]) })
+      ).resolves.toHaveProperty('emailVerified', true);
+    });
+    it('should not resend when the email is already verified', async () => {
+      await authService.verifyEmail({ token: extractVerificationToken(sentMessages[0]) });
+      await expect(
+        authService.resendVerificationEmail(userId)
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'EMAIL_ALREADY_VERIFIED' });
+    });
+  });
+  describe('magic link', () => {
+    const validUserData = {
+      username: 'testuser',
+      email: 'test@example.com',
+      password: 'Password123'
+    };
+    let sentMessages: MailMessage[];
+    const extractMagicLinkToken = (message: MailMessage): string =>
+      message.text.match(/token=([\w.-]+)/)![1];
+    beforeEach(async () => {
+      sentMessages = [];
+      mailService.setTransport({
+        name: 'test',
+        send: async (message) => {
+          sentMessages.push(message);
+        }
+      });
+      const usedTokenIds = new Set<string>();
+      jest.spyOn(magicLinkService, 'assertAvailable').mockImplementation(() => undefined);
+      jest.spyOn(magicLinkService, 'markUsed').mockImplementation(async (jti: string) => {
+        if (usedTokenIds.has(jti)) {
+          return false;
+        }
+        usedTokenIds.add(jti);
+        return true;
+      });
+      await authService.register(validUserData);
+      sentMessages = [];
+    });
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+    it('should email a sign-in link and exchange it for tokens once', async () => {
+      await authService.requestMagicLink({ email: validUserData.email });
+      expect(sentMessages).toHaveLength(1);
+      expect(sentMessages[0].to).toBe(validUserData.email);
+      const token = extractMagicLinkToken(sentMessages[0]);
+      const result = await authService.loginWithMagicLink({ token }) as AuthTokens;
+      const decoded = await authService.verifyAccessToken(result.accessToken);
+      expect(decoded.email).toBe(validUserData.email);
+      const user = await User.findOne({ email: validUserData.email });
+      expect(user?.emailVerified).toBe(true);
+      await expect(authService.loginWithMagicLink({ token })).rejects.toMatchObject({
+        statusCode: 400,
+        errorCode: 'INVALID_MAGIC_LINK'
+      });
+    });
+    it('should silently ignore unknown emails', async () => {
+      await expect(authService.requestMagicLink({ email: 'unknown@example.com' })).resolves.toBeUndefined();
+      expect(sentMessages).toHaveLength(0);
+    });
+    it('should reject links issued before an email change', async () => {
+      await authService.requestMagicLink({ email: validUserData.email });
+      const token = extractMagicLinkToken(sentMessages[0]);
+      await User.updateOne({ email: validUserData.email }, { email: 'changed@example.com' });
+      await expect(authService.loginWithMagicLink({ token })).rejects.toMatchObject({
+        errorCode: 'INVALID_MAGIC_LINK'
+      });
+    });
+    it('should refuse tampered links', async () => {
+      await authService.requestMagicLink({ email: validUserData.email });
+      const token = extractMagicLinkToken(sentMessages[0]);
+      await expect(authService.loginWithMagicLink({ token: `${token}x` })).rejects.toMatchObject({
+        errorCode: 'INVALID_MAGIC_LINK'
+      });
+    });
+  });
+  describe('verifyAccessToken', () => {
+    const payload = { userId: 'user123', email: 'test@example.com', username: 'testuser' };
+    it('should sign access tokens asymmetrically with a key id', async () => {
+      const { accessToken } = await authService.register({
+        username: 'testuser',
+        email: 'test@example.com',
+        password: 'Password123'
+      });
+      const { header } = jwt.decode(accessToken, { complete: true })!;
+      expect(header.alg).toBe(config.JWT_SIGNING_ALGORITHM);
+      expect(header.kid).toBeDefined();
+      await expect(authService.verifyAccessToken(accessToken)).resolves.toHaveProperty('email', 'test@example.com');
+    });
+    it('should reject legacy HS256 tokens unless explicitly enabled', async () => {
+      const user = await User.create({ username: 'testuser', email: 'test@example.com', password: 'Password123' });
+      const userId = user._id.toString();
+      const legacyToken = jwt.sign({ ...payload, userId }, process.env.JWT_SECRET || 'your-secret-key', { expiresIn: '15m' });
+      await expect(authService.verifyAccessToken(legacyToken)).rejects.toMatchObject({ statusCode: 401 });
+      config.JWT_ACCEPT_LEGACY_HS256 = true;
+      try {
+        await expect(authService.verifyAccessToken(legacyToken)).resolves.toHaveProperty('userId', userId);
+      } finally {
+        config.JWT_ACCEPT_LEGACY_HS256 = false;
+      }
+    });
+    it('should include a unique token id in access tokens', async () => {
+      const { accessToken } = await authService.register({
+        username: 'testuser',
+        email: 'test@example.com',
+        password: 'Password123'
+      });
+      const decoded = await authService.verifyAccessToken(accessToken);
+      expect(decoded.jti).toEqual(expect.any(String));
+    });
+    it('should reject access tokens of deactivated users immediately', async () => {
+      const { accessToken } = await authService.register({
+        username: 'testuser',
+        email: 'test@example.com',
+        password: 'Password123'
+      });
+      await User.updateOne({ email: 'test@example.com' }, { isActive: false });
+      await expect(authService.verifyAccessToken(accessToken)).rejects.toMatchObject({
+        statusCode: 401,
+        errorCode: 'ACCOUNT_DISABLED'
+      });
+    });
+    it('should reject access tokens of deleted users', async () => {
+      const { accessToken } = await authService.register({
+        username: 'testuser',
+        email: 'test@example.com',
+        password: 'Password123'
+      });
+      await User.deleteOne({ email: 'test@example.com' });
+      await expect(authService.verifyAccessToken(accessToken)).rejects.toMatchObject({
+        errorCode: 'ACCOUNT_DISABLED'
+      });
+    });
+    it('should reject HS256 tokens forged with a public key as the secret', async () => {
+      const { accessToken } = await authService.register({
+        username: 'testuser',
+        email: 'test@example.com',
+        password: 'Password123'
+      });
+      const { kid } = jwt.decode(accessToken, { complete: true })!.header;
+      const forged = jwt.sign(payload, 'not-the-secret', { keyid: kid });
+      await expect(authService.verifyAccessToken(forged)).rejects.toMatchObject({ statusCode: 401 });
+    });
+  });
 });
@@ -1,6 +1,31 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
 import User, { IUser } from '../models/user.model';
+import RefreshToken from '../models/refresh-token.model';
+import OneTimeToken, { ONE_TIME_TOKEN_PURPOSES } from '../models/one-time-token.model';
+import { config } from '../config/env';
+import { mailService } from './mail.service';
+import { sessionService } from './session.service';
+import { twoFactorService } from './two-factor.service';
+import { loginProtectionService } from './login-protection.service';
+import { keyRingService } from './key-ring.service';
+import { tokenRevocationService } from './token-revocation.service';
+import { oidcService, OidcAuthorizationRequest, OidcIdentity } from './oidc.service';
+import { magicLinkService } from './magic-link.service';
+import { accountService } from './account.service';
+import { auditLogService, AuditEventInput } from './audit-log.service';
+import { impersonationService } from './impersonation.service';
+import { UserService } from './user.service';
+import { storageService } from './storage.service';
+import { ROLES, Role, Permission, resolvePermissions } from '../constants/roles';
+import { ApiKeyScope } from '../constants/api-key-scopes';
+import { getAvatarKeys } from '../constants/avatars';
+import { AUDIT_EVENT_TYPES, AUDIT_OUTCOMES, AuditEventType, AuditOutcome } from '../constants/audit-events';
 import { AppError } from '../utils/app-error';
+import { assertPasswordPolicy } from '../utils/password-policy';
+import { generateSecureToken } from '../utils/crypto';
 import Logger from '../utils/logger';
 export interface RegisterData {
   username: string;
@@ -17,31 +42,105 @@ export interface RefreshTokenData {
 export interface UpdateProfileData {
   username?: string;
   email?: string;
+  displayName?: string | null;
+  bio?: string | null;
+  avatarUrl?: string | null;
+  statusText?: string | null;
+  statusExpiresAt?: Date | null;
 }
 export interface LogoutData {
   refreshToken: string;
 }
+export interface ForgotPasswordData {
+  email: string;
+}
+export interface ResetPasswordData {
+  token: string;
+  password: string;
+}
+export interface VerifyEmailData {
+  token: string;
+}
+export interface ChangePasswordData {
+  currentPassword: string;
+  newPassword: string;
+}
+export interface TwoFactorLoginData {
+  challengeToken: string;
+  code: string;
+}
+export interface MagicLinkRequestData {
+  email: string;
+}
+export interface MagicLinkLoginData {
+  token: string;
+}
+export interface OidcLoginData {
+  provider: string;
+  code: string;
+  state: string;
+}
 export interface AuthTokens {
   accessToken: string;
   refreshToken: string;
 }
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+export type LoginResult = AuthTokens | TwoFactorChallenge;
+export interface SessionContext {
+  userAgent?: string | undefined;
+  ip?: string | undefined;
+  deviceLabel?: string | undefined;
+}
 export interface JWTPayload {
   userId: string;
   email: string;
   username: string;
+  sessionId?: string;
+  roles?: Role[];
+  permissions?: Permission[];
+  jti?: string;
+  iat?: number;
+  exp?: number;
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[];
+  impersonatorId?: string;
+}
+export interface RefreshTokenPayload extends JWTPayload {
+  familyId: string;
+}
+const TWO_FACTOR_CHALLENGE_PURPOSE = 'two_factor_challenge';
+const PROFILE_FIELDS = ['displayName', 'bio', 'avatarUrl', 'statusText', 'statusExpiresAt'] as const;
+interface TwoFactorChallengePayload {
+  userId: string;
+  purpose: typeof TWO_FACTOR_CHALLENGE_PURPOSE;
+  reactivate?: boolean;
+  jti?: string;
+}
+interface SessionDetails {
+  familyId: string;
+  deviceLabel: string;
+  userAgent?: string | undefined;
+  ip?: string | undefined;
+  sessionCreatedAt: Date;
 }
 export class AuthService {
   private readonly JWT_SECRET: string;
   private readonly JWT_REFRESH_SECRET: string;
   private readonly JWT_EXPIRES_IN: string;
   private readonly JWT_REFRESH_EXPIRES_IN: string;
+  private readonly userService: UserService;
   constructor() {
     this.JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
     this.JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key';
     this.JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '15m';
     this.JWT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d';
+    this.userService = new UserService();
   }
-  async register(registerData: RegisterData): Promise<AuthTokens> {
+  async register(registerData: RegisterData, context: SessionContext = {}): Promise<AuthTokens> {
     const { username, email, password } = registerData;
     Logger.auth('User registration attempt', { email, username });
     try {
@@ -58,10 +157,18 @@ export class AuthService {
       const newUser = new User({
         username,
         email,
-        password
+        password,
+        roles: [ROLES.USER]
       });
       const savedUser = await newUser.save();
-      const tokens = this.generateTokens(savedUser);
+      const tokens = await this.generateTokens(savedUser, this.createSessionDetails(context));
+      try {
+        await this.sendVerificationEmail(savedUser, savedUser.email);
+      } catch (mailError) {
+        Logger.error('Failed to send verification email after registration', mailError as Error, {
+          userId: savedUser._id.toString()
+        });
+      }
       Logger.auth('User registration successful', {
         userId: savedUser._id.toString(),
         email: savedUser.email,
@@ -80,54 +187,143 @@ export class AuthService {
       throw new AppError('Registration failed', 500);
     }
   }
-  private generateTokens(user: IUser): AuthTokens {
+  private createSessionDetails(context: SessionContext): SessionDetails {
+    return {
+      familyId: uuidv4(),
+      deviceLabel: context.deviceLabel || this.describeDevice(context.userAgent),
+      userAgent: context.userAgent,
+      ip: context.ip,
+      sessionCreatedAt: new Date()
+    };
+  }
+  private describeDevice(userAgent?: string): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+    const platforms: Array<[RegExp, string]> = [
+      [/iPhone|iPad|iPod/i, 'iOS device'],
+      [/Android/i, 'Android device'],
+      [/Windows/i, 'Windows computer'],
+      [/Macintosh|Mac OS X/i, 'Mac'],
+      [/Linux/i, 'Linux computer']
+    ];
+    const match = platforms.find(([pattern]) => pattern.test(userAgent));
+    return match ? match[1] : 'Unknown device';
+  }
+  private async generateTokens(user: IUser, session: SessionDetails): Promise<AuthTokens> {
+    const { familyId } = session;
     const payload: JWTPayload = {
       userId: user._id.toString(),
       email: user.email,
-      username: user.username
+      username: user.username,
+      sessionId: familyId,
+      roles: user.roles,
+      permissions: resolvePermissions(user.roles, user.permissions)
     };
-    const accessToken = jwt.sign(payload, this.JWT_SECRET, {
-      expiresIn: this.JWT_EXPIRES_IN
+    const accessToken = keyRingService.sign(payload, {
+      expiresIn: this.JWT_EXPIRES_IN,
+      jwtid: uuidv4()
     } as jwt.SignOptions);
-    const refreshToken = jwt.sign(payload, this.JWT_REFRESH_SECRET, {
-      expiresIn: this.JWT_REFRESH_EXPIRES_IN
+    const refreshPayload: RefreshTokenPayload = { ...payload, familyId };
+    const refreshToken = jwt.sign(refreshPayload, this.JWT_REFRESH_SECRET, {
+      expiresIn: this.JWT_REFRESH_EXPIRES_IN,
+      jwtid: uuidv4()
     } as jwt.SignOptions);
+    const { exp } = jwt.decode(refreshToken) as { exp: number };
+    await RefreshToken.create({
+      userId: user._id,
+      tokenHash: RefreshToken.hashToken(refreshToken),
+      familyId,
+      expiresAt: new Date(exp * 1000),
+      deviceLabel: session.deviceLabel,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      sessionCreatedAt: session.sessionCreatedAt
+    });
     return {
       accessToken,
       refreshToken
     };
   }
   async verifyAccessToken(token: string): Promise<JWTPayload> {
+    const decoded = this.verifyAccessTokenSignature(token);
+    if (await tokenRevocationService.isRevoked(decoded)) {
+      Logger.security('Rejected revoked access token', {
+        userId: decoded.userId,
+        sessionId: decoded.sessionId,
+        jti: decoded.jti
+      });
+      throw new AppError('Access token has been revoked', 401, 'TOKEN_REVOKED');
+    }
+    const user = Types.ObjectId.isValid(decoded.userId)
+      ? await User.findById(decoded.userId).select('isActive')
+      : null;
+    if (!user || !user.isActive) {
+      Logger.security('Rejected access token for inactive account', { userId: decoded.userId });
+      throw new AppError('Account is disabled', 401, 'ACCOUNT_DISABLED');
+    }
+    if (decoded.impersonatorId) {
+      await impersonationService.assertImpersonatorAllowed(decoded.impersonatorId);
+    }
+    return decoded;
+  }
+  private verifyAccessTokenSignature(token: string): JWTPayload {
     try {
-      const decoded = jwt.verify(token, this.JWT_SECRET) as JWTPayload;
-      return decoded;
+      const header = jwt.decode(token, { complete: true })?.header;
+      if (header?.alg === 'HS256' && config.JWT_ACCEPT_LEGACY_HS256) {
+        return jwt.verify(token, this.JWT_SECRET, { algorithms: ['HS256'] }) as JWTPayload;
+      }
+      return keyRingService.verify<JWTPayload>(token);
     } catch (error) {
       throw new AppError('Invalid or expired token', 401);
     }
   }
-  async verifyRefreshToken(token: string): Promise<JWTPayload> {
+  async verifyRefreshToken(token: string): Promise<RefreshTokenPayload> {
     try {
-      const decoded = jwt.verify(token, this.JWT_REFRESH_SECRET) as JWTPayload;
+      const decoded = jwt.verify(token, this.JWT_REFRESH_SECRET) as RefreshTokenPayload;
       return decoded;
     } catch (error) {
       throw new AppError('Invalid or expired refresh token', 401);
     }
   }
-  async login(loginData: LoginData): Promise<AuthTokens> {
+  async login(loginData: LoginData, context: SessionContext = {}): Promise<LoginResult> {
     const { email, password } = loginData;
+    const attempt = { email, ip: context.ip };
+    let userId: string | undefined;
     Logger.auth('User login attempt', { email });
     try {
+      await loginProtectionService.assertLoginAllowed(attempt);
       const user = await User.findOne({ email });
+      userId = user?._id.toString();
       if (!user) {
         Logger.security('Login failed - user not found', { email });
+        await loginProtectionService.recordFailure(attempt, 'unknown_email');
         throw new AppError('Invalid email or password', 401);
       }
       const isPasswordValid = await user.comparePassword(password);
       if (!isPasswordValid) {
         Logger.security('Login failed - invalid password', { email, userId: user._id.toString() });
+        await loginProtectionService.recordFailure(attempt, 'invalid_password');
         throw new AppError('Invalid email or password', 401);
       }
-      const tokens = this.generateTokens(user);
+      if (!user.isActive) {
+        Logger.security('Login rejected - account inactive', { userId: user._id.toString() });
+        if (user.deactivatedAt) {
+          throw new AppError('Account is deactivated', 403, 'ACCOUNT_DEACTIVATED');
+        }
+        throw new AppError('Account is disabled', 403, 'ACCOUNT_DISABLED');
+      }
+      if (user.twoFactorEnabled) {
+        Logger.auth('Password verified - two-factor challenge issued', { userId: user._id.toString() });
+        return this.createTwoFactorChallenge(user);
+      }
+      const tokens = await this.generateTokens(user, this.createSessionDetails(context));
+      await loginProtectionService.recordSuccess(attempt);
+      await this.audit(AUDIT_EVENT_TYPES.LOGIN, AUDIT_OUTCOMES.SUCCESS, context, {
+        userId,
+        email,
+        metadata: { method: 'password' }
+      });
       Logger.auth('User login successful', {
         userId: user._id.toString(),
         email: user.email,
@@ -135,6 +331,12 @@ export class AuthService {
       });
       return tokens;
     } catch (error) {
+      await this.audit(AUDIT_EVENT_TYPES.LOGIN, AUDIT_OUTCOMES.FAILURE, context, {
+        userId,
+        email,
+        metadata: { method: 'password' },
+        reason: this.auditFailureReason(error)
+      });
       if (error instanceof AppError) {
         throw error;
       }
@@ -142,17 +344,363 @@ export class AuthService {
       throw new AppError('Login failed', 500);
     }
   }
-  async refreshTokens(refreshTokenData: RefreshTokenData): Promise<AuthTokens> {
+  async reactivateAccount(loginData: LoginData, context: SessionContext = {}): Promise<LoginResult> {
+    const { email, password } = loginData;
+    const attempt = { email, ip: context.ip };
+    let userId: string | undefined;
+    try {
+      await loginProtectionService.assertLoginAllowed(attempt);
+      const user = await User.findOne({ email });
+      userId = user?._id.toString();
+      if (!user || !(await user.comparePassword(password))) {
+        Logger.security('Account reactivation failed - invalid credentials', { email });
+        await loginProtectionService.recordFailure(attempt, user ? 'invalid_password' : 'unknown_email');
+        throw new AppError('Invalid email or password', 401);
+      }
+      if (user.twoFactorEnabled) {
+        accountService.assertCanReactivate(user);
+        Logger.auth('Account reactivation verified - two-factor challenge issued', { userId: user._id.toString() });
+        return this.createTwoFactorChallenge(user, true);
+      }
+      await accountService.reactivate(user);
+      await loginProtectionService.recordSuccess(attempt);
+      await this.audit(AUDIT_EVENT_TYPES.ACCOUNT_REACTIVATE, AUDIT_OUTCOMES.SUCCESS, context, { userId, email });
+      return await this.generateTokens(user, this.createSessionDetails(context));
+    } catch (error) {
+      await this.audit(AUDIT_EVENT_TYPES.ACCOUNT_REACTIVATE, AUDIT_OUTCOMES.FAILURE, context, {
+        userId,
+        email,
+        reason: this.auditFailureReason(error)
+      });
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('Account reactivation error', error as Error, { email });
+      throw new AppError('Account reactivation failed', 500);
+    }
+  }
+  private async createTwoFactorChallenge(user: IUser, reactivate: boolean = false): Promise<TwoFactorChallenge> {
+    const payload: TwoFactorChallengePayload = {
+      userId: user._id.toString(),
+      purpose: TWO_FACTOR_CHALLENGE_PURPOSE,
+      ...(reactivate && { reactivate: true })
+    };
+    const expiresIn = config.TWO_FACTOR_CHALLENGE_TTL_SECONDS;
+    const challengeId = await OneTimeToken.issue(
+      user._id,
+      ONE_TIME_TOKEN_PURPOSES.TWO_FACTOR_CHALLENGE,
+      expiresIn * 1000
+    );
+    const challengeToken = jwt.sign(payload, config.TWO_FACTOR_CHALLENGE_SECRET, {
+      expiresIn,
+      jwtid: challengeId
+    } as jwt.SignOptions);
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      expiresIn
+    };
+  }
+  async completeTwoFactorLogin(
+    twoFactorLoginData: TwoFactorLoginData,
+    context: SessionContext = {}
+  ): Promise<AuthTokens> {
+    const { challengeToken, code } = twoFactorLoginData;
+    let userId: string | undefined;
+    try {
+      let challenge: TwoFactorChallengePayload;
+      try {
+        challenge = jwt.verify(challengeToken, config.TWO_FACTOR_CHALLENGE_SECRET, {
+          algorithms: ['HS256']
+        }) as TwoFactorChallengePayload;
+      } catch (error) {
+        throw new AppError('Invalid or expired two-factor challenge', 401, 'INVALID_TWO_FACTOR_CHALLENGE');
+      }
+      if (challenge.purpose !== TWO_FACTOR_CHALLENGE_PURPOSE || !challenge.jti) {
+        throw new AppError('Invalid or expired two-factor challenge', 401, 'INVALID_TWO_FACTOR_CHALLENGE');
+      }
+      userId = challenge.userId;
+      const user = await User.findById(challenge.userId);
+      if (!user || !user.twoFactorEnabled || (!user.isActive && !challenge.reactivate)) {
+        throw new AppError('Invalid or expired two-factor challenge', 401, 'INVALID_TWO_FACTOR_CHALLENGE');
+      }
+      const attempt = { email: user.email, ip: context.ip };
+      await loginProtectionService.assertLoginAllowed(attempt);
+      const isCodeValid = await twoFactorService.verifyCode(user, code);
+      if (!isCodeValid) {
+        Logger.security('Login failed - invalid two-factor code', { userId: user._id.toString() });
+        await loginProtectionService.recordFailure(attempt, 'invalid_two_factor_code');
+        throw new AppError('Invalid two-factor authentication code', 401, 'INVALID_TWO_FACTOR_CODE');
+      }
+      const consumedChallenge = await OneTimeToken.consume(challenge.jti, ONE_TIME_TOKEN_PURPOSES.TWO_FACTOR_CHALLENGE);
+      if (!consumedChallenge || !consumedChallenge.userId.equals(user._id)) {
+        Logger.security('Two-factor challenge reuse attempt', { userId: user._id.toString() });
+        throw new AppError('Invalid or expired two-factor challenge', 401, 'INVALID_TWO_FACTOR_CHALLENGE');
+      }
+      if (challenge.reactivate) {
+        await accountService.reactivate(user);
+        await this.audit(AUDIT_EVENT_TYPES.ACCOUNT_REACTIVATE, AUDIT_OUTCOMES.SUCCESS, context, {
+          userId,
+          email: user.email,
+          metadata: { method: 'two_factor' }
+        });
+      }
+      const tokens = await this.generateTokens(user, this.createSessionDetails(context));
+      await loginProtectionService.recordSuccess(attempt);
+      await this.audit(AUDIT_EVENT_TYPES.LOGIN, AUDIT_OUTCOMES.SUCCESS, context, {
+        userId,
+        email: user.email,
+        metadata: { method: 'two_factor' }
+      });
+      Logger.auth('User login successful', {
+        userId: user._id.toString(),
+        email: user.email,
+        username: user.username,
+        twoFactor: true
+      });
+      return tokens;
+    } catch (error) {
+      await this.audit(AUDIT_EVENT_TYPES.LOGIN, AUDIT_OUTCOMES.FAILURE, context, {
+        userId,
+        metadata: { method: 'two_factor' },
+        reason: this.auditFailureReason(error)
+      });
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('Two-factor login error', error as Error);
+      throw new AppError('Login failed', 500);
+    }
+  }
+  async requestMagicLink(magicLinkRequestData: MagicLinkRequestData): Promise<void> {
+    const { email } = magicLinkRequestData;
+    Logger.auth('Magic link requested', { email });
+    try {
+      magicLinkService.assertAvailable();
+      const user = await User.findOne({ email });
+      if (!user || !user.isActive) {
+        Logger.security('Magic link requested for unknown or inactive account', { email });
+        return;
+      }
+      const token = magicLinkService.issue(user);
+      const ttlMinutes = Math.ceil(config.MAGIC_LINK_TTL_SECONDS / 60);
+      await mailService.send({
+        to: user.email,
+        subject: 'Your sign-in link',
+        text: [
+          `Hi ${user.username},`,
+          '',
+          'Use the link below to sign in. No password needed:',
+          `${config.APP_BASE_URL}/magic-link?token=${token}`,
+          '',
+          `This link expires in ${ttlMinutes} minutes and can only be used once.`,
+          'If you did not request this link, you can ignore this email.'
+        ].join('\n')
+      });
+      Logger.auth('Magic link email sent', { userId: user._id.toString() });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('Magic link request error', error as Error, { email });
+      throw new AppError('Magic link request failed', 500);
+    }
+  }
+  async loginWithMagicLink(magicLinkLoginData: MagicLinkLoginData, context: SessionContext = {}): Promise<LoginResult> {
+    let userId: string | undefined;
+    try {
+      const payload = await magicLinkService.consume(magicLinkLoginData.token);
+      userId = payload.userId;
+      const user = await User.findById(payload.userId);
+      if (!user || user.email !== payload.email) {
+        throw new AppError('Invalid or expired magic link', 400, 'INVALID_MAGIC_LINK');
+      }
+      if (!user.isActive) {
+        throw new AppError('Account is disabled', 403, 'ACCOUNT_DISABLED');
+      }
+      if (!user.emailVerified) {
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+        await user.save();
+      }
+      if (user.twoFactorEnabled) {
+        Logger.auth('Magic link verified - two-factor challenge issued', { userId: user._id.toString() });
+        return this.createTwoFactorChallenge(user);
+      }
+      const tokens = await this.generateTokens(user, this.createSessionDetails(context));
+      await this.audit(AUDIT_EVENT_TYPES.LOGIN, AUDIT_OUTCOMES.SUCCESS, context, {
+        userId,
+        email: user.email,
+        metadata: { method: 'magic_link' }
+      });
+      Logger.auth('User login successful', {
+        userId: user._id.toString(),
+        email: user.email,
+        username: user.username,
+        magicLink: true
+      });
+      return tokens;
+    } catch (error) {
+      await this.audit(AUDIT_EVENT_TYPES.LOGIN, AUDIT_OUTCOMES.FAILURE, context, {
+        userId,
+        metadata: { method: 'magic_link' },
+        reason: this.auditFailureReason(error)
+      });
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('Magic link login error', error as Error);
+      throw new AppError('Login failed', 500);
+    }
+  }
+  async beginOidcLogin(provider: string): Promise<OidcAuthorizationRequest> {
+    return oidcService.createAuthorizationRequest(provider);
+  }
+  async completeOidcLogin(oidcLoginData: OidcLoginData, context: SessionContext = {}): Promise<LoginResult> {
+    const { provider, code, state } = oidcLoginData;
+    let userId: string | undefined;
+    try {
+      const identity = await oidcService.completeAuthorization(provider, code, state);
+      const user = await this.findOrCreateOidcUser(identity);
+      userId = user._id.toString();
+      if (!user.isActive) {
+        Logger.security('OIDC login rejected - account disabled', { userId: user._id.toString(), provider });
+        throw new AppError('Account is disabled', 403, 'ACCOUNT_DISABLED');
+      }
+      if (user.twoFactorEnabled) {
+        Logger.auth('OIDC login verified - two-factor challenge issued', { userId: user._id.toString(), provider });
+        return this.createTwoFactorChallenge(user);
+      }
+      const tokens = await this.generateTokens(user, this.createSessionDetails(context));
+      await this.audit(AUDIT_EVENT_TYPES.LOGIN, AUDIT_OUTCOMES.SUCCESS, context, {
+        userId,
+        email: user.email,
+        metadata: { method: 'oidc', provider }
+      });
+      Logger.auth('User login successful', {
+        userId: user._id.toString(),
+        email: user.email,
+        username: user.username,
+        provider
+      });
+      return tokens;
+    } catch (error) {
+      await this.audit(AUDIT_EVENT_TYPES.LOGIN, AUDIT_OUTCOMES.FAILURE, context, {
+        userId,
+        metadata: { method: 'oidc', provider },
+        reason: this.auditFailureReason(error)
+      });
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('OIDC login error', error as Error, { provider });
+      throw new AppError('Login failed', 500);
+    }
+  }
+  private async findOrCreateOidcUser(identity: OidcIdentity): Promise<IUser> {
+    const { provider, subject, email } = identity;
+    const linkedUser = await User.findOne({ identities: { $elemMatch: { provider, subject } } });
+    if (linkedUser) {
+      return linkedUser;
+    }
+    if (!email || !identity.emailVerified) {
+      Logger.security('OIDC login rejected - email not verified by provider', { provider, subject });
+      throw new AppError('Your identity provider did not supply a verified email address', 403, 'OIDC_EMAIL_NOT_VERIFIED');
+    }
+    const linkedIdentity = { provider, subject, email, linkedAt: new Date() };
+    const existingUser = await User.findOne({ email });
+    if (existingUser) {
+      if (!existingUser.emailVerified) {
+        Logger.security('OIDC link rejected - local account email not verified', {
+          userId: existingUser._id.toString(),
+          provider
+        });
+        throw new AppError(
+          'Verify the email address of your existing account before signing in with this provider',
+          403,
+          'EMAIL_NOT_VERIFIED'
+        );
+      }
+      existingUser.identities.push(linkedIdentity);
+      await existingUser.save();
+      Logger.auth('OIDC identity linked to existing user', { userId: existingUser._id.toString(), provider });
+      return existingUser;
+    }
+    if (!oidcService.getProvider(provider).allowSignup) {
+      throw new AppError('Sign-up through this identity provider is disabled', 403, 'OIDC_SIGNUP_DISABLED');
+    }
+    const newUser = new User({
+      username: await this.generateAvailableUsername(identity.preferredUsername || email.split('@')[0]),
+      email,
+      password: generateSecureToken(32),
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
+      identities: [linkedIdentity],
+      roles: [ROLES.USER]
+    });
+    this.userService.applyConfiguredAdminRole(newUser);
+    await newUser.save();
+    Logger.auth('User created from OIDC identity', { userId: newUser._id.toString(), provider });
+    return newUser;
+  }
+  private async generateAvailableUsername(preferred: string): Promise<string> {
+    const base = preferred.replace(/[^a-zA-Z0-9_]/g, '_').slice(0, 24).padEnd(3, '_');
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const candidate = attempt === 0 ? base : `${base}_${crypto.randomInt(1000, 100000)}`;
+      if (!(await User.exists({ username: candidate }))) {
+        return candidate;
+      }
+    }
+    return `user_${generateSecureToken(6)}`;
+  }
+  async refreshTokens(refreshTokenData: RefreshTokenData, context: SessionContext = {}): Promise<AuthTokens> {
     const { refreshToken } = refreshTokenData;
+    let userId: string | undefined;
     try {
       const decoded = await this.verifyRefreshToken(refreshToken);
+      userId = decoded.userId;
+      const storedToken = await RefreshToken.findByToken(refreshToken);
+      if (!storedToken) {
+        throw new AppError('Invalid refresh token', 401, 'INVALID_TOKEN');
+      }
+      if (storedToken.revokedAt) {
+        if (storedToken.replacedByHash) {
+          await this.handleRefreshTokenReuse(storedToken.familyId, decoded.userId);
+        }
+        throw new AppError('Refresh token has been revoked', 401, 'TOKEN_REVOKED');
+      }
       const user = await User.findById(decoded.userId);
       if (!user) {
         throw new AppError('User not found', 401);
       }
-      const tokens = this.generateTokens(user);
+      if (!user.isActive) {
+        throw new AppError('Account is disabled', 401, 'ACCOUNT_DISABLED');
+      }
+      const tokens = await this.generateTokens(user, {
+        familyId: storedToken.familyId,
+        deviceLabel: storedToken.deviceLabel,
+        userAgent: context.userAgent || storedToken.userAgent,
+        ip: context.ip || storedToken.ip,
+        sessionCreatedAt: storedToken.sessionCreatedAt
+      });
+      const rotatedToken = await RefreshToken.rotate(refreshToken, tokens.refreshToken);
+      if (!rotatedToken) {
+        await this.handleRefreshTokenReuse(storedToken.familyId, decoded.userId);
+      }
+      await this.audit(AUDIT_EVENT_TYPES.TOKEN_REFRESH, AUDIT_OUTCOMES.SUCCESS, context, {
+        userId,
+        metadata: { sessionId: storedToken.familyId }
+      });
+      Logger.auth('Refresh token rotated', {
+        userId: decoded.userId,
+        familyId: storedToken.familyId
+      });
       return tokens;
     } catch (error) {
+      await this.audit(AUDIT_EVENT_TYPES.TOKEN_REFRESH, AUDIT_OUTCOMES.FAILURE, context, {
+        userId,
+        reason: this.auditFailureReason(error)
+      });
       if (error instanceof AppError) {
         throw error;
       }
@@ -160,11 +708,20 @@ export class AuthService {
       throw new AppError('Token refresh failed', 401);
     }
   }
-  async updateProfile(userId: string, updateData: UpdateProfileData): Promise<IUser> {
+  private async handleRefreshTokenReuse(familyId: string, userId: string): Promise<never> {
+    await RefreshToken.revokeFamily(familyId);
+    Logger.security('Refresh token reuse detected - token family revoked', { userId, familyId });
+    throw new AppError('Refresh token reuse detected', 401, 'REFRESH_TOKEN_REUSED');
+  }
+  async updateProfile(userId: string, updateData: UpdateProfileData, context: SessionContext = {}): Promise<IUser> {
     try {
       const { username, email } = updateData;
-      if (!username && !email) {
-        throw new AppError('At least one field (username or email) must be provided', 400, 'VALIDATION_ERROR');
+      const profileFields = PROFILE_FIELDS.filter(field => updateData[field] !== undefined);
+      if (!username && !email && profileFields.length === 0) {
+        throw new AppError('At least one profile field must be provided', 400, 'VALIDATION_ERROR');
+      }
+      if (updateData.statusExpiresAt && updateData.statusExpiresAt <= new Date()) {
+        throw new AppError('Status expiry must be in the future', 400, 'VALIDATION_ERROR');
       }
       const user = await User.findById(userId);
       if (!user) {
@@ -183,18 +740,57 @@ export class AuthService {
         }
       }
       const updateFields: Partial<IUser> = {};
+      const clearedFields: Partial<Record<keyof IUser, 1>> = {};
       if (username) updateFields.username = username;
-      if (email) updateFields.email = email;
+      const isEmailChange = !!email && email !== user.email;
+      if (isEmailChange) updateFields.pendingEmail = email;
+      profileFields.forEach(field => {
+        const value = updateData[field];
+        if (value === null || value === '') {
+          clearedFields[field] = 1;
+        } else {
+          updateFields[field] = value as never;
+        }
+      });
+      if (clearedFields.statusText) {
+        clearedFields.statusExpiresAt = 1;
+        delete updateFields.statusExpiresAt;
+      }
+      const replacedAvatarKey = updateData.avatarUrl !== undefined ? user.avatarKey : undefined;
+      if (replacedAvatarKey) {
+        clearedFields.avatarKey = 1;
+      }
       const updatedUser = await User.findByIdAndUpdate(
         userId,
-        updateFields,
+        {
+          $set: updateFields,
+          ...(Object.keys(clearedFields).length > 0 && { $unset: clearedFields })
+        },
         { new: true, runValidators: true }
       );
       if (!updatedUser) {
         throw new AppError('Failed to update user profile', 500);
       }
+      if (replacedAvatarKey) {
+        await storageService.delete(getAvatarKeys(replacedAvatarKey));
+      }
+      if (isEmailChange) {
+        await this.sendVerificationEmail(updatedUser, email);
+        Logger.auth('Email change requested - awaiting verification', { userId });
+      }
+      await this.audit(AUDIT_EVENT_TYPES.PROFILE_UPDATE, AUDIT_OUTCOMES.SUCCESS, context, {
+        userId,
+        metadata: { fields: Object.keys(updateData).filter(field => updateData[field as keyof UpdateProfileData] !== undefined) }
+      });
+      if (username || profileFields.length > 0) {
+        this.userService.broadcastProfileUpdate(updatedUser);
+      }
       return updatedUser;
     } catch (error) {
+      await this.audit(AUDIT_EVENT_TYPES.PROFILE_UPDATE, AUDIT_OUTCOMES.FAILURE, context, {
+        userId,
+        reason: this.auditFailureReason(error)
+      });
       if (error instanceof AppError) {
         throw error;
       }
@@ -202,18 +798,41 @@ export class AuthService {
       throw new AppError('Profile update failed', 500);
     }
   }
-  async logout(logoutData: LogoutData): Promise<void> {
+  async logout(logoutData: LogoutData, accessToken?: JWTPayload, context: SessionContext = {}): Promise<void> {
+    let userId = accessToken?.userId;
     try {
       const { refreshToken } = logoutData;
       const decoded = await this.verifyRefreshToken(refreshToken);
       if (!decoded) {
         throw new AppError('Invalid refresh token', 401, 'INVALID_TOKEN');
       }
+      userId = decoded.userId;
       const user = await User.findById(decoded.userId);
       if (!user) {
         throw new AppError('User not found', 404, 'USER_NOT_FOUND');
       }
+      const storedToken = await RefreshToken.findByToken(refreshToken);
+      if (!storedToken || storedToken.revokedAt) {
+        throw new AppError('Invalid refresh token', 401, 'INVALID_TOKEN');
+      }
+      await RefreshToken.revokeFamily(storedToken.familyId);
+      await tokenRevocationService.revokeSessions([storedToken.familyId]);
+      if (accessToken?.jti && accessToken.exp) {
+        await tokenRevocationService.revokeToken(accessToken.jti, accessToken.exp);
+      }
+      await this.audit(AUDIT_EVENT_TYPES.LOGOUT, AUDIT_OUTCOMES.SUCCESS, context, {
+        userId,
+        metadata: { sessionId: storedToken.familyId }
+      });
+      Logger.auth('User logged out - refresh token family revoked', {
+        userId: decoded.userId,
+        familyId: storedToken.familyId
+      });
     } catch (error) {
+      await this.audit(AUDIT_EVENT_TYPES.LOGOUT, AUDIT_OUTCOMES.FAILURE, context, {
+        userId,
+        reason: this.auditFailureReason(error)
+      });
       if (error instanceof AppError) {
         throw error;
       }
@@ -221,4 +840,210 @@ export class AuthService {
       throw new AppError('Logout failed', 500);
     }
   }
+  async requestPasswordReset(forgotPasswordData: ForgotPasswordData): Promise<void> {
+    const { email } = forgotPasswordData;
+    Logger.auth('Password reset requested', { email });
+    try {
+      const user = await User.findOne({ email });
+      if (!user) {
+        Logger.security('Password reset requested for unknown email', { email });
+        return;
+      }
+      const ttlMinutes = config.PASSWORD_RESET_TOKEN_TTL_MINUTES;
+      const token = await OneTimeToken.issue(
+        user._id,
+        ONE_TIME_TOKEN_PURPOSES.PASSWORD_RESET,
+        ttlMinutes * 60 * 1000
+      );
+      await mailService.send({
+        to: user.email,
+        subject: 'Reset your password',
+        text: [
+          `Hi ${user.username},`,
+          '',
+          'We received a request to reset your password. Use the link below to choose a new one:',
+          `${config.APP_BASE_URL}/reset-password?token=${token}`,
+          '',
+          `This link expires in ${ttlMinutes} minutes and can only be used once.`,
+          'If you did not request a password reset, you can ignore this email.'
+        ].join('\n')
+      });
+      Logger.auth('Password reset email sent', { userId: user._id.toString() });
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('Password reset request error', error as Error, { email });
+      throw new AppError('Password reset request failed', 500);
+    }
+  }
+  async resetPassword(resetPasswordData: ResetPasswordData, context: SessionContext = {}): Promise<void> {
+    const { token, password } = resetPasswordData;
+    let userId: string | undefined;
+    try {
+      const resetToken = await OneTimeToken.findUsable(token, ONE_TIME_TOKEN_PURPOSES.PASSWORD_RESET);
+      if (!resetToken) {
+        Logger.security('Password reset failed - invalid or expired token');
+        throw new AppError('Invalid or expired password reset token', 400, 'INVALID_RESET_TOKEN');
+      }
+      userId = resetToken.userId.toString();
+      const user = await User.findById(resetToken.userId);
+      if (!user) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+      assertPasswordPolicy(password, user);
+      if (!(await OneTimeToken.consume(token, ONE_TIME_TOKEN_PURPOSES.PASSWORD_RESET))) {
+        throw new AppError('Invalid or expired password reset token', 400, 'INVALID_RESET_TOKEN');
+      }
+      user.password = password;
+      await user.save();
+      await sessionService.revokeAllSessions(user._id.toString(), 'Password reset');
+      await loginProtectionService.unlockAccount(user.email);
+      await this.audit(AUDIT_EVENT_TYPES.PASSWORD_RESET, AUDIT_OUTCOMES.SUCCESS, context, { userId });
+      Logger.auth('Password reset completed', { userId: user._id.toString() });
+    } catch (error) {
+      await this.audit(AUDIT_EVENT_TYPES.PASSWORD_RESET, AUDIT_OUTCOMES.FAILURE, context, {
+        userId,
+        reason: this.auditFailureReason(error)
+      });
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('Password reset error', error as Error);
+      throw new AppError('Password reset failed', 500);
+    }
+  }
+  async changePassword(
+    userId: string,
+    changePasswordData: ChangePasswordData,
+    currentSessionId?: string,
+    context: SessionContext = {}
+  ): Promise<void> {
+    const { currentPassword, newPassword } = changePasswordData;
+    try {
+      const user = await User.findById(userId);
+      if (!user) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+      const isCurrentPasswordValid = await user.comparePassword(currentPassword);
+      if (!isCurrentPasswordValid) {
+        Logger.security('Password change failed - invalid current password', { userId });
+        throw new AppError('Current password is incorrect', 400, 'INVALID_CURRENT_PASSWORD');
+      }
+      if (await user.comparePassword(newPassword)) {
+        throw new AppError('New password must be different from the current password', 400, 'PASSWORD_REUSED');
+      }
+      assertPasswordPolicy(newPassword, user);
+      user.password = newPassword;
+      await user.save();
+      await sessionService.revokeOtherSessions(userId, currentSessionId);
+      await this.audit(AUDIT_EVENT_TYPES.PASSWORD_CHANGE, AUDIT_OUTCOMES.SUCCESS, context, { userId });
+      Logger.auth('Password changed', { userId, currentSessionId });
+    } catch (error) {
+      await this.audit(AUDIT_EVENT_TYPES.PASSWORD_CHANGE, AUDIT_OUTCOMES.FAILURE, context, {
+        userId,
+        reason: this.auditFailureReason(error)
+      });
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('Password change error', error as Error, { userId });
+      throw new AppError('Password change failed', 500);
+    }
+  }
+  private async audit(
+    type: AuditEventType,
+    outcome: AuditOutcome,
+    context: SessionContext,
+    details: Pick<AuditEventInput, 'userId' | 'email' | 'reason' | 'metadata'> = {}
+  ): Promise<void> {
+    await auditLogService.record({ type, outcome, ip: context.ip, userAgent: context.userAgent, ...details });
+  }
+  private auditFailureReason(error: unknown): string {
+    if (error instanceof AppError) {
+      return error.errorCode || error.message;
+    }
+    return 'internal_error';
+  }
+  private async sendVerificationEmail(user: IUser, email: string): Promise<void> {
+    const ttlHours = config.EMAIL_VERIFICATION_TOKEN_TTL_HOURS;
+    const token = await OneTimeToken.issue(
+      user._id,
+      ONE_TIME_TOKEN_PURPOSES.EMAIL_VERIFICATION,
+      ttlHours * 60 * 60 * 1000,
+      email
+    );
+    await mailService.send({
+      to: email,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${user.username},`,
+        '',
+        'Please confirm your email address by opening the link below:',
+        `${config.APP_BASE_URL}/verify-email?token=${token}`,
+        '',
+        `This link expires in ${ttlHours} hours.`
+      ].join('\n')
+    });
+    Logger.auth('Verification email sent', { userId: user._id.toString() });
+  }
+  async verifyEmail(verifyEmailData: VerifyEmailData): Promise<IUser> {
+    const { token } = verifyEmailData;
+    try {
+      const verificationToken = await OneTimeToken.consume(token, ONE_TIME_TOKEN_PURPOSES.EMAIL_VERIFICATION);
+      if (!verificationToken) {
+        throw new AppError('Invalid or expired verification token', 400, 'INVALID_VERIFICATION_TOKEN');
+      }
+      const user = await User.findById(verificationToken.userId);
+      if (!user) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+      const verifiedEmail = verificationToken.email || user.email;
+      if (verifiedEmail !== user.email) {
+        if (verifiedEmail !== user.pendingEmail) {
+          throw new AppError('Invalid or expired verification token', 400, 'INVALID_VERIFICATION_TOKEN');
+        }
+        const existingUserByEmail = await User.findOne({ email: verifiedEmail });
+        if (existingUserByEmail) {
+          throw new AppError('User with this email already exists', 400, 'DUPLICATE_EMAIL');
+        }
+        user.email = verifiedEmail;
+        user.set('pendingEmail', undefined);
+      }
+      user.emailVerified = true;
+      user.emailVerifiedAt = new Date();
+      this.userService.applyConfiguredAdminRole(user);
+      await user.save();
+      Logger.auth('Email address verified', { userId: user._id.toString(), email: user.email });
+      return user;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('Email verification error', error as Error);
+      throw new AppError('Email verification failed', 500);
+    }
+  }
+  async resendVerificationEmail(userId: string): Promise<void> {
+    try {
+      const user = await User.findById(userId);
+      if (!user) {
+        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      }
+      if (user.pendingEmail) {
+        await this.sendVerificationEmail(user, user.pendingEmail);
+        return;
+      }
+      if (user.emailVerified) {
+        throw new AppError('Email address is already verified', 400, 'EMAIL_ALREADY_VERIFIED');
+      }
+      await this.sendVerificationEmail(user, user.email);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('Resend verification email error', error as Error, { userId });
+      throw new AppError('Failed to resend verification email', 500);
+    }
+  }
 }
@@ -1,9 +1,12 @@
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import mongoose, { Types } from 'mongoose';
-import { AutoMessageService } from './auto-message.service';
+import { AutoMessageService, getUserPairKey } from './auto-message.service';
 import User from '../models/user.model';
 import AutoMessage from '../models/auto-message.model';
+import ContactRequest from '../models/contact-request.model';
 import { AppError } from '../utils/app-error';
+import { MESSAGE_TEMPLATES_BY_LOCALE } from '../constants/message-templates';
+import { isWithinQuietHours } from '../utils/timezone';
 describe('AutoMessageService', () => {
   let mongoServer: MongoMemoryServer;
   let autoMessageService: AutoMessageService;
@@ -99,6 +102,25 @@ describe('AutoMessageService', () => {
       expect(autoMessageService.createUserPairs([])).toEqual([]);
       expect(autoMessageService.createUserPairs([user1])).toEqual([]);
     });
+    it('should never pair users who have blocked each other', () => {
+      const users = [user1, user2];
+      const blockedPairs = new Set([getUserPairKey(user2._id, user1._id)]);
+      expect(autoMessageService.createUserPairs(users, blockedPairs)).toEqual([]);
+      for (let i = 0; i < 10; i++) {
+        const pairs = autoMessageService.createUserPairs([user1, user2, user3], blockedPairs);
+        expect(pairs).toHaveLength(1);
+        expect(blockedPairs.has(getUserPairKey(pairs[0].senderId, pairs[0].receiverId))).toBe(false);
+      }
+    });
+    it('should never pair contacts-only users with non-contacts', async () => {
+      const contactsOnly = { _id: new Types.ObjectId(), privacy: { messagesFrom: 'contacts' } };
+      const users = [user1, user2, contactsOnly];
+      await ContactRequest.create({ requesterId: contactsOnly._id, recipientId: user1._id, status: 'accepted' });
+      const restrictedPairs = await autoMessageService.getContactsOnlyPairs(users);
+      expect(restrictedPairs).toEqual(new Set([getUserPairKey(contactsOnly._id, user2._id)]));
+      expect(autoMessageService.createUserPairs([user2, contactsOnly], restrictedPairs)).toEqual([]);
+      await ContactRequest.deleteMany({});
+    });
     it('should shuffle users randomly', () => {
       const users = [user1, user2, user3, { _id: new Types.ObjectId() }];
       const results = [];
@@ -135,6 +157,20 @@ describe('AutoMessageService', () => {
       expect(sendTime).toBeGreaterThan(now + oneHour - 60000); 
       expect(sendTime).toBeLessThan(now + twentyFourHours + 60000); 
     });
+    it('should use the receiver locale and avoid their quiet hours', () => {
+      const quietHours = { enabled: true, start: '00:00', end: '23:00' };
+      const preferences = new Map([[user2._id.toString(), {
+        locale: 'en' as const,
+        timezone: 'America/New_York',
+        quietHours,
+        notifications: { messages: true, contactRequests: true },
+        readReceipts: true,
+        autoMessages: true
+      }]]);
+      const [autoMessage] = autoMessageService.createAutoMessageData([{ senderId: user1._id, receiverId: user2._id }], preferences);
+      expect(MESSAGE_TEMPLATES_BY_LOCALE.en).toContain(autoMessage.content);
+      expect(isWithinQuietHours(quietHours, 'America/New_York', autoMessage.sendDate)).toBe(false);
+    });
     it('should return empty array for empty pairs', () => {
       const autoMessageData = autoMessageService.createAutoMessageData([]);
       expect(autoMessageData).toEqual([]);
@@ -1,8 +1,14 @@
 import { Types } from 'mongoose';
-import User from '../models/user.model';
+import User, { getPrivacySettings } from '../models/user.model';
+import UserBlock from '../models/user-block.model';
+import ContactRequest from '../models/contact-request.model';
 import AutoMessage, { IAutoMessage } from '../models/auto-message.model';
 import { getRandomMessageTemplate } from '../constants/message-templates';
+import { CONTACT_REQUEST_STATUSES } from '../constants/contacts';
+import { MESSAGE_AUDIENCES } from '../constants/privacy';
+import { preferencesService, UserPreferencesSettings } from './preferences.service';
 import { AppError } from '../utils/app-error';
+import { getQuietHoursEnd } from '../utils/timezone';
 import Logger from '../utils/logger';
 export interface UserPair {
   senderId: Types.ObjectId;
@@ -14,11 +20,14 @@ export interface AutoMessageData {
   content: string;
   sendDate: Date;
 }
+export const getUserPairKey = (userId1: Types.ObjectId, userId2: Types.ObjectId): string =>
+  [userId1.toString(), userId2.toString()].sort().join(':');
 export class AutoMessageService {
   public async getActiveUsers(): Promise<any[]> {
     try {
-      const activeUsers = await User.find({ isActive: true })
-        .select('_id username email')
+      const optedOutUserIds = await preferencesService.getAutoMessageOptOutUserIds();
+      const activeUsers = await User.find({ isActive: true, _id: { $nin: optedOutUserIds } })
+        .select('_id username email privacy.messagesFrom')
         .lean();
       Logger.info('[AUTO_MESSAGE_SERVICE] Active users retrieved', {
         count: activeUsers.length,
@@ -40,7 +49,43 @@ export class AutoMessageService {
     }
     return shuffled;
   }
-  public createUserPairs(users: any[]): UserPair[] {
+  public async getBlockedPairs(users: any[]): Promise<Set<string>> {
+    const userIds = users.map(user => user._id);
+    const blocks = await UserBlock.find({ blockerId: { $in: userIds }, blockedId: { $in: userIds } })
+      .select('blockerId blockedId')
+      .lean();
+    return new Set(blocks.map(block => getUserPairKey(block.blockerId, block.blockedId)));
+  }
+  public async getContactsOnlyPairs(users: any[]): Promise<Set<string>> {
+    const contactsOnlyUserIds = users
+      .filter(user => getPrivacySettings(user).messagesFrom === MESSAGE_AUDIENCES.CONTACTS)
+      .map(user => user._id);
+    if (contactsOnlyUserIds.length === 0) {
+      return new Set();
+    }
+    const userIds = users.map(user => user._id);
+    const contacts = await ContactRequest.find({
+      status: CONTACT_REQUEST_STATUSES.ACCEPTED,
+      $or: [
+        { requesterId: { $in: contactsOnlyUserIds }, recipientId: { $in: userIds } },
+        { requesterId: { $in: userIds }, recipientId: { $in: contactsOnlyUserIds } }
+      ]
+    })
+      .select('requesterId recipientId')
+      .lean();
+    const contactPairs = new Set(contacts.map(contact => getUserPairKey(contact.requesterId, contact.recipientId)));
+    const restrictedPairs = new Set<string>();
+    contactsOnlyUserIds.forEach(contactsOnlyUserId => {
+      userIds.forEach(userId => {
+        const pairKey = getUserPairKey(contactsOnlyUserId, userId);
+        if (!contactsOnlyUserId.equals(userId) && !contactPairs.has(pairKey)) {
+          restrictedPairs.add(pairKey);
+        }
+      });
+    });
+    return restrictedPairs;
+  }
+  public createUserPairs(users: any[], blockedPairs: Set<string> = new Set()): UserPair[] {
     if (users.length < 2) {
       Logger.warn('[AUTO_MESSAGE_SERVICE] Not enough users for pairing', {
         userCount: users.length,
@@ -48,18 +93,26 @@ export class AutoMessageService {
       });
       return [];
     }
-    const shuffledUsers = this.shuffleArray(users);
+    const unpairedUsers = this.shuffleArray(users);
     const pairs: UserPair[] = [];
-    for (let i = 0; i < shuffledUsers.length - 1; i += 2) {
+    while (unpairedUsers.length > 1) {
+      const sender = unpairedUsers.shift();
+      const receiverIndex = unpairedUsers.findIndex(candidate =>
+        !blockedPairs.has(getUserPairKey(sender._id, candidate._id))
+      );
+      if (receiverIndex === -1) {
+        continue;
+      }
+      const [receiver] = unpairedUsers.splice(receiverIndex, 1);
       pairs.push({
-        senderId: shuffledUsers[i]._id,
-        receiverId: shuffledUsers[i + 1]._id
+        senderId: sender._id,
+        receiverId: receiver._id
       });
     }
     Logger.info('[AUTO_MESSAGE_SERVICE] User pairs created', {
       totalUsers: users.length,
       pairsCreated: pairs.length,
-      skippedUsers: users.length % 2,
+      skippedUsers: users.length - pairs.length * 2,
       category: 'auto-message'
     });
     return pairs;
@@ -73,14 +126,21 @@ export class AutoMessageService {
     sendDate.setMinutes(sendDate.getMinutes() + minutesToAdd);
     return sendDate;
   }
-  public createAutoMessageData(pairs: UserPair[]): AutoMessageData[] {
+  public createAutoMessageData(
+    pairs: UserPair[],
+    preferences: Map<string, UserPreferencesSettings> = new Map()
+  ): AutoMessageData[] {
     const autoMessages: AutoMessageData[] = [];
     for (const pair of pairs) {
+      const receiverPreferences = preferences.get(pair.receiverId.toString());
+      const sendDate = this.generateRandomSendDate();
       const messageData: AutoMessageData = {
         senderId: pair.senderId,
         receiverId: pair.receiverId,
-        content: getRandomMessageTemplate(),
-        sendDate: this.generateRandomSendDate()
+        content: getRandomMessageTemplate(receiverPreferences?.locale),
+        sendDate: receiverPreferences
+          ? getQuietHoursEnd(receiverPreferences.quietHours, receiverPreferences.timezone, sendDate)
+          : sendDate
       };
       autoMessages.push(messageData);
     }
@@ -126,14 +186,21 @@ export class AutoMessageService {
         });
         return 0;
       }
-      const userPairs = this.createUserPairs(activeUsers);
+      const [blockedPairs, contactsOnlyPairs] = await Promise.all([
+        this.getBlockedPairs(activeUsers),
+        this.getContactsOnlyPairs(activeUsers)
+      ]);
+      const userPairs = this.createUserPairs(activeUsers, new Set([...blockedPairs, ...contactsOnlyPairs]));
       if (userPairs.length === 0) {
         Logger.warn('[AUTO_MESSAGE_SERVICE] No user pairs created', {
           category: 'auto-message'
         });
         return 0;
       }
-      const autoMessageData = this.createAutoMessageData(userPairs);
+      const preferences = await preferencesService.getPreferencesForUsers(
+        userPairs.map(pair => pair.receiverId.toString())
+      );
+      const autoMessageData = this.createAutoMessageData(userPairs, preferences);
       const savedMessages = await this.saveAutoMessages(autoMessageData);
       Logger.info('[AUTO_MESSAGE_SERVICE] Automatic message planning completed successfully', {
         totalUsers: activeUsers.length,
@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { AvatarService } from './avatar.service';
+import { LocalStorageDriver, storageService } from './storage.service';
+import User from '../models/user.model';
+import { getAvatarKey, getAvatarKeys } from '../constants/avatars';
+describe('AvatarService', () => {
+  let avatarService: AvatarService;
+  let directory: string;
+  let userId: string;
+  const createImage = (width: number, height: number) =>
+    sharp({ create: { width, height, channels: 3, background: { r: 200, g: 80, b: 40 } } }).png().toBuffer();
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'avatars-'));
+    storageService.setDriver(new LocalStorageDriver(directory));
+    avatarService = new AvatarService();
+    const user = await User.create({ username: 'pictured', email: 'pictured@example.com', password: 'Password123' });
+    userId = user._id.toString();
+  });
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+  describe('uploadAvatar', () => {
+    it('should store square WebP thumbnails and return signed URLs', async () => {
+      const buffer = await createImage(800, 600);
+      const avatarUrls = await avatarService.uploadAvatar(userId, { buffer, mimetype: 'image/png', size: buffer.length });
+      const user = await User.findById(userId);
+      expect(user!.avatarKey).toMatch(new RegExp(`^avatars/${userId}/`));
+      const medium = await storageService.get(getAvatarKey(user!.avatarKey!, 'medium'));
+      expect(await sharp(medium!.body).metadata()).toMatchObject({ format: 'webp', width: 256, height: 256 });
+      expect(avatarUrls.small).toContain(`${getAvatarKey(user!.avatarKey!, 'small')}?expires=`);
+    });
+    it('should delete the previous avatar when it is replaced', async () => {
+      const buffer = await createImage(128, 128);
+      await avatarService.uploadAvatar(userId, { buffer, mimetype: 'image/png', size: buffer.length });
+      const previousAvatarKey = (await User.findById(userId))!.avatarKey!;
+      await avatarService.uploadAvatar(userId, { buffer, mimetype: 'image/png', size: buffer.length });
+      for (const key of getAvatarKeys(previousAvatarKey)) {
+        expect(await storageService.get(key)).toBeNull();
+      }
+    });
+    it('should reject files that are not images even with an image content type', async () => {
+      const buffer = Buffer.from('definitely not a png');
+      await expect(
+        avatarService.uploadAvatar(userId, { buffer, mimetype: 'image/png', size: buffer.length })
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'INVALID_IMAGE' });
+    });
+    it('should reject unsupported types and oversized files', async () => {
+      const buffer = await createImage(16, 16);
+      await expect(
+        avatarService.uploadAvatar(userId, { buffer, mimetype: 'image/svg+xml', size: buffer.length })
+      ).rejects.toMatchObject({ statusCode: 415 });
+      await expect(
+        avatarService.uploadAvatar(userId, { buffer, mimetype: 'image/png', size: 100 * 1024 * 1024 })
+      ).rejects.toMatchObject({ statusCode: 413, errorCode: 'FILE_TOO_LARGE' });
+    });
+  });
+  describe('removeAvatar', () => {
+    it('should clear the avatar and delete its files', async () => {
+      const buffer = await createImage(64, 64);
+      await avatarService.uploadAvatar(userId, { buffer, mimetype: 'image/png', size: buffer.length });
+      const { avatarKey } = (await User.findById(userId))!;
+      await avatarService.removeAvatar(userId);
+      expect((await User.findById(userId))!.avatarKey).toBeUndefined();
+      expect(await storageService.get(getAvatarKey(avatarKey!, 'large'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import sharp from 'sharp';
+import { Types } from 'mongoose';
+import User from '../models/user.model';
+import { config } from '../config/env';
+import { storageService } from './storage.service';
+import { UserService } from './user.service';
+import { conversationService } from './conversation.service';
+import {
+  AVATAR_MAX_INPUT_PIXELS,
+  AVATAR_MIME_TYPES,
+  AVATAR_VARIANTS,
+  AvatarVariant,
+  getAvatarKey,
+  getAvatarKeys
+} from '../constants/avatars';
+import { AppError } from '../utils/app-error';
+import { generateSecureToken } from '../utils/crypto';
+import { createSignedMediaUrl } from '../utils/media-url';
+import Logger from '../utils/logger';
+export interface AvatarUpload {
+  buffer: Buffer;
+  mimetype: string;
+  size: number;
+}
+export type AvatarUrls = Record<AvatarVariant, string>;
+const AVATAR_IMAGE_FORMATS = ['jpeg', 'png', 'webp', 'gif'];
+export class AvatarService {
+  private readonly userService = new UserService();
+  public async uploadAvatar(userId: string, file: AvatarUpload): Promise<AvatarUrls> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    const avatarKey = await this.storeAvatar(`avatars/${userId}`, file);
+    const previousAvatarKey = user.avatarKey;
+    user.avatarKey = avatarKey;
+    user.set('avatarUrl', undefined);
+    await user.save();
+    if (previousAvatarKey) {
+      await storageService.delete(getAvatarKeys(previousAvatarKey));
+    }
+    this.userService.broadcastProfileUpdate(user);
+    Logger.info('Avatar uploaded', {
+      userId,
+      avatarKey,
+      originalSize: file.size,
+      category: 'media'
+    });
+    return this.getAvatarUrls(avatarKey);
+  }
+  public async removeAvatar(userId: string): Promise<void> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    const { avatarKey } = user;
+    if (!avatarKey && !user.avatarUrl) {
+      return;
+    }
+    user.set('avatarKey', undefined);
+    user.set('avatarUrl', undefined);
+    await user.save();
+    if (avatarKey) {
+      await storageService.delete(getAvatarKeys(avatarKey));
+    }
+    this.userService.broadcastProfileUpdate(user);
+    Logger.info('Avatar removed', { userId, category: 'media' });
+  }
+  public async uploadConversationAvatar(conversationId: string, userId: string, file: AvatarUpload): Promise<AvatarUrls> {
+    const conversation = await conversationService.getGroupForMember(conversationId, userId);
+    const avatarKey = await this.storeAvatar(`conversation-avatars/${conversationId}`, file);
+    const previousAvatarKey = conversation.avatarKey;
+    conversation.avatarKey = avatarKey;
+    await conversation.save();
+    if (previousAvatarKey) {
+      await storageService.delete(getAvatarKeys(previousAvatarKey));
+    }
+    Logger.info('Conversation avatar uploaded', {
+      conversationId,
+      userId,
+      avatarKey,
+      originalSize: file.size,
+      category: 'media'
+    });
+    return this.getAvatarUrls(avatarKey);
+  }
+  public async removeConversationAvatar(conversationId: string, userId: string): Promise<void> {
+    const conversation = await conversationService.getGroupForMember(conversationId, userId);
+    const { avatarKey } = conversation;
+    if (!avatarKey) {
+      return;
+    }
+    conversation.set('avatarKey', undefined);
+    await conversation.save();
+    await storageService.delete(getAvatarKeys(avatarKey));
+    Logger.info('Conversation avatar removed', { conversationId, userId, category: 'media' });
+  }
+  public async storeAvatar(keyPrefix: string, file: AvatarUpload): Promise<string> {
+    if (!(AVATAR_MIME_TYPES as readonly string[]).includes(file.mimetype)) {
+      throw new AppError('Avatar must be a JPEG, PNG, WebP or GIF image', 415, 'UNSUPPORTED_MEDIA_TYPE');
+    }
+    if (file.size > config.AVATAR_MAX_SIZE_BYTES) {
+      throw new AppError('Avatar image is too large', 413, 'FILE_TOO_LARGE');
+    }
+    await this.assertSupportedImage(file.buffer);
+    const avatarKey = `${keyPrefix}/${generateSecureToken(8)}`;
+    for (const [variant, size] of Object.entries(AVATAR_VARIANTS) as Array<[AvatarVariant, number]>) {
+      const thumbnail = await sharp(file.buffer, { limitInputPixels: AVATAR_MAX_INPUT_PIXELS })
+        .rotate()
+        .resize(size, size, { fit: 'cover' })
+        .webp({ quality: 80 })
+        .toBuffer();
+      await storageService.put(getAvatarKey(avatarKey, variant), thumbnail, 'image/webp');
+    }
+    return avatarKey;
+  }
+  public getAvatarUrls(avatarKey: string): AvatarUrls {
+    return Object.fromEntries(
+      (Object.keys(AVATAR_VARIANTS) as AvatarVariant[]).map(variant => [
+        variant,
+        createSignedMediaUrl(getAvatarKey(avatarKey, variant))
+      ])
+    ) as AvatarUrls;
+  }
+  private async assertSupportedImage(buffer: Buffer): Promise<void> {
+    let format: string | undefined;
+    try {
+      ({ format } = await sharp(buffer, { limitInputPixels: AVATAR_MAX_INPUT_PIXELS }).metadata());
+    } catch (error) {
+      throw new AppError('Uploaded file is not a valid image', 400, 'INVALID_IMAGE');
+    }
+    if (!format || !AVATAR_IMAGE_FORMATS.includes(format)) {
+      throw new AppError('Avatar must be a JPEG, PNG, WebP or GIF image', 415, 'UNSUPPORTED_MEDIA_TYPE');
+    }
+  }
+}
+export const avatarService = new AvatarService();
+export default avatarService;
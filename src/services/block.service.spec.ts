@@ -0,0 +1,60 @@
+import { BlockService } from './block.service';
+import { ConversationService } from './conversation.service';
+import { MessageService } from './message.service';
+import User from '../models/user.model';
+import Conversation from '../models/conversation.model';
+import UserBlock from '../models/user-block.model';
+jest.mock('../utils/logger');
+describe('BlockService', () => {
+  let blockService: BlockService;
+  let aliceId: string;
+  let bobId: string;
+  beforeEach(async () => {
+    blockService = new BlockService();
+    const alice = await User.create({ username: 'alice', email: 'alice@example.com', password: 'Password123' });
+    const bob = await User.create({ username: 'bob', email: 'bob@example.com', password: 'Password123' });
+    aliceId = alice._id.toString();
+    bobId = bob._id.toString();
+  });
+  describe('blockUser', () => {
+    it('should add the user to the block list once', async () => {
+      await blockService.blockUser(aliceId, bobId);
+      await blockService.blockUser(aliceId, bobId);
+      const blockedUsers = await blockService.getBlockedUsers(aliceId);
+      expect(blockedUsers).toHaveLength(1);
+      expect(blockedUsers[0]).toMatchObject({ id: bobId, username: 'bob', email: null });
+      expect(blockedUsers[0].blockedAt).toBeInstanceOf(Date);
+    });
+    it('should reject blocking yourself or unknown users', async () => {
+      await expect(blockService.blockUser(aliceId, aliceId)).rejects.toMatchObject({ errorCode: 'CANNOT_BLOCK_SELF' });
+      await User.deleteOne({ _id: bobId });
+      await expect(blockService.blockUser(aliceId, bobId)).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+  describe('unblockUser', () => {
+    it('should remove the block', async () => {
+      await blockService.blockUser(aliceId, bobId);
+      await blockService.unblockUser(aliceId, bobId);
+      expect(await UserBlock.countDocuments()).toBe(0);
+      await expect(blockService.unblockUser(aliceId, bobId)).rejects.toMatchObject({ errorCode: 'BLOCK_NOT_FOUND' });
+    });
+  });
+  describe('enforcement', () => {
+    it('should prevent either user from starting a conversation', async () => {
+      await blockService.blockUser(bobId, aliceId);
+      await expect(
+        new ConversationService().createOrFindConversation({ currentUserId: aliceId, participantId: bobId })
+      ).rejects.toMatchObject({ statusCode: 403, errorCode: 'USER_BLOCKED' });
+      await expect(
+        new ConversationService().createOrFindConversation({ currentUserId: bobId, participantId: aliceId })
+      ).rejects.toMatchObject({ errorCode: 'USER_BLOCKED' });
+    });
+    it('should prevent messages in existing conversations', async () => {
+      const conversation = await Conversation.create({ participants: [aliceId, bobId] });
+      await blockService.blockUser(aliceId, bobId);
+      await expect(
+        new MessageService().createMessage(conversation._id.toString(), bobId, 'Hello?')
+      ).rejects.toMatchObject({ errorCode: 'USER_BLOCKED' });
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { Types } from 'mongoose';
+import UserBlock from '../models/user-block.model';
+import ContactRequest from '../models/contact-request.model';
+import User, { PublicUser, USER_PUBLIC_FIELDS, toPublicUser } from '../models/user.model';
+import { VIEWER_RELATIONS } from '../constants/privacy';
+import { AppError } from '../utils/app-error';
+import Logger from '../utils/logger';
+export type BlockedUserItem = PublicUser & {
+  blockedAt: Date;
+};
+export class BlockService {
+  public async blockUser(blockerId: string, blockedId: string): Promise<BlockedUserItem> {
+    this.assertValidPair(blockerId, blockedId);
+    if (blockerId === blockedId) {
+      throw new AppError('You cannot block yourself', 400, 'CANNOT_BLOCK_SELF');
+    }
+    const blockedUser = await User.findOne({ _id: blockedId, deletedAt: { $exists: false } }).select(USER_PUBLIC_FIELDS);
+    if (!blockedUser) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    const block = await UserBlock.findOneAndUpdate(
+      { blockerId: new Types.ObjectId(blockerId), blockedId: blockedUser._id },
+      { $setOnInsert: { blockerId: new Types.ObjectId(blockerId), blockedId: blockedUser._id } },
+      { upsert: true, new: true }
+    );
+    await ContactRequest.deleteMany({
+      $or: [
+        { requesterId: block.blockerId, recipientId: block.blockedId },
+        { requesterId: block.blockedId, recipientId: block.blockerId }
+      ]
+    });
+    Logger.info('User blocked', { blockerId, blockedId, category: 'block' });
+    return {
+      ...toPublicUser(blockedUser, VIEWER_RELATIONS.NONE),
+      blockedAt: block.createdAt
+    };
+  }
+  public async unblockUser(blockerId: string, blockedId: string): Promise<void> {
+    this.assertValidPair(blockerId, blockedId);
+    const result = await UserBlock.deleteOne({
+      blockerId: new Types.ObjectId(blockerId),
+      blockedId: new Types.ObjectId(blockedId)
+    });
+    if (result.deletedCount === 0) {
+      throw new AppError('User is not blocked', 404, 'BLOCK_NOT_FOUND');
+    }
+    Logger.info('User unblocked', { blockerId, blockedId, category: 'block' });
+  }
+  public async getBlockedUsers(blockerId: string): Promise<BlockedUserItem[]> {
+    if (!Types.ObjectId.isValid(blockerId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const blocks = await UserBlock.find({ blockerId: new Types.ObjectId(blockerId) })
+      .populate('blockedId', USER_PUBLIC_FIELDS)
+      .sort({ createdAt: -1 });
+    return blocks
+      .filter(block => block.blockedId)
+      .map(block => ({
+        ...toPublicUser(block.blockedId as any, VIEWER_RELATIONS.NONE),
+        blockedAt: block.createdAt
+      }));
+  }
+  public async getBlockedUserIds(userId: string): Promise<Types.ObjectId[]> {
+    return UserBlock.findBlockedUserIds(new Types.ObjectId(userId));
+  }
+  public async assertNotBlocked(userId: string, otherUserIds: string[]): Promise<void> {
+    const blockedUserIds = await this.getBlockedUserIds(userId);
+    if (blockedUserIds.some(blockedUserId => otherUserIds.includes(blockedUserId.toString()))) {
+      throw new AppError('You cannot interact with this user', 403, 'USER_BLOCKED');
+    }
+  }
+  private assertValidPair(blockerId: string, blockedId: string): void {
+    if (!Types.ObjectId.isValid(blockerId) || !Types.ObjectId.isValid(blockedId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+  }
+}
+export const blockService = new BlockService();
+export default blockService;
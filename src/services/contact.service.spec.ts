@@ -0,0 +1,100 @@
+import { ContactService } from './contact.service';
+import { ConversationService } from './conversation.service';
+import { UserService } from './user.service';
+import { blockService } from './block.service';
+import User from '../models/user.model';
+import { getSocketService } from '../socket/socket.service';
+jest.mock('../utils/logger');
+jest.mock('../socket/socket.service');
+describe('ContactService', () => {
+  let contactService: ContactService;
+  let aliceId: string;
+  let bobId: string;
+  const emitToUser = jest.fn();
+  beforeEach(async () => {
+    contactService = new ContactService();
+    emitToUser.mockReset();
+    (getSocketService as jest.Mock).mockReturnValue({ emitToUser });
+    const alice = await User.create({ username: 'alice', email: 'alice@example.com', password: 'Password123' });
+    const bob = await User.create({ username: 'bob', email: 'bob@example.com', password: 'Password123' });
+    aliceId = alice._id.toString();
+    bobId = bob._id.toString();
+  });
+  describe('sendRequest', () => {
+    it('should create a pending request and notify the recipient', async () => {
+      const request = await contactService.sendRequest(aliceId, bobId);
+      expect(request).toMatchObject({ status: 'pending', direction: 'outgoing', user: { id: bobId } });
+      expect(emitToUser).toHaveBeenCalledWith(bobId, 'contact:request', expect.objectContaining({
+        requestId: request.id,
+        user: expect.objectContaining({ id: aliceId, username: 'alice' })
+      }));
+      const [incoming] = await contactService.getRequests(bobId, 'incoming');
+      expect(incoming).toMatchObject({ id: request.id, direction: 'incoming', user: { id: aliceId } });
+    });
+    it('should reject duplicate requests and requests to yourself', async () => {
+      await contactService.sendRequest(aliceId, bobId);
+      await expect(contactService.sendRequest(aliceId, bobId)).rejects.toMatchObject({ statusCode: 409, errorCode: 'CONTACT_REQUEST_EXISTS' });
+      await expect(contactService.sendRequest(aliceId, aliceId)).rejects.toMatchObject({ errorCode: 'CANNOT_ADD_SELF' });
+    });
+    it('should accept a pending request from the other user instead of creating a new one', async () => {
+      await contactService.sendRequest(aliceId, bobId);
+      const request = await contactService.sendRequest(bobId, aliceId);
+      expect(request.status).toBe('accepted');
+      expect(await contactService.areContacts(aliceId, bobId)).toBe(true);
+      await expect(contactService.sendRequest(aliceId, bobId)).rejects.toMatchObject({ errorCode: 'ALREADY_CONTACTS' });
+    });
+  });
+  describe('responding to requests', () => {
+    it('should add both users as contacts when accepted', async () => {
+      const { id } = await contactService.sendRequest(aliceId, bobId);
+      await contactService.acceptRequest(bobId, id);
+      expect(emitToUser).toHaveBeenLastCalledWith(aliceId, 'contact:accepted', expect.objectContaining({ requestId: id }));
+      expect((await contactService.getContacts(aliceId)).map(contact => contact.id)).toEqual([bobId]);
+      expect((await contactService.getContacts(bobId)).map(contact => contact.id)).toEqual([aliceId]);
+    });
+    it('should only let the recipient respond and the requester cancel', async () => {
+      const { id } = await contactService.sendRequest(aliceId, bobId);
+      await expect(contactService.acceptRequest(aliceId, id)).rejects.toMatchObject({ errorCode: 'CONTACT_REQUEST_NOT_FOUND' });
+      await expect(contactService.cancelRequest(bobId, id)).rejects.toMatchObject({ errorCode: 'CONTACT_REQUEST_NOT_FOUND' });
+      await contactService.cancelRequest(aliceId, id);
+      expect(emitToUser).toHaveBeenLastCalledWith(bobId, 'contact:cancelled', expect.objectContaining({ status: 'cancelled' }));
+      await expect(contactService.declineRequest(bobId, id)).rejects.toMatchObject({ statusCode: 404 });
+    });
+    it('should allow a new request after a decline', async () => {
+      const { id } = await contactService.sendRequest(aliceId, bobId);
+      expect((await contactService.declineRequest(bobId, id)).status).toBe('declined');
+      expect(await contactService.getContacts(aliceId)).toHaveLength(0);
+      await expect(contactService.sendRequest(aliceId, bobId)).resolves.toMatchObject({ status: 'pending' });
+    });
+  });
+  describe('removeContact', () => {
+    it('should remove the contact for both users', async () => {
+      const { id } = await contactService.sendRequest(aliceId, bobId);
+      await contactService.acceptRequest(bobId, id);
+      await contactService.removeContact(bobId, aliceId);
+      expect(await contactService.areContacts(aliceId, bobId)).toBe(false);
+      expect(emitToUser).toHaveBeenLastCalledWith(aliceId, 'contact:removed', { userId: bobId });
+      await expect(contactService.removeContact(bobId, aliceId)).rejects.toMatchObject({ errorCode: 'CONTACT_NOT_FOUND' });
+    });
+    it('should be removed when either user blocks the other', async () => {
+      const { id } = await contactService.sendRequest(aliceId, bobId);
+      await contactService.acceptRequest(bobId, id);
+      await blockService.blockUser(aliceId, bobId);
+      expect(await contactService.areContacts(aliceId, bobId)).toBe(false);
+    });
+  });
+  describe('contacts-only messaging', () => {
+    it('should only let contacts open conversations with users who require it', async () => {
+      const conversationService = new ConversationService();
+      await new UserService().updatePrivacy(bobId, { messagesFrom: 'contacts' });
+      await expect(
+        conversationService.createOrFindConversation({ currentUserId: aliceId, participantId: bobId })
+      ).rejects.toMatchObject({ statusCode: 403, errorCode: 'CONTACTS_ONLY' });
+      const { id } = await contactService.sendRequest(aliceId, bobId);
+      await contactService.acceptRequest(bobId, id);
+      await expect(
+        conversationService.createOrFindConversation({ currentUserId: aliceId, participantId: bobId })
+      ).resolves.toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import { Types } from 'mongoose';
+import ContactRequest, { IContactRequest } from '../models/contact-request.model';
+import Conversation from '../models/conversation.model';
+import User, { IUser, PublicUser, USER_PUBLIC_FIELDS, toPublicUser } from '../models/user.model';
+import { blockService } from './block.service';
+import { preferencesService } from './preferences.service';
+import { getSocketService } from '../socket/socket.service';
+import { CONTACT_REQUEST_STATUSES, ContactRequestDirection, ContactRequestStatus } from '../constants/contacts';
+import { VIEWER_RELATIONS } from '../constants/privacy';
+import { ContactRequestEventData, SOCKET_EVENTS } from '../types/socket.types';
+import { AppError } from '../utils/app-error';
+import Logger from '../utils/logger';
+export interface ContactRequestItem {
+  id: string;
+  status: ContactRequestStatus;
+  direction: ContactRequestDirection;
+  user: PublicUser;
+  createdAt: Date;
+  respondedAt: Date | null;
+}
+export type ContactItem = PublicUser & {
+  contactSince: Date;
+};
+type ContactRequestEvent =
+  | typeof SOCKET_EVENTS.CONTACT_REQUEST
+  | typeof SOCKET_EVENTS.CONTACT_ACCEPTED
+  | typeof SOCKET_EVENTS.CONTACT_DECLINED
+  | typeof SOCKET_EVENTS.CONTACT_CANCELLED;
+export class ContactService {
+  public async sendRequest(requesterId: string, recipientId: string): Promise<ContactRequestItem> {
+    this.assertValidIds(requesterId, recipientId);
+    if (requesterId === recipientId) {
+      throw new AppError('You cannot add yourself as a contact', 400, 'CANNOT_ADD_SELF');
+    }
+    const [requester, recipient] = await Promise.all([
+      User.findById(requesterId).select(USER_PUBLIC_FIELDS),
+      User.findOne({ _id: recipientId, isActive: true, deletedAt: { $exists: false } }).select(USER_PUBLIC_FIELDS)
+    ]);
+    if (!requester || !recipient) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    await blockService.assertNotBlocked(requesterId, [recipientId]);
+    const existingRequest = await ContactRequest.findActiveBetween(requester._id, recipient._id);
+    if (existingRequest?.status === CONTACT_REQUEST_STATUSES.ACCEPTED) {
+      throw new AppError('You are already contacts', 409, 'ALREADY_CONTACTS');
+    }
+    if (existingRequest?.requesterId.equals(requester._id)) {
+      throw new AppError('A contact request is already pending', 409, 'CONTACT_REQUEST_EXISTS');
+    }
+    if (existingRequest) {
+      return this.acceptRequest(requesterId, existingRequest._id.toString());
+    }
+    const request = await ContactRequest.create({
+      requesterId: requester._id,
+      recipientId: recipient._id
+    });
+    if (await preferencesService.shouldNotify(recipientId, 'contactRequests')) {
+      this.notifyRequest(recipientId, SOCKET_EVENTS.CONTACT_REQUEST, request, requester);
+    }
+    Logger.info('Contact request sent', {
+      requestId: request._id.toString(),
+      requesterId,
+      recipientId,
+      category: 'contact'
+    });
+    return this.toRequestItem(request, 'outgoing', recipient);
+  }
+  public async acceptRequest(userId: string, requestId: string): Promise<ContactRequestItem> {
+    return this.respondToRequest(userId, requestId, CONTACT_REQUEST_STATUSES.ACCEPTED);
+  }
+  public async declineRequest(userId: string, requestId: string): Promise<ContactRequestItem> {
+    return this.respondToRequest(userId, requestId, CONTACT_REQUEST_STATUSES.DECLINED);
+  }
+  public async cancelRequest(userId: string, requestId: string): Promise<void> {
+    const request = await this.findPendingRequest(requestId, { requesterId: userId });
+    request.status = CONTACT_REQUEST_STATUSES.CANCELLED;
+    request.respondedAt = new Date();
+    await request.save();
+    const requester = await User.findById(userId).select(USER_PUBLIC_FIELDS);
+    if (requester) {
+      this.notifyRequest(request.recipientId.toString(), SOCKET_EVENTS.CONTACT_CANCELLED, request, requester);
+    }
+    Logger.info('Contact request cancelled', { requestId, userId, category: 'contact' });
+  }
+  public async getRequests(userId: string, direction: ContactRequestDirection): Promise<ContactRequestItem[]> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const [ownField, otherField] = direction === 'incoming'
+      ? ['recipientId', 'requesterId'] as const
+      : ['requesterId', 'recipientId'] as const;
+    const requests = await ContactRequest.find({
+      [ownField]: new Types.ObjectId(userId),
+      status: CONTACT_REQUEST_STATUSES.PENDING
+    })
+      .populate(otherField, USER_PUBLIC_FIELDS)
+      .sort({ createdAt: -1 });
+    return requests
+      .filter(request => request[otherField])
+      .map(request => this.toRequestItem(request, direction, request[otherField] as unknown as IUser));
+  }
+  public async getContacts(userId: string): Promise<ContactItem[]> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const userObjectId = new Types.ObjectId(userId);
+    const [contacts, partnerIds] = await Promise.all([
+      ContactRequest.find({
+        $or: [{ requesterId: userObjectId }, { recipientId: userObjectId }],
+        status: CONTACT_REQUEST_STATUSES.ACCEPTED
+      })
+        .populate('requesterId', USER_PUBLIC_FIELDS)
+        .populate('recipientId', USER_PUBLIC_FIELDS)
+        .sort({ respondedAt: -1 }),
+      Conversation.findPartnerIds(userObjectId)
+    ]);
+    return contacts.flatMap(contact => {
+      const requester = contact.requesterId as unknown as IUser | null;
+      const recipient = contact.recipientId as unknown as IUser | null;
+      const other = requester?._id.equals(userObjectId) ? recipient : requester;
+      if (!other) {
+        return [];
+      }
+      const relation = partnerIds.some(partnerId => partnerId.equals(other._id))
+        ? VIEWER_RELATIONS.CONVERSATION
+        : VIEWER_RELATIONS.NONE;
+      return [{
+        ...toPublicUser(other, relation),
+        contactSince: contact.respondedAt || contact.updatedAt
+      }];
+    });
+  }
+  public async removeContact(userId: string, contactId: string): Promise<void> {
+    this.assertValidIds(userId, contactId);
+    const userObjectId = new Types.ObjectId(userId);
+    const contactObjectId = new Types.ObjectId(contactId);
+    const result = await ContactRequest.deleteMany({
+      $or: [
+        { requesterId: userObjectId, recipientId: contactObjectId },
+        { requesterId: contactObjectId, recipientId: userObjectId }
+      ],
+      status: CONTACT_REQUEST_STATUSES.ACCEPTED
+    });
+    if (result.deletedCount === 0) {
+      throw new AppError('Contact not found', 404, 'CONTACT_NOT_FOUND');
+    }
+    this.notify(contactId, SOCKET_EVENTS.CONTACT_REMOVED, { userId });
+    Logger.info('Contact removed', { userId, contactId, category: 'contact' });
+  }
+  public async areContacts(userId1: string, userId2: string): Promise<boolean> {
+    return ContactRequest.areContacts(new Types.ObjectId(userId1), new Types.ObjectId(userId2));
+  }
+  private async respondToRequest(
+    userId: string,
+    requestId: string,
+    status: typeof CONTACT_REQUEST_STATUSES.ACCEPTED | typeof CONTACT_REQUEST_STATUSES.DECLINED
+  ): Promise<ContactRequestItem> {
+    const request = await this.findPendingRequest(requestId, { recipientId: userId });
+    if (status === CONTACT_REQUEST_STATUSES.ACCEPTED) {
+      await blockService.assertNotBlocked(userId, [request.requesterId.toString()]);
+    }
+    const [recipient, requester] = await Promise.all([
+      User.findById(userId).select(USER_PUBLIC_FIELDS),
+      User.findById(request.requesterId).select(USER_PUBLIC_FIELDS)
+    ]);
+    if (!recipient || !requester) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    request.status = status;
+    request.respondedAt = new Date();
+    await request.save();
+    this.notifyRequest(
+      requester._id.toString(),
+      status === CONTACT_REQUEST_STATUSES.ACCEPTED ? SOCKET_EVENTS.CONTACT_ACCEPTED : SOCKET_EVENTS.CONTACT_DECLINED,
+      request,
+      recipient
+    );
+    Logger.info(`Contact request ${status}`, { requestId, userId, category: 'contact' });
+    return this.toRequestItem(request, 'incoming', requester);
+  }
+  private async findPendingRequest(
+    requestId: string,
+    owner: { requesterId: string } | { recipientId: string }
+  ): Promise<IContactRequest> {
+    if (!Types.ObjectId.isValid(requestId)) {
+      throw new AppError('Invalid request ID format', 400);
+    }
+    const request = await ContactRequest.findOne({
+      _id: requestId,
+      ...owner,
+      status: CONTACT_REQUEST_STATUSES.PENDING
+    });
+    if (!request) {
+      throw new AppError('Contact request not found', 404, 'CONTACT_REQUEST_NOT_FOUND');
+    }
+    return request;
+  }
+  private toRequestItem(request: IContactRequest, direction: ContactRequestDirection, otherUser: IUser): ContactRequestItem {
+    return {
+      id: request._id.toString(),
+      status: request.status,
+      direction,
+      user: toPublicUser(otherUser, VIEWER_RELATIONS.NONE),
+      createdAt: request.createdAt,
+      respondedAt: request.respondedAt || null
+    };
+  }
+  private notifyRequest(userId: string, event: ContactRequestEvent, request: IContactRequest, otherUser: IUser): void {
+    const data: ContactRequestEventData = {
+      requestId: request._id.toString(),
+      status: request.status,
+      user: toPublicUser(otherUser, VIEWER_RELATIONS.NONE),
+      createdAt: request.createdAt.toISOString(),
+      respondedAt: request.respondedAt?.toISOString() || null
+    };
+    this.notify(userId, event, data);
+  }
+  private notify(userId: string, event: string, data: unknown): void {
+    try {
+      getSocketService().emitToUser(userId, event, data);
+    } catch (error) {
+      Logger.debug('Socket service unavailable, skipping contact notification', {
+        userId,
+        event,
+        error: (error as Error).message
+      });
+    }
+  }
+  private assertValidIds(userId: string, otherUserId: string): void {
+    if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(otherUserId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+  }
+}
+export const contactService = new ContactService();
+export default contactService;
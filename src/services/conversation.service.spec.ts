@@ -3,6 +3,7 @@ import { ConversationService } from './conversation.service';
 import Conversation from '../models/conversation.model';
 import User from '../models/user.model';
 import { AppError } from '../utils/app-error';
+import { config } from '../config/env';
 jest.mock('../utils/logger');
 describe('ConversationService', () => {
   let conversationService: ConversationService;
@@ -217,4 +218,112 @@ describe('ConversationService', () => {
       )).rejects.toThrow('Conversation not found');
     });
   });
+  describe('group conversations', () => {
+    const createGroup = () => conversationService.createGroupConversation({
+      creatorId: user1._id.toString(),
+      title: 'Project team',
+      participantIds: [user2._id.toString(), user3._id.toString(), user2._id.toString()]
+    });
+    it('should create a group with the creator and unique participants', async () => {
+      const group = await createGroup();
+      const item = conversationService.toConversationItem(group, user1._id.toString());
+      expect(item).toMatchObject({ type: 'group', title: 'Project team', avatarUrl: null, createdBy: user1._id.toString() });
+      expect(item.participants.map(participant => participant.id).sort()).toEqual(
+        [user2._id.toString(), user3._id.toString()].sort()
+      );
+    });
+    it('should keep direct conversations deduplicated alongside groups', async () => {
+      await createGroup();
+      const direct = await conversationService.createOrFindConversation({
+        currentUserId: user1._id.toString(),
+        participantId: user2._id.toString()
+      });
+      const again = await conversationService.createOrFindConversation({
+        currentUserId: user2._id.toString(),
+        participantId: user1._id.toString()
+      });
+      expect(direct.type).toBe('direct');
+      expect(again._id).toEqual(direct._id);
+      expect(await Conversation.countDocuments()).toBe(2);
+    });
+    it('should enforce the member cap when adding members', async () => {
+      const group = await createGroup();
+      const extraUsers = await User.insertMany(
+        Array.from({ length: config.GROUP_CONVERSATION_MAX_MEMBERS }, (_, index) => ({
+          username: `member${index}`,
+          email: `member${index}@example.com`,
+          password: 'Password123'
+        }))
+      );
+      await expect(conversationService.addGroupMembers(
+        group._id.toString(),
+        user2._id.toString(),
+        extraUsers.map(user => user._id.toString())
+      )).rejects.toMatchObject({ statusCode: 400, errorCode: 'GROUP_MEMBER_LIMIT_EXCEEDED' });
+      const updated = await conversationService.addGroupMembers(
+        group._id.toString(),
+        user2._id.toString(),
+        [extraUsers[0]._id.toString()]
+      );
+      expect(updated.participants).toHaveLength(4);
+    });
+    it('should not exceed the member cap when members are added concurrently', async () => {
+      const group = await createGroup();
+      const openSlots = config.GROUP_CONVERSATION_MAX_MEMBERS - group.participants.length;
+      const extraUsers = await User.insertMany(
+        Array.from({ length: openSlots * 2 }, (_, index) => ({
+          username: `joiner${index}`,
+          email: `joiner${index}@example.com`,
+          password: 'Password123'
+        }))
+      );
+      const extraUserIds = extraUsers.map(user => user._id.toString());
+      const results = await Promise.allSettled([
+        conversationService.addGroupMembers(group._id.toString(), user1._id.toString(), extraUserIds.slice(0, openSlots)),
+        conversationService.addGroupMembers(group._id.toString(), user2._id.toString(), extraUserIds.slice(openSlots))
+      ]);
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      const updated = await Conversation.findById(group._id);
+      expect(updated!.participants).toHaveLength(config.GROUP_CONVERSATION_MAX_MEMBERS);
+    });
+    it('should only let the creator remove other members', async () => {
+      const group = await createGroup();
+      await expect(conversationService.removeGroupMember(
+        group._id.toString(),
+        user2._id.toString(),
+        user3._id.toString()
+      )).rejects.toMatchObject({ statusCode: 403, errorCode: 'GROUP_CREATOR_REQUIRED' });
+      await conversationService.removeGroupMember(group._id.toString(), user1._id.toString(), user3._id.toString());
+      await conversationService.removeGroupMember(group._id.toString(), user2._id.toString(), user2._id.toString());
+      const remaining = await Conversation.findById(group._id);
+      expect(remaining!.participants.map(participant => participant.toString())).toEqual([user1._id.toString()]);
+    });
+    it('should hand the group to a remaining member when the creator leaves', async () => {
+      const group = await createGroup();
+      const updated = await conversationService.removeGroupMember(
+        group._id.toString(),
+        user1._id.toString(),
+        user1._id.toString()
+      );
+      expect(updated!.createdBy?.toString()).toBe(user2._id.toString());
+      await conversationService.removeGroupMember(group._id.toString(), user2._id.toString(), user3._id.toString());
+      await conversationService.deleteConversation(group._id.toString(), user2._id.toString());
+      expect(await Conversation.findById(group._id)).toBeNull();
+    });
+    it('should not reveal co-member details limited to conversation partners', async () => {
+      await User.updateOne({ _id: user2._id }, { privacy: { emailVisibility: 'conversations' } });
+      const group = await createGroup();
+      const item = conversationService.toConversationItem(group, user1._id.toString());
+      const member = item.participants.find(participant => participant.id === user2._id.toString());
+      expect(member!.email).toBeNull();
+    });
+    it('should reject group actions on direct conversations', async () => {
+      const direct = await Conversation.create({ participants: [user1._id, user2._id] });
+      await expect(conversationService.addGroupMembers(
+        direct._id.toString(),
+        user1._id.toString(),
+        [user3._id.toString()]
+      )).rejects.toMatchObject({ errorCode: 'NOT_A_GROUP_CONVERSATION' });
+    });
+  });
 });
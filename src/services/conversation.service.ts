@@ -1,24 +1,41 @@
 import { Types } from 'mongoose';
 import Conversation, { IConversation } from '../models/conversation.model';
-import User from '../models/user.model';
+import User, { USER_PUBLIC_FIELDS, PublicUser, toPublicUser } from '../models/user.model';
+import { MESSAGE_AUDIENCES } from '../constants/privacy';
+import { CONVERSATION_TYPES, ConversationType } from '../constants/conversations';
+import { getAvatarKey } from '../constants/avatars';
+import { config } from '../config/env';
+import { blockService } from './block.service';
+import { contactService } from './contact.service';
+import { getSocketService } from '../socket/socket.service';
 import { AppError } from '../utils/app-error';
+import { createSignedMediaUrl } from '../utils/media-url';
 import Logger from '../utils/logger';
 export interface CreateConversationData {
   currentUserId: string;
   participantId: string;
 }
+export interface CreateGroupConversationData {
+  creatorId: string;
+  title: string;
+  participantIds: string[];
+}
+export interface UpdateGroupConversationData {
+  title?: string | undefined;
+}
 export interface ConversationListItem {
   id: string;
-  participants: Array<{
-    id: string;
-    username: string;
-    email: string;
-  }>;
+  type: ConversationType;
+  title: string | null;
+  avatarUrl: string | null;
+  createdBy: string | null;
+  participants: PublicUser[];
   lastMessage?: {
     content: string;
     sender: {
       id: string;
       username: string;
+      displayName: string | null;
     };
     timestamp: Date;
   };
@@ -38,9 +55,10 @@ export class ConversationService {
       const currentUserObjectId = new Types.ObjectId(currentUserId);
       const participantObjectId = new Types.ObjectId(participantId);
       const participantUser = await User.findById(participantObjectId);
-      if (!participantUser) {
+      if (!participantUser || !participantUser.isActive) {
         throw new AppError('Participant user not found', 404);
       }
+      await this.assertCanMessage(currentUserId, [participantId]);
       const existingConversation = await Conversation.findBetweenUsers(
         currentUserObjectId,
         participantObjectId
@@ -57,7 +75,7 @@ export class ConversationService {
         participants: [currentUserObjectId, participantObjectId]
       });
       const savedConversation = await newConversation.save();
-      await savedConversation.populate('participants', 'username email');
+      await savedConversation.populate('participants', USER_PUBLIC_FIELDS);
       Logger.info('New conversation created', {
         conversationId: savedConversation._id,
         participants: [currentUserId, participantId],
@@ -72,6 +90,125 @@ export class ConversationService {
       throw error;
     }
   }
+  public async createGroupConversation(data: CreateGroupConversationData): Promise<IConversation> {
+    try {
+      const { creatorId, title } = data;
+      if (!Types.ObjectId.isValid(creatorId)) {
+        throw new AppError('Invalid user ID format', 400);
+      }
+      const participantIds = [...new Set(data.participantIds)].filter(participantId => participantId !== creatorId);
+      if (participantIds.length === 0) {
+        throw new AppError('A group conversation needs at least one other participant', 400);
+      }
+      this.assertWithinMemberLimit(participantIds.length + 1);
+      await this.assertActiveUsers(participantIds);
+      await this.assertCanMessage(creatorId, participantIds);
+      const conversation = new Conversation({
+        type: CONVERSATION_TYPES.GROUP,
+        title,
+        createdBy: new Types.ObjectId(creatorId),
+        participants: [creatorId, ...participantIds].map(participantId => new Types.ObjectId(participantId))
+      });
+      const savedConversation = await conversation.save();
+      await savedConversation.populate('participants', USER_PUBLIC_FIELDS);
+      Logger.info('Group conversation created', {
+        conversationId: savedConversation._id,
+        creatorId,
+        participantCount: savedConversation.participants.length,
+        category: 'conversation'
+      });
+      return savedConversation;
+    } catch (error) {
+      Logger.error('Failed to create group conversation', error as Error, {
+        creatorId: data.creatorId
+      });
+      throw error;
+    }
+  }
+  public async updateGroupConversation(
+    conversationId: string,
+    userId: string,
+    updateData: UpdateGroupConversationData
+  ): Promise<IConversation> {
+    const conversation = await this.getGroupForMember(conversationId, userId);
+    if (updateData.title !== undefined) {
+      conversation.title = updateData.title;
+    }
+    await conversation.save();
+    await this.populateConversation(conversation);
+    Logger.info('Group conversation updated', {
+      conversationId,
+      userId,
+      category: 'conversation'
+    });
+    return conversation;
+  }
+  public async addGroupMembers(conversationId: string, userId: string, memberIds: string[]): Promise<IConversation> {
+    if (memberIds.some(memberId => !Types.ObjectId.isValid(memberId))) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const conversation = await this.getGroupForMember(conversationId, userId);
+    const newMemberIds = [...new Set(memberIds)].filter(memberId => !conversation.isParticipant(new Types.ObjectId(memberId)));
+    if (newMemberIds.length === 0) {
+      throw new AppError('All users are already members of this group', 409, 'ALREADY_GROUP_MEMBERS');
+    }
+    this.assertWithinMemberLimit(conversation.participants.length + newMemberIds.length);
+    await this.assertActiveUsers(newMemberIds);
+    await this.assertCanMessage(userId, newMemberIds);
+    const maxExistingMembers = config.GROUP_CONVERSATION_MAX_MEMBERS - newMemberIds.length;
+    const updatedConversation = await Conversation.findOneAndUpdate(
+      {
+        _id: conversation._id,
+        participants: new Types.ObjectId(userId),
+        [`participants.${maxExistingMembers}`]: { $exists: false }
+      },
+      { $addToSet: { participants: { $each: newMemberIds.map(memberId => new Types.ObjectId(memberId)) } } },
+      { new: true }
+    );
+    if (!updatedConversation) {
+      throw this.memberLimitExceededError();
+    }
+    await this.populateConversation(updatedConversation);
+    Logger.info('Group members added', {
+      conversationId,
+      userId,
+      memberIds: newMemberIds,
+      category: 'conversation'
+    });
+    return updatedConversation;
+  }
+  public async removeGroupMember(conversationId: string, userId: string, memberId: string): Promise<IConversation | null> {
+    if (!Types.ObjectId.isValid(memberId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const conversation = await this.getGroupForMember(conversationId, userId);
+    if (memberId !== userId && !conversation.createdBy?.equals(userId)) {
+      throw new AppError('Only the group creator can remove other members', 403, 'GROUP_CREATOR_REQUIRED');
+    }
+    const memberObjectId = new Types.ObjectId(memberId);
+    if (!conversation.isParticipant(memberObjectId)) {
+      throw new AppError('User is not a member of this group', 404, 'GROUP_MEMBER_NOT_FOUND');
+    }
+    conversation.participants = conversation.participants.filter(participantId => !participantId.equals(memberObjectId));
+    if (conversation.createdBy?.equals(memberObjectId) && conversation.participants.length > 0) {
+      conversation.createdBy = conversation.participants[0];
+    }
+    Logger.info('Group member removed', {
+      conversationId,
+      userId,
+      memberId,
+      category: 'conversation'
+    });
+    if (conversation.participants.length === 0) {
+      await Conversation.findByIdAndDelete(conversation._id);
+      this.leaveConversationRoom(memberId, conversationId);
+      return null;
+    }
+    await conversation.save();
+    this.leaveConversationRoom(memberId, conversationId);
+    await this.populateConversation(conversation);
+    return conversation;
+  }
   public async getUserConversations(userId: string): Promise<ConversationListItem[]> {
     try {
       if (!Types.ObjectId.isValid(userId)) {
@@ -79,32 +216,7 @@ export class ConversationService {
       }
       const userObjectId = new Types.ObjectId(userId);
       const conversations = await Conversation.findUserConversations(userObjectId);
-      const conversationList: ConversationListItem[] = conversations.map(conversation => {
-        const participants = conversation.participants
-          .filter((participant: any) => participant._id.toString() !== userId)
-          .map((participant: any) => ({
-            id: participant._id.toString(),
-            username: participant.username,
-            email: participant.email
-          }));
-        const result: ConversationListItem = {
-          id: conversation._id.toString(),
-          participants,
-          createdAt: conversation.createdAt,
-          updatedAt: conversation.updatedAt
-        };
-        if (conversation.lastMessage) {
-          result.lastMessage = {
-            content: conversation.lastMessage.content,
-            sender: {
-              id: conversation.lastMessage.sender._id?.toString() || conversation.lastMessage.sender.toString(),
-              username: (conversation.lastMessage.sender as any).username || 'Unknown'
-            },
-            timestamp: conversation.lastMessage.timestamp
-          };
-        }
-        return result;
-      });
+      const conversationList = conversations.map(conversation => this.toConversationItem(conversation, userId));
       Logger.info('User conversations retrieved', {
         userId,
         conversationCount: conversationList.length,
@@ -129,7 +241,7 @@ export class ConversationService {
       if (!conversation.isParticipant(userObjectId)) {
         throw new AppError('Access denied: You are not a participant in this conversation', 403);
       }
-      await conversation.populate('participants', 'username email');
+      await this.populateConversation(conversation);
       return conversation;
     } catch (error) {
       Logger.error('Failed to get conversation by ID', error as Error, {
@@ -139,6 +251,61 @@ export class ConversationService {
       throw error;
     }
   }
+  public async assertCanMessage(senderId: string, recipientIds: string[]): Promise<void> {
+    await blockService.assertNotBlocked(senderId, recipientIds);
+    const contactsOnlyRecipients = await User.find({
+      _id: { $in: recipientIds },
+      'privacy.messagesFrom': MESSAGE_AUDIENCES.CONTACTS
+    }).select('_id');
+    for (const recipient of contactsOnlyRecipients) {
+      if (!(await contactService.areContacts(senderId, recipient._id.toString()))) {
+        throw new AppError('This user only accepts messages from contacts', 403, 'CONTACTS_ONLY');
+      }
+    }
+  }
+  public async getGroupForMember(conversationId: string, userId: string): Promise<IConversation> {
+    if (!Types.ObjectId.isValid(conversationId) || !Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid ID format', 400);
+    }
+    const conversation = await Conversation.findById(conversationId);
+    if (!conversation) {
+      throw new AppError('Conversation not found', 404);
+    }
+    if (!conversation.isParticipant(new Types.ObjectId(userId))) {
+      throw new AppError('Access denied: You are not a participant in this conversation', 403);
+    }
+    if (!conversation.isGroup()) {
+      throw new AppError('This action is only available for group conversations', 400, 'NOT_A_GROUP_CONVERSATION');
+    }
+    return conversation;
+  }
+  public toConversationItem(conversation: IConversation, viewerId: string): ConversationListItem {
+    const participants = conversation.participants
+      .filter((participant: any) => participant._id.toString() !== viewerId)
+      .map((participant: any) => toPublicUser(participant, conversation.getParticipantRelation()));
+    const result: ConversationListItem = {
+      id: conversation._id.toString(),
+      type: conversation.type || CONVERSATION_TYPES.DIRECT,
+      title: conversation.title || null,
+      avatarUrl: conversation.avatarKey ? createSignedMediaUrl(getAvatarKey(conversation.avatarKey, 'medium')) : null,
+      createdBy: conversation.createdBy?.toString() || null,
+      participants,
+      createdAt: conversation.createdAt,
+      updatedAt: conversation.updatedAt
+    };
+    if (conversation.lastMessage) {
+      result.lastMessage = {
+        content: conversation.lastMessage.content,
+        sender: {
+          id: conversation.lastMessage.sender._id?.toString() || conversation.lastMessage.sender.toString(),
+          username: (conversation.lastMessage.sender as any).username || 'Unknown',
+          displayName: (conversation.lastMessage.sender as any).displayName || null
+        },
+        timestamp: conversation.lastMessage.timestamp
+      };
+    }
+    return result;
+  }
   public async updateLastMessage(
     conversationId: string,
     content: string,
@@ -184,6 +351,9 @@ export class ConversationService {
       if (!conversation.isParticipant(userObjectId)) {
         throw new AppError('Access denied: You are not a participant in this conversation', 403);
       }
+      if (conversation.isGroup() && !conversation.createdBy?.equals(userObjectId)) {
+        throw new AppError('Only the group creator can delete a group conversation', 403, 'GROUP_CREATOR_REQUIRED');
+      }
       await Conversation.findByIdAndDelete(conversationId);
       Logger.info('Conversation deleted', {
         conversationId,
@@ -198,6 +368,44 @@ export class ConversationService {
       throw error;
     }
   }
+  private async populateConversation(conversation: IConversation): Promise<void> {
+    await conversation.populate([
+      { path: 'participants', select: USER_PUBLIC_FIELDS },
+      { path: 'lastMessage.sender', select: 'username displayName' }
+    ]);
+  }
+  private leaveConversationRoom(userId: string, conversationId: string): void {
+    try {
+      getSocketService().removeUserFromConversation(userId, conversationId);
+    } catch (error) {
+      Logger.debug('Socket service unavailable, skipping conversation room removal', {
+        userId,
+        conversationId,
+        error: (error as Error).message
+      });
+    }
+  }
+  private assertWithinMemberLimit(memberCount: number): void {
+    if (memberCount > config.GROUP_CONVERSATION_MAX_MEMBERS) {
+      throw this.memberLimitExceededError();
+    }
+  }
+  private memberLimitExceededError(): AppError {
+    return new AppError(
+      `A group conversation cannot have more than ${config.GROUP_CONVERSATION_MAX_MEMBERS} members`,
+      400,
+      'GROUP_MEMBER_LIMIT_EXCEEDED'
+    );
+  }
+  private async assertActiveUsers(userIds: string[]): Promise<void> {
+    if (userIds.some(userId => !Types.ObjectId.isValid(userId))) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const activeUserCount = await User.countDocuments({ _id: { $in: userIds }, isActive: true });
+    if (activeUserCount !== userIds.length) {
+      throw new AppError('Participant user not found', 404);
+    }
+  }
 }
 export const conversationService = new ConversationService();
 export default conversationService;
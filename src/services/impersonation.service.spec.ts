@@ -0,0 +1,82 @@
+import jwt from 'jsonwebtoken';
+import { ImpersonationService } from './impersonation.service';
+import { AuthService, JWTPayload } from './auth.service';
+import User from '../models/user.model';
+import AuditEvent from '../models/audit-event.model';
+import { ROLES } from '../constants/roles';
+import { AppError } from '../utils/app-error';
+describe('ImpersonationService', () => {
+  let impersonationService: ImpersonationService;
+  let authService: AuthService;
+  let adminId: string;
+  let targetId: string;
+  beforeEach(async () => {
+    impersonationService = new ImpersonationService();
+    authService = new AuthService();
+    const admin = await User.create({
+      username: 'support_admin',
+      email: 'admin@example.com',
+      password: 'Password123',
+      roles: [ROLES.USER, ROLES.ADMIN]
+    });
+    const target = await User.create({ username: 'customer', email: 'customer@example.com', password: 'Password123' });
+    adminId = admin._id.toString();
+    targetId = target._id.toString();
+  });
+  describe('startImpersonation', () => {
+    it('should issue a token carrying both the target and the impersonator', async () => {
+      const result = await impersonationService.startImpersonation(adminId, targetId, 'Ticket #42', { ip: '10.0.0.5' });
+      const payload = jwt.decode(result.accessToken) as JWTPayload;
+      expect(payload.userId).toBe(targetId);
+      expect(payload.impersonatorId).toBe(adminId);
+      expect(payload.sessionId).toBeUndefined();
+      expect(result.impersonatedUser.username).toBe('customer');
+      const verified = await authService.verifyAccessToken(result.accessToken);
+      expect(verified.impersonatorId).toBe(adminId);
+    });
+    it('should record the start of the impersonation in the audit log', async () => {
+      await impersonationService.startImpersonation(adminId, targetId, 'Ticket #42', { ip: '10.0.0.5' });
+      const event = await AuditEvent.findOne({ type: 'impersonation_start' });
+      expect(event?.userId?.toString()).toBe(targetId);
+      expect(event?.impersonatorId?.toString()).toBe(adminId);
+      expect(event?.reason).toBe('Ticket #42');
+    });
+    it('should refuse to impersonate administrators or oneself', async () => {
+      const otherAdmin = await User.create({
+        username: 'other_admin',
+        email: 'other-admin@example.com',
+        password: 'Password123',
+        roles: [ROLES.ADMIN]
+      });
+      await expect(
+        impersonationService.startImpersonation(adminId, otherAdmin._id.toString(), 'Curious')
+      ).rejects.toMatchObject({ statusCode: 403, errorCode: 'IMPERSONATION_NOT_ALLOWED' });
+      await expect(
+        impersonationService.startImpersonation(adminId, adminId, 'Curious')
+      ).rejects.toBeInstanceOf(AppError);
+    });
+  });
+  describe('token verification', () => {
+    it('should reject impersonation tokens once the impersonator loses access', async () => {
+      const { accessToken } = await impersonationService.startImpersonation(adminId, targetId, 'Ticket #42');
+      await User.findByIdAndUpdate(adminId, { roles: [ROLES.USER] });
+      await expect(authService.verifyAccessToken(accessToken)).rejects.toMatchObject({
+        statusCode: 401,
+        errorCode: 'TOKEN_REVOKED'
+      });
+    });
+  });
+  describe('recordAction', () => {
+    it('should attribute impersonated actions to both users', async () => {
+      await impersonationService.recordAction(
+        { userId: targetId, email: 'customer@example.com', username: 'customer', impersonatorId: adminId },
+        'POST /api/messages',
+        'success',
+        { statusCode: 201 }
+      );
+      const event = await AuditEvent.findOne({ type: 'impersonated_action' });
+      expect(event).toMatchObject({ reason: 'POST /api/messages', outcome: 'success' });
+      expect(event?.impersonatorId?.toString()).toBe(adminId);
+    });
+  });
+});
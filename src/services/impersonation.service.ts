@@ -0,0 +1,109 @@
+import { Types } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import jwt from 'jsonwebtoken';
+import User from '../models/user.model';
+import { config } from '../config/env';
+import { keyRingService } from './key-ring.service';
+import { auditLogService } from './audit-log.service';
+import { JWTPayload, SessionContext } from './auth.service';
+import { ROLES, PERMISSIONS, resolvePermissions, hasPermissions } from '../constants/roles';
+import { AUDIT_EVENT_TYPES, AUDIT_OUTCOMES, AuditOutcome } from '../constants/audit-events';
+import { AppError } from '../utils/app-error';
+import Logger from '../utils/logger';
+export interface ImpersonationResult {
+  accessToken: string;
+  expiresIn: number;
+  impersonatedUser: {
+    id: string;
+    username: string;
+    email: string;
+  };
+}
+export class ImpersonationService {
+  public async startImpersonation(
+    impersonatorId: string,
+    targetUserId: string,
+    reason: string,
+    context: SessionContext = {}
+  ): Promise<ImpersonationResult> {
+    if (!Types.ObjectId.isValid(targetUserId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    if (impersonatorId === targetUserId) {
+      throw new AppError('You cannot impersonate yourself', 400, 'IMPERSONATION_NOT_ALLOWED');
+    }
+    const target = await User.findById(targetUserId);
+    if (!target || !target.isActive) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    if (target.roles.includes(ROLES.ADMIN)) {
+      Logger.security('Impersonation of an administrator rejected', { impersonatorId, targetUserId });
+      throw new AppError('Administrators cannot be impersonated', 403, 'IMPERSONATION_NOT_ALLOWED');
+    }
+    const expiresIn = config.IMPERSONATION_TOKEN_TTL_SECONDS;
+    const payload: JWTPayload = {
+      userId: target._id.toString(),
+      email: target.email,
+      username: target.username,
+      roles: target.roles,
+      permissions: resolvePermissions(target.roles, target.permissions),
+      impersonatorId
+    };
+    const accessToken = keyRingService.sign(payload, {
+      expiresIn,
+      jwtid: uuidv4()
+    } as jwt.SignOptions);
+    await auditLogService.record({
+      type: AUDIT_EVENT_TYPES.IMPERSONATION_START,
+      outcome: AUDIT_OUTCOMES.SUCCESS,
+      userId: target._id,
+      impersonatorId,
+      reason,
+      ip: context.ip,
+      userAgent: context.userAgent
+    });
+    Logger.security('Impersonation session started', { impersonatorId, targetUserId, reason });
+    return {
+      accessToken,
+      expiresIn,
+      impersonatedUser: {
+        id: target._id.toString(),
+        username: target.username,
+        email: target.email
+      }
+    };
+  }
+  public async assertImpersonatorAllowed(impersonatorId: string): Promise<void> {
+    const impersonator = Types.ObjectId.isValid(impersonatorId)
+      ? await User.findById(impersonatorId).select('isActive roles permissions')
+      : null;
+    if (
+      !impersonator ||
+      !impersonator.isActive ||
+      !hasPermissions(resolvePermissions(impersonator.roles, impersonator.permissions), [PERMISSIONS.USERS_IMPERSONATE])
+    ) {
+      Logger.security('Rejected impersonation token - impersonator no longer allowed', { impersonatorId });
+      throw new AppError('Impersonation session is no longer valid', 401, 'TOKEN_REVOKED');
+    }
+  }
+  public async recordAction(
+    principal: JWTPayload,
+    action: string,
+    outcome: AuditOutcome,
+    details: Record<string, unknown>,
+    context: SessionContext = {}
+  ): Promise<void> {
+    await auditLogService.record({
+      type: AUDIT_EVENT_TYPES.IMPERSONATED_ACTION,
+      outcome,
+      userId: principal.userId,
+      impersonatorId: principal.impersonatorId,
+      reason: action,
+      ip: context.ip,
+      userAgent: context.userAgent,
+      metadata: details
+    });
+  }
+}
+export const impersonationService = new ImpersonationService();
+export default impersonationService;
@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { keyRingService } from './key-ring.service';
+jest.mock('../utils/logger');
+describe('KeyRingService', () => {
+  it('should sign tokens with the active key id in the header', () => {
+    const token = keyRingService.sign({ userId: 'user123' }, { expiresIn: '15m' });
+    const { header } = jwt.decode(token, { complete: true })!;
+    const signingKey = keyRingService.getSigningKey();
+    expect(header.kid).toBe(signingKey.kid);
+    expect(header.alg).toBe(signingKey.alg);
+  });
+  it('should verify tokens it signed', () => {
+    const token = keyRingService.sign({ userId: 'user123' }, { expiresIn: '15m' });
+    expect(keyRingService.verify<{ userId: string }>(token).userId).toBe('user123');
+  });
+  it('should reject tokens without a known key id', () => {
+    const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const forged = jwt.sign({ userId: 'user123' }, privateKey, { algorithm: 'ES256', keyid: 'unknown' });
+    expect(() => keyRingService.verify(forged)).toThrow('Unknown signing key: unknown');
+    const unkeyed = jwt.sign({ userId: 'user123' }, 'shared-secret');
+    expect(() => keyRingService.verify(unkeyed)).toThrow('Token is missing a key id');
+  });
+  it('should publish a JWKS that third parties can verify tokens with', () => {
+    const token = keyRingService.sign({ userId: 'user123' }, { expiresIn: '15m' });
+    const { kid } = jwt.decode(token, { complete: true })!.header;
+    const jwk = keyRingService.getJwks().keys.find(key => key.kid === kid)!;
+    expect(jwk).not.toHaveProperty('d');
+    const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+    expect(jwt.verify(token, publicKey, { algorithms: [jwk.alg] })).toMatchObject({ userId: 'user123' });
+  });
+});
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/env';
+import {
+  JwtKeyRing,
+  JwtSigningKey,
+  PublicJwk,
+  generateSigningKey,
+  getActiveSigningKey,
+  isKeyRetained,
+  parseJwtSigningAlgorithm,
+  readKeyRingFile,
+  toPublicJwk
+} from '../utils/jwt-keys';
+import Logger from '../utils/logger';
+export class KeyRingService {
+  private static instance: KeyRingService;
+  private keyRing: JwtKeyRing;
+  private loadedMtimeMs: number = 0;
+  private lastCheckedAt: number = 0;
+  private constructor(private readonly keyRingPath: string = config.JWT_KEYRING_PATH) {
+    this.keyRing = this.load();
+  }
+  public static getInstance(): KeyRingService {
+    if (!KeyRingService.instance) {
+      KeyRingService.instance = new KeyRingService();
+    }
+    return KeyRingService.instance;
+  }
+  public sign(payload: object, options: jwt.SignOptions = {}): string {
+    const key = this.getSigningKey();
+    return jwt.sign(payload, key.privateKey!, {
+      ...options,
+      algorithm: key.alg,
+      keyid: key.kid
+    });
+  }
+  public verify<T extends object>(token: string): T {
+    const decoded = jwt.decode(token, { complete: true });
+    const kid = decoded?.header.kid;
+    if (!kid) {
+      throw new jwt.JsonWebTokenError('Token is missing a key id');
+    }
+    const key = this.getVerificationKey(kid);
+    if (!key) {
+      throw new jwt.JsonWebTokenError(`Unknown signing key: ${kid}`);
+    }
+    return jwt.verify(token, key.publicKey, { algorithms: [key.alg] }) as T;
+  }
+  public getSigningKey(): JwtSigningKey {
+    this.refreshIfChanged();
+    const key = getActiveSigningKey(this.keyRing);
+    if (!key) {
+      throw new Error('No active JWT signing key available');
+    }
+    return key;
+  }
+  public getVerificationKey(kid: string): JwtSigningKey | undefined {
+    this.refreshIfChanged();
+    return this.getVerificationKeys().find(key => key.kid === kid);
+  }
+  public getJwks(): { keys: PublicJwk[] } {
+    this.refreshIfChanged();
+    return { keys: this.getVerificationKeys().map(toPublicJwk) };
+  }
+  private getVerificationKeys(): JwtSigningKey[] {
+    return this.keyRing.keys.filter(key => isKeyRetained(key, config.JWT_KEY_RETENTION_SECONDS));
+  }
+  private load(): JwtKeyRing {
+    if (fs.existsSync(this.keyRingPath)) {
+      this.loadedMtimeMs = fs.statSync(this.keyRingPath).mtimeMs;
+      this.lastCheckedAt = Date.now();
+      const keyRing = readKeyRingFile(this.keyRingPath);
+      Logger.info('JWT key ring loaded', {
+        path: this.keyRingPath,
+        keyIds: keyRing.keys.map(key => key.kid)
+      });
+      return keyRing;
+    }
+    if (config.NODE_ENV === 'production') {
+      throw new Error(`JWT key ring not found at ${this.keyRingPath}. Run "npm run keys:rotate" to create one.`);
+    }
+    Logger.warn('JWT key ring not found, using an ephemeral signing key', { path: this.keyRingPath });
+    return { keys: [generateSigningKey(parseJwtSigningAlgorithm(config.JWT_SIGNING_ALGORITHM))] };
+  }
+  private refreshIfChanged(): void {
+    const now = Date.now();
+    if (!this.loadedMtimeMs || now - this.lastCheckedAt < config.JWT_KEYRING_RELOAD_INTERVAL_MS) {
+      return;
+    }
+    this.lastCheckedAt = now;
+    try {
+      if (fs.statSync(this.keyRingPath).mtimeMs !== this.loadedMtimeMs) {
+        this.keyRing = this.load();
+      }
+    } catch (error) {
+      Logger.error('Failed to reload JWT key ring, keeping previous keys', error as Error, {
+        path: this.keyRingPath
+      });
+    }
+  }
+}
+export const keyRingService = KeyRingService.getInstance();
+export default keyRingService;
@@ -0,0 +1,121 @@
+import { RedisMemoryServer } from 'redis-memory-server';
+import Redis from 'ioredis';
+import { LoginProtectionService } from './login-protection.service';
+import { config } from '../config/env';
+import Logger from '../utils/logger';
+jest.mock('../utils/logger');
+describe('LoginProtectionService', () => {
+  let redisServer: RedisMemoryServer;
+  let redis: Redis;
+  let loginProtectionService: LoginProtectionService;
+  let redisConnected = true;
+  const originalDelayBase = config.LOGIN_DELAY_BASE_MS;
+  const attempt = { email: 'Test@Example.com', ip: '10.0.0.1' };
+  beforeAll(async () => {
+    redisServer = new RedisMemoryServer();
+    const host = await redisServer.getHost();
+    const port = await redisServer.getPort();
+    redis = new Redis({
+      host,
+      port,
+      maxRetriesPerRequest: 1
+    });
+    const mockRedisClient = {
+      getClient: () => redis,
+      isClientConnected: () => redisConnected
+    };
+    jest.doMock('../config/redis', () => ({
+      redisClient: mockRedisClient
+    }));
+    const { LoginProtectionService: MockedLoginProtectionService } = await import('./login-protection.service');
+    loginProtectionService = MockedLoginProtectionService.getInstance();
+    config.LOGIN_DELAY_BASE_MS = 0;
+  });
+  afterAll(async () => {
+    config.LOGIN_DELAY_BASE_MS = originalDelayBase;
+    await redis.disconnect();
+    await redisServer.stop();
+  });
+  beforeEach(async () => {
+    await redis.flushall();
+  });
+  describe('recordFailure', () => {
+    it('should count failures per account and per IP', async () => {
+      await loginProtectionService.recordFailure(attempt, 'invalid_password');
+      await loginProtectionService.recordFailure({ email: 'test@example.com', ip: '10.0.0.2' }, 'invalid_password');
+      expect(await redis.get('login_failures:account:test@example.com')).toBe('2');
+      expect(await redis.get('login_failures:ip:10.0.0.1')).toBe('1');
+      expect(await redis.ttl('login_failures:account:test@example.com')).toBeGreaterThan(0);
+    });
+    it('should lock the account after too many failures from different IPs', async () => {
+      for (let i = 0; i < config.LOGIN_MAX_ACCOUNT_FAILURES; i++) {
+        await loginProtectionService.recordFailure({ email: attempt.email, ip: `10.0.1.${i}` }, 'invalid_password');
+      }
+      await expect(
+        loginProtectionService.assertLoginAllowed({ email: attempt.email, ip: '10.0.2.1' })
+      ).rejects.toMatchObject({ statusCode: 423, errorCode: 'ACCOUNT_LOCKED' });
+    });
+    it('should lock an IP spraying many accounts', async () => {
+      for (let i = 0; i < config.LOGIN_MAX_IP_FAILURES; i++) {
+        await loginProtectionService.recordFailure({ email: `user${i}@example.com`, ip: attempt.ip }, 'unknown_email');
+      }
+      await expect(
+        loginProtectionService.assertLoginAllowed({ email: 'fresh@example.com', ip: attempt.ip })
+      ).rejects.toMatchObject({ statusCode: 429, errorCode: 'TOO_MANY_LOGIN_ATTEMPTS' });
+      await expect(
+        loginProtectionService.assertLoginAllowed({ email: 'fresh@example.com', ip: '10.0.0.9' })
+      ).resolves.toBeUndefined();
+    });
+  });
+  describe('recordSuccess', () => {
+    it('should reset the account failure counter', async () => {
+      await loginProtectionService.recordFailure(attempt, 'invalid_password');
+      await loginProtectionService.recordSuccess(attempt);
+      expect(await redis.get('login_failures:account:test@example.com')).toBeNull();
+    });
+  });
+  describe('unlockAccount', () => {
+    it('should clear an active lockout', async () => {
+      await redis.set('login_lock:account:test@example.com', '1', 'EX', 60);
+      await loginProtectionService.unlockAccount(attempt.email);
+      await expect(loginProtectionService.assertLoginAllowed(attempt)).resolves.toBeUndefined();
+    });
+  });
+  describe('when Redis is unavailable', () => {
+    afterEach(() => {
+      redisConnected = true;
+      jest.restoreAllMocks();
+    });
+    it('should log a security warning once per outage', async () => {
+      jest.mocked(Logger.security).mockClear();
+      redisConnected = false;
+      await loginProtectionService.assertLoginAllowed(attempt);
+      await loginProtectionService.assertLoginAllowed(attempt);
+      expect(Logger.security).toHaveBeenCalledTimes(1);
+      redisConnected = true;
+      await loginProtectionService.assertLoginAllowed(attempt);
+      redisConnected = false;
+      await loginProtectionService.assertLoginAllowed(attempt);
+      expect(Logger.security).toHaveBeenCalledTimes(2);
+    });
+    it('should let logins through when a Redis command fails', async () => {
+      jest.spyOn(redis, 'ttl').mockRejectedValueOnce(new Error('Connection is closed.'));
+      await expect(loginProtectionService.assertLoginAllowed(attempt)).resolves.toBeUndefined();
+      jest.spyOn(redis, 'get').mockRejectedValueOnce(new Error('Connection is closed.'));
+      await expect(loginProtectionService.assertLoginAllowed(attempt)).resolves.toBeUndefined();
+    });
+  });
+  describe('calculateDelayMs', () => {
+    it('should grow exponentially and cap at the maximum', () => {
+      config.LOGIN_DELAY_BASE_MS = 250;
+      try {
+        expect(loginProtectionService.calculateDelayMs(0)).toBe(0);
+        expect(loginProtectionService.calculateDelayMs(1)).toBe(250);
+        expect(loginProtectionService.calculateDelayMs(3)).toBe(1000);
+        expect(loginProtectionService.calculateDelayMs(20)).toBe(config.LOGIN_DELAY_MAX_MS);
+      } finally {
+        config.LOGIN_DELAY_BASE_MS = 0;
+      }
+    });
+  });
+});
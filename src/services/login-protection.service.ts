@@ -0,0 +1,173 @@
+import Redis from 'ioredis';
+import { redisClient } from '../config/redis';
+import { config } from '../config/env';
+import { AppError } from '../utils/app-error';
+import Logger from '../utils/logger';
+export interface LoginAttemptContext {
+  email: string;
+  ip?: string | undefined;
+}
+export class LoginProtectionService {
+  private static instance: LoginProtectionService;
+  private readonly ACCOUNT_FAILURES_PREFIX = 'login_failures:account:';
+  private readonly IP_FAILURES_PREFIX = 'login_failures:ip:';
+  private readonly ACCOUNT_LOCK_PREFIX = 'login_lock:account:';
+  private readonly IP_LOCK_PREFIX = 'login_lock:ip:';
+  private redisUnavailable = false;
+  private constructor() {}
+  public static getInstance(): LoginProtectionService {
+    if (!LoginProtectionService.instance) {
+      LoginProtectionService.instance = new LoginProtectionService();
+    }
+    return LoginProtectionService.instance;
+  }
+  public async assertLoginAllowed(attempt: LoginAttemptContext): Promise<void> {
+    const redis = this.getRedis();
+    if (!redis) {
+      return;
+    }
+    const email = this.normalizeEmail(attempt.email);
+    let accountLockTtl: number;
+    let ipLockTtl: number;
+    try {
+      accountLockTtl = await redis.ttl(`${this.ACCOUNT_LOCK_PREFIX}${email}`);
+      ipLockTtl = attempt.ip ? await redis.ttl(`${this.IP_LOCK_PREFIX}${attempt.ip}`) : -2;
+    } catch (error) {
+      Logger.error('Failed to check login lockouts, skipping login protection', error as Error, { email, ip: attempt.ip });
+      return;
+    }
+    if (accountLockTtl > 0) {
+      Logger.security('Login blocked - account locked', { email, ip: attempt.ip, retryAfterSeconds: accountLockTtl });
+      throw new AppError(
+        `Account temporarily locked due to too many failed login attempts. Try again in ${this.formatDuration(accountLockTtl)}`,
+        423,
+        'ACCOUNT_LOCKED'
+      );
+    }
+    if (ipLockTtl > 0) {
+      Logger.security('Login blocked - IP locked', { email, ip: attempt.ip, retryAfterSeconds: ipLockTtl });
+      throw new AppError(
+        `Too many failed login attempts from this IP. Try again in ${this.formatDuration(ipLockTtl)}`,
+        429,
+        'TOO_MANY_LOGIN_ATTEMPTS'
+      );
+    }
+    const delayMs = await this.getDelayMs(attempt);
+    if (delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+  public async getDelayMs(attempt: LoginAttemptContext): Promise<number> {
+    const redis = this.getRedis();
+    if (!redis) {
+      return 0;
+    }
+    const email = this.normalizeEmail(attempt.email);
+    try {
+      const accountFailures = parseInt(await redis.get(`${this.ACCOUNT_FAILURES_PREFIX}${email}`) || '0');
+      const ipFailures = attempt.ip
+        ? parseInt(await redis.get(`${this.IP_FAILURES_PREFIX}${attempt.ip}`) || '0')
+        : 0;
+      return this.calculateDelayMs(Math.max(accountFailures, ipFailures));
+    } catch (error) {
+      Logger.error('Failed to read login failure counters', error as Error, { email, ip: attempt.ip });
+      return 0;
+    }
+  }
+  public calculateDelayMs(failures: number): number {
+    if (failures <= 0) {
+      return 0;
+    }
+    return Math.min(config.LOGIN_DELAY_BASE_MS * 2 ** (failures - 1), config.LOGIN_DELAY_MAX_MS);
+  }
+  public async recordFailure(attempt: LoginAttemptContext, reason: string): Promise<void> {
+    const redis = this.getRedis();
+    if (!redis) {
+      return;
+    }
+    try {
+      const email = this.normalizeEmail(attempt.email);
+      const accountFailures = await this.incrementCounter(redis, `${this.ACCOUNT_FAILURES_PREFIX}${email}`);
+      if (accountFailures >= config.LOGIN_MAX_ACCOUNT_FAILURES) {
+        await redis.set(`${this.ACCOUNT_LOCK_PREFIX}${email}`, '1', 'EX', config.LOGIN_LOCKOUT_SECONDS);
+        await redis.del(`${this.ACCOUNT_FAILURES_PREFIX}${email}`);
+        Logger.security('Account locked after repeated failed logins', {
+          email,
+          ip: attempt.ip,
+          failures: accountFailures,
+          lockoutSeconds: config.LOGIN_LOCKOUT_SECONDS
+        });
+      }
+      if (attempt.ip) {
+        const ipFailures = await this.incrementCounter(redis, `${this.IP_FAILURES_PREFIX}${attempt.ip}`);
+        if (ipFailures >= config.LOGIN_MAX_IP_FAILURES) {
+          await redis.set(`${this.IP_LOCK_PREFIX}${attempt.ip}`, '1', 'EX', config.LOGIN_LOCKOUT_SECONDS);
+          await redis.del(`${this.IP_FAILURES_PREFIX}${attempt.ip}`);
+          Logger.security('IP locked after repeated failed logins', {
+            ip: attempt.ip,
+            failures: ipFailures,
+            lockoutSeconds: config.LOGIN_LOCKOUT_SECONDS
+          });
+        }
+      }
+      Logger.security('Failed login attempt recorded', { email, ip: attempt.ip, reason, accountFailures });
+    } catch (error) {
+      Logger.error('Failed to record login failure', error as Error, { email: attempt.email, ip: attempt.ip });
+    }
+  }
+  public async recordSuccess(attempt: LoginAttemptContext): Promise<void> {
+    const redis = this.getRedis();
+    if (!redis) {
+      return;
+    }
+    try {
+      await redis.del(`${this.ACCOUNT_FAILURES_PREFIX}${this.normalizeEmail(attempt.email)}`);
+    } catch (error) {
+      Logger.error('Failed to reset login failures', error as Error, { email: attempt.email });
+    }
+  }
+  public async unlockAccount(email: string): Promise<void> {
+    const redis = this.getRedis();
+    if (!redis) {
+      return;
+    }
+    const normalizedEmail = this.normalizeEmail(email);
+    await redis.del(
+      `${this.ACCOUNT_LOCK_PREFIX}${normalizedEmail}`,
+      `${this.ACCOUNT_FAILURES_PREFIX}${normalizedEmail}`
+    );
+    Logger.security('Account lockout cleared', { email: normalizedEmail });
+  }
+  private async incrementCounter(redis: Redis, key: string): Promise<number> {
+    const count = await redis.incr(key);
+    if (count === 1) {
+      await redis.expire(key, config.LOGIN_FAILURE_WINDOW_SECONDS);
+    }
+    return count;
+  }
+  private getRedis(): Redis | null {
+    if (!redisClient.isClientConnected()) {
+      if (!this.redisUnavailable) {
+        this.redisUnavailable = true;
+        Logger.security('Redis unavailable, login protection disabled until it reconnects');
+      } else {
+        Logger.debug('Redis unavailable, skipping login protection');
+      }
+      return null;
+    }
+    if (this.redisUnavailable) {
+      this.redisUnavailable = false;
+      Logger.info('Redis reconnected, login protection restored');
+    }
+    return redisClient.getClient();
+  }
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+  private formatDuration(seconds: number): string {
+    const minutes = Math.ceil(seconds / 60);
+    return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+  }
+}
+export const loginProtectionService = LoginProtectionService.getInstance();
+export default loginProtectionService;
@@ -0,0 +1,74 @@
+import { RedisMemoryServer } from 'redis-memory-server';
+import Redis from 'ioredis';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import { MagicLinkService } from './magic-link.service';
+import { IUser } from '../models/user.model';
+import { config } from '../config/env';
+jest.mock('../utils/logger');
+describe('MagicLinkService', () => {
+  let redisServer: RedisMemoryServer;
+  let redis: Redis;
+  let connected: boolean;
+  let magicLinkService: MagicLinkService;
+  const user = { _id: new Types.ObjectId(), email: 'test@example.com' } as IUser;
+  beforeAll(async () => {
+    redisServer = new RedisMemoryServer();
+    const host = await redisServer.getHost();
+    const port = await redisServer.getPort();
+    redis = new Redis({
+      host,
+      port,
+      maxRetriesPerRequest: 1
+    });
+    const mockRedisClient = {
+      getClient: () => redis,
+      isClientConnected: () => connected
+    };
+    jest.doMock('../config/redis', () => ({
+      redisClient: mockRedisClient
+    }));
+    const { MagicLinkService: MockedMagicLinkService } = await import('./magic-link.service');
+    magicLinkService = MockedMagicLinkService.getInstance();
+  });
+  afterAll(async () => {
+    await redis.disconnect();
+    await redisServer.stop();
+  });
+  beforeEach(async () => {
+    connected = true;
+    await redis.flushall();
+  });
+  it('should accept a link exactly once', async () => {
+    const token = magicLinkService.issue(user);
+    const payload = await magicLinkService.consume(token);
+    expect(payload).toMatchObject({ userId: user._id.toString(), email: user.email });
+    expect(await redis.ttl(`magic_link_used:${payload.jti}`)).toBeGreaterThan(0);
+    await expect(magicLinkService.consume(token)).rejects.toMatchObject({
+      statusCode: 400,
+      errorCode: 'INVALID_MAGIC_LINK'
+    });
+  });
+  it('should reject expired links', async () => {
+    const token = jwt.sign(
+      { userId: user._id.toString(), email: user.email, purpose: 'magic_link' },
+      config.MAGIC_LINK_SECRET,
+      { expiresIn: -1, jwtid: 'expired' }
+    );
+    await expect(magicLinkService.consume(token)).rejects.toMatchObject({ errorCode: 'INVALID_MAGIC_LINK' });
+  });
+  it('should reject tokens issued for another purpose', async () => {
+    const token = jwt.sign(
+      { userId: user._id.toString(), purpose: 'two_factor_challenge' },
+      config.MAGIC_LINK_SECRET,
+      { expiresIn: 60, jwtid: 'other' }
+    );
+    await expect(magicLinkService.consume(token)).rejects.toMatchObject({ errorCode: 'INVALID_MAGIC_LINK' });
+  });
+  it('should fail closed when Redis is unavailable', async () => {
+    const token = magicLinkService.issue(user);
+    connected = false;
+    expect(() => magicLinkService.assertAvailable()).toThrow(expect.objectContaining({ statusCode: 503 }));
+    await expect(magicLinkService.consume(token)).rejects.toMatchObject({ errorCode: 'MAGIC_LINK_UNAVAILABLE' });
+  });
+});
@@ -0,0 +1,64 @@
+import Redis from 'ioredis';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { redisClient } from '../config/redis';
+import { config } from '../config/env';
+import { IUser } from '../models/user.model';
+import { AppError } from '../utils/app-error';
+import Logger from '../utils/logger';
+const MAGIC_LINK_PURPOSE = 'magic_link';
+export interface MagicLinkPayload {
+  userId: string;
+  email: string;
+  purpose: typeof MAGIC_LINK_PURPOSE;
+  jti: string;
+  exp: number;
+}
+export class MagicLinkService {
+  private static instance: MagicLinkService;
+  private readonly USED_PREFIX = 'magic_link_used:';
+  private constructor() {}
+  public static getInstance(): MagicLinkService {
+    if (!MagicLinkService.instance) {
+      MagicLinkService.instance = new MagicLinkService();
+    }
+    return MagicLinkService.instance;
+  }
+  public assertAvailable(): void {
+    if (!redisClient.isClientConnected()) {
+      throw new AppError('Magic link sign-in is temporarily unavailable', 503, 'MAGIC_LINK_UNAVAILABLE');
+    }
+  }
+  public issue(user: IUser): string {
+    return jwt.sign(
+      { userId: user._id.toString(), email: user.email, purpose: MAGIC_LINK_PURPOSE },
+      config.MAGIC_LINK_SECRET,
+      { expiresIn: config.MAGIC_LINK_TTL_SECONDS, jwtid: uuidv4() }
+    );
+  }
+  public async consume(token: string): Promise<MagicLinkPayload> {
+    let payload: MagicLinkPayload;
+    try {
+      payload = jwt.verify(token, config.MAGIC_LINK_SECRET, { algorithms: ['HS256'] }) as MagicLinkPayload;
+    } catch (error) {
+      throw new AppError('Invalid or expired magic link', 400, 'INVALID_MAGIC_LINK');
+    }
+    if (payload.purpose !== MAGIC_LINK_PURPOSE || !payload.jti) {
+      throw new AppError('Invalid or expired magic link', 400, 'INVALID_MAGIC_LINK');
+    }
+    if (!(await this.markUsed(payload.jti, payload.exp))) {
+      Logger.security('Magic link reuse attempt', { userId: payload.userId, jti: payload.jti });
+      throw new AppError('Invalid or expired magic link', 400, 'INVALID_MAGIC_LINK');
+    }
+    return payload;
+  }
+  public async markUsed(jti: string, expiresAt: number): Promise<boolean> {
+    this.assertAvailable();
+    const redis: Redis = redisClient.getClient();
+    const ttlSeconds = Math.max(expiresAt - Math.floor(Date.now() / 1000), 1);
+    const result = await redis.set(`${this.USED_PREFIX}${jti}`, '1', 'EX', ttlSeconds, 'NX');
+    return result === 'OK';
+  }
+}
+export const magicLinkService = MagicLinkService.getInstance();
+export default magicLinkService;
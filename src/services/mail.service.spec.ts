@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MailService, FileMailTransport, ConsoleMailTransport, createMailTransport } from './mail.service';
+import { AppError } from '../utils/app-error';
+jest.mock('../utils/logger');
+describe('MailService', () => {
+  const message = {
+    to: 'test@example.com',
+    subject: 'Hello',
+    text: 'Hello there'
+  };
+  describe('createMailTransport', () => {
+    it('should create the configured transport', () => {
+      expect(createMailTransport('console')).toBeInstanceOf(ConsoleMailTransport);
+      expect(createMailTransport('file')).toBeInstanceOf(FileMailTransport);
+    });
+    it('should reject unknown transports', () => {
+      expect(() => createMailTransport('carrier-pigeon')).toThrow('Unknown mail transport: carrier-pigeon');
+    });
+  });
+  describe('FileMailTransport', () => {
+    let directory: string;
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-'));
+    });
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+    it('should write each email to a JSON file', async () => {
+      const transport = new FileMailTransport(directory);
+      await transport.send({ ...message, from: 'no-reply@localhost' });
+      const files = await fs.readdir(directory);
+      expect(files).toHaveLength(1);
+      const written = JSON.parse(await fs.readFile(path.join(directory, files[0]), 'utf8'));
+      expect(written).toMatchObject({ ...message, from: 'no-reply@localhost' });
+      expect(written.sentAt).toBeDefined();
+    });
+  });
+  describe('send', () => {
+    it('should deliver through the active transport with the sender address', async () => {
+      const send = jest.fn().mockResolvedValue(undefined);
+      const mailService = MailService.getInstance();
+      mailService.setTransport({ name: 'test', send });
+      await mailService.send(message);
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({ ...message, from: expect.any(String) }));
+    });
+    it('should wrap transport failures in an AppError', async () => {
+      const mailService = MailService.getInstance();
+      mailService.setTransport({ name: 'test', send: jest.fn().mockRejectedValue(new Error('SMTP down')) });
+      await expect(mailService.send(message)).rejects.toMatchObject({
+        statusCode: 500,
+        errorCode: 'MAIL_SEND_FAILED'
+      });
+      await expect(mailService.send(message)).rejects.toBeInstanceOf(AppError);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/env';
+import { MailMessage, MailTransport, MAIL_TRANSPORTS } from '../types/mail.types';
+import { AppError } from '../utils/app-error';
+import Logger from '../utils/logger';
+export class ConsoleMailTransport implements MailTransport {
+  public readonly name = MAIL_TRANSPORTS.CONSOLE;
+  public async send(message: MailMessage & { from: string }): Promise<void> {
+    Logger.info('[MAIL] Outgoing email', {
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      category: 'mail'
+    });
+  }
+}
+export class FileMailTransport implements MailTransport {
+  public readonly name = MAIL_TRANSPORTS.FILE;
+  constructor(private readonly directory: string) {}
+  public async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${uuidv4()}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+export function createMailTransport(name: string): MailTransport {
+  switch (name) {
+    case MAIL_TRANSPORTS.CONSOLE:
+      return new ConsoleMailTransport();
+    case MAIL_TRANSPORTS.FILE:
+      return new FileMailTransport(config.MAIL_FILE_DIR);
+    default:
+      throw new Error(`Unknown mail transport: ${name}`);
+  }
+}
+export class MailService {
+  private static instance: MailService;
+  private transport: MailTransport;
+  private constructor() {
+    this.transport = createMailTransport(config.MAIL_TRANSPORT);
+  }
+  public static getInstance(): MailService {
+    if (!MailService.instance) {
+      MailService.instance = new MailService();
+    }
+    return MailService.instance;
+  }
+  public setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+  public getTransport(): MailTransport {
+    return this.transport;
+  }
+  public async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({ ...message, from: config.MAIL_FROM });
+      Logger.info('[MAIL] Email sent', {
+        to: message.to,
+        subject: message.subject,
+        transport: this.transport.name,
+        category: 'mail'
+      });
+    } catch (error) {
+      Logger.error('[MAIL] Failed to send email', error as Error, {
+        to: message.to,
+        subject: message.subject,
+        transport: this.transport.name,
+        category: 'mail'
+      });
+      throw new AppError('Failed to send email', 500, 'MAIL_SEND_FAILED');
+    }
+  }
+}
+export const mailService = MailService.getInstance();
+export default mailService;
@@ -3,11 +3,20 @@ import Message from '../models/message.model';
 import Conversation from '../models/conversation.model';
 import AutoMessage from '../models/auto-message.model';
 import User from '../models/user.model';
+import { conversationService } from './conversation.service';
+import { AppError } from '../utils/app-error';
 import { QueueMessageData } from '../types/queue.types';
 jest.mock('../models/message.model');
 jest.mock('../models/conversation.model');
 jest.mock('../models/auto-message.model');
-jest.mock('../models/user.model');
+jest.mock('../models/user-block.model');
+jest.mock('../models/user.model', () => ({
+  ...jest.createMockFromModule<object>('../models/user.model'),
+  toPublicUser: jest.requireActual('../models/user.model').toPublicUser
+}));
+jest.mock('./conversation.service', () => ({
+  conversationService: { assertCanMessage: jest.fn() }
+}));
 jest.mock('../utils/logger');
 const mockMessage = Message as jest.Mocked<typeof Message>;
 const mockConversation = Conversation as jest.Mocked<typeof Conversation>;
@@ -172,6 +181,22 @@ describe('MessageConsumerService', () => {
       expect(result.success).toBe(false);
       expect(result.error).toContain('Receiver user is not active');
     });
+    it('should not message receivers who only accept messages from contacts', async () => {
+      mockUser.findById
+        .mockResolvedValueOnce({ _id: validQueueMessage.senderId, isActive: true } as any)
+        .mockResolvedValueOnce({ _id: validQueueMessage.receiverId, isActive: true } as any);
+      (conversationService.assertCanMessage as jest.Mock).mockRejectedValueOnce(
+        new AppError('This user only accepts messages from contacts', 403, 'CONTACTS_ONLY')
+      );
+      const result = await messageConsumerService.processQueueMessage(validQueueMessage);
+      expect(conversationService.assertCanMessage).toHaveBeenCalledWith(
+        validQueueMessage.senderId,
+        [validQueueMessage.receiverId]
+      );
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('only accepts messages from contacts');
+      expect(mockConversation.findOne).not.toHaveBeenCalled();
+    });
     it('should handle database errors gracefully', async () => {
       mockUser.findById.mockRejectedValue(new Error('Database error'));
       const result = await messageConsumerService.processQueueMessage(validQueueMessage);
@@ -198,14 +223,39 @@ describe('MessageConsumerService', () => {
         conversationId: 'conv123',
         senderId: 'user123',
         senderInfo: {
-          _id: 'user123',
+          id: 'user123',
           username: 'testuser',
-          email: 'test@example.com'
+          email: null,
+          displayName: null,
+          bio: null,
+          avatarUrl: null,
+          statusText: null,
+          statusExpiresAt: null,
+          lastSeenAt: null
         },
         content: 'Test message',
         createdAt: '2023-01-01T00:00:00.000Z',
         isAutoMessage: true
       });
     });
+    it('should only reveal sender details their privacy settings allow', () => {
+      const lastSeenAt = new Date('2023-01-01T00:00:00.000Z');
+      const mockMessage = {
+        _id: 'msg123',
+        conversationId: 'conv123',
+        senderId: {
+          _id: 'user123',
+          username: 'testuser',
+          email: 'test@example.com',
+          lastSeenAt,
+          privacy: { emailVisibility: 'conversations', lastSeenVisibility: 'nobody' }
+        },
+        content: 'Test message',
+        createdAt: new Date('2023-01-01T00:00:00.000Z')
+      };
+      const { senderInfo } = messageConsumerService.createNotificationData(mockMessage);
+      expect(senderInfo.email).toBe('test@example.com');
+      expect(senderInfo.lastSeenAt).toBeNull();
+    });
   });
 });
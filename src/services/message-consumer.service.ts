@@ -2,8 +2,12 @@ import { Types } from 'mongoose';
 import Message from '../models/message.model';
 import Conversation from '../models/conversation.model';
 import AutoMessage from '../models/auto-message.model';
-import User from '../models/user.model';
+import User, { USER_PUBLIC_FIELDS, PublicUser, toPublicUser } from '../models/user.model';
+import UserBlock from '../models/user-block.model';
+import { VIEWER_RELATIONS } from '../constants/privacy';
+import { CONVERSATION_TYPES } from '../constants/conversations';
 import { QueueMessageData } from '../types/queue.types';
+import { conversationService } from './conversation.service';
 import { AppError } from '../utils/app-error';
 import Logger from '../utils/logger';
 export interface MessageProcessingResult {
@@ -16,11 +20,7 @@ export interface AutoMessageNotification {
   messageId: string;
   conversationId: string;
   senderId: string;
-  senderInfo: {
-    _id: string;
-    username: string;
-    email: string;
-  };
+  senderInfo: PublicUser;
   content: string;
   createdAt: string;
   isAutoMessage: true;
@@ -113,15 +113,21 @@ export class MessageConsumerService {
     if (!receiver.isActive) {
       throw new AppError('Receiver user is not active', 400, 'RECEIVER_INACTIVE');
     }
+    if (await UserBlock.isBlockedBetween(sender._id, receiver._id)) {
+      throw new AppError('Sender and receiver have blocked each other', 403, 'USER_BLOCKED');
+    }
+    await conversationService.assertCanMessage(senderId, [receiverId]);
   }
   private async createOrFindConversation(senderId: string, receiverId: string): Promise<Types.ObjectId> {
     try {
       const existingConversation = await Conversation.findOne({
+        type: { $ne: CONVERSATION_TYPES.GROUP },
         participants: {
           $all: [
             new Types.ObjectId(senderId),
             new Types.ObjectId(receiverId)
-          ]
+          ],
+          $size: 2
         }
       });
       if (existingConversation) {
@@ -169,7 +175,7 @@ export class MessageConsumerService {
         isRead: false
       });
       await message.save();
-      await message.populate('senderId', 'username email');
+      await message.populate('senderId', USER_PUBLIC_FIELDS);
       Logger.info('[MESSAGE_CONSUMER] Message created successfully', {
         messageId: message._id.toString(),
         conversationId: conversationId.toString(),
@@ -212,11 +218,7 @@ export class MessageConsumerService {
       messageId: message._id.toString(),
       conversationId: message.conversationId.toString(),
       senderId: message.senderId._id.toString(),
-      senderInfo: {
-        _id: message.senderId._id.toString(),
-        username: message.senderId.username,
-        email: message.senderId.email
-      },
+      senderInfo: toPublicUser(message.senderId, VIEWER_RELATIONS.CONVERSATION),
       content: message.content,
       createdAt: message.createdAt.toISOString(),
       isAutoMessage: true
@@ -3,7 +3,9 @@ import { messageService } from './message.service';
 import Message from '../models/message.model';
 import User from '../models/user.model';
 import Conversation from '../models/conversation.model';
+import { preferencesService } from './preferences.service';
 import { AppError } from '../utils/app-error';
+import { config } from '../config/env';
 describe('MessageService', () => {
   let user1: any;
   let user2: any;
@@ -186,6 +188,20 @@ describe('MessageService', () => {
       expect(updatedConversation?.lastMessage?.content).toBe(content);
       expect(updatedConversation?.lastMessage?.sender).toEqual(user1._id);
     });
+    it('should reject unverified senders when email verification is required', async () => {
+      const originalSetting = config.EMAIL_VERIFICATION_REQUIRED;
+      config.EMAIL_VERIFICATION_REQUIRED = true;
+      try {
+        await expect(
+          messageService.createMessage(conversation._id.toString(), user1._id.toString(), 'Hello')
+        ).rejects.toMatchObject({ statusCode: 403, errorCode: 'EMAIL_NOT_VERIFIED' });
+        await User.updateOne({ _id: user1._id }, { emailVerified: true });
+        const message = await messageService.createMessage(conversation._id.toString(), user1._id.toString(), 'Hello');
+        expect(message.content).toBe('Hello');
+      } finally {
+        config.EMAIL_VERIFICATION_REQUIRED = originalSetting;
+      }
+    });
     it('should throw error for invalid conversation ID', async () => {
       await expect(
         messageService.createMessage(
@@ -259,4 +275,19 @@ describe('MessageService', () => {
       expect(message.content).toBe('Hello World');
     });
   });
+  describe('markMessageRead', () => {
+    it('should record the read state when the reader shares read receipts', async () => {
+      const sent = await messageService.createMessage(conversation._id.toString(), user1._id.toString(), 'Hello');
+      const read = await messageService.markMessageRead(sent._id.toString(), conversation._id.toString(), user2._id.toString());
+      expect(read?.isRead).toBe(true);
+      expect((await Message.findById(sent._id))!.isRead).toBe(true);
+    });
+    it('should not record the read state when the reader has read receipts disabled', async () => {
+      await preferencesService.updatePreferences(user2._id.toString(), { readReceipts: false });
+      const sent = await messageService.createMessage(conversation._id.toString(), user1._id.toString(), 'Hello');
+      const read = await messageService.markMessageRead(sent._id.toString(), conversation._id.toString(), user2._id.toString());
+      expect(read).toBeNull();
+      expect((await Message.findById(sent._id))!.isRead).toBe(false);
+    });
+  });
 });
@@ -1,16 +1,17 @@
 import { Types } from 'mongoose';
 import Message, { IMessage } from '../models/message.model';
 import Conversation from '../models/conversation.model';
+import User, { USER_PUBLIC_FIELDS, PublicUser, toPublicUser } from '../models/user.model';
+import { VIEWER_RELATIONS } from '../constants/privacy';
+import { conversationService } from './conversation.service';
+import { preferencesService } from './preferences.service';
+import { config } from '../config/env';
 import { AppError } from '../utils/app-error';
 import Logger from '../utils/logger';
 export interface MessageListItem {
   id: string;
   conversationId: string;
-  senderId: {
-    id: string;
-    username: string;
-    email: string;
-  };
+  senderId: PublicUser;
   content: string;
   isRead: boolean;
   createdAt: Date;
@@ -57,11 +58,10 @@ export class MessageService {
       const messages: MessageListItem[] = result.messages.map((message: any) => ({
         id: message._id.toString(),
         conversationId: message.conversationId.toString(),
-        senderId: {
-          id: message.senderId._id.toString(),
-          username: message.senderId.username,
-          email: message.senderId.email
-        },
+        senderId: toPublicUser(
+          message.senderId,
+          message.senderId._id.equals(userObjectId) ? VIEWER_RELATIONS.SELF : conversation.getParticipantRelation()
+        ),
         content: message.content,
         isRead: message.isRead,
         createdAt: message.createdAt,
@@ -117,6 +117,7 @@ export class MessageService {
       }
       const conversationObjectId = new Types.ObjectId(conversationId);
       const senderObjectId = new Types.ObjectId(senderId);
+      await this.assertSenderCanMessage(senderObjectId);
       const conversation = await Conversation.findById(conversationObjectId);
       if (!conversation) {
         throw new AppError('Conversation not found', 404);
@@ -124,6 +125,15 @@ export class MessageService {
       if (!conversation.isParticipant(senderObjectId)) {
         throw new AppError('Access denied: You are not a participant in this conversation', 403);
       }
+      if (!conversation.isGroup()) {
+        if (conversation.participants.length < 2) {
+          throw new AppError('This conversation is closed because the other participant deleted their account', 409, 'CONVERSATION_CLOSED');
+        }
+        await conversationService.assertCanMessage(
+          senderId,
+          conversation.participants.map(participantId => participantId.toString()).filter(participantId => participantId !== senderId)
+        );
+      }
       const message = new Message({
         conversationId: conversationObjectId,
         senderId: senderObjectId,
@@ -131,7 +141,7 @@ export class MessageService {
       });
       const savedMessage = await message.save();
       await conversation.updateLastMessage(content.trim(), senderObjectId);
-      await savedMessage.populate('senderId', 'username email');
+      await savedMessage.populate('senderId', USER_PUBLIC_FIELDS);
       Logger.info('Message created successfully', {
         messageId: savedMessage._id,
         conversationId,
@@ -148,5 +158,43 @@ export class MessageService {
       throw error;
     }
   }
+  public async markMessageRead(messageId: string, conversationId: string, userId: string): Promise<IMessage | null> {
+    if (!Types.ObjectId.isValid(messageId) || !Types.ObjectId.isValid(conversationId) || !Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid ID format', 400);
+    }
+    const userObjectId = new Types.ObjectId(userId);
+    const conversation = await Conversation.findById(conversationId);
+    if (!conversation) {
+      throw new AppError('Conversation not found', 404);
+    }
+    if (!conversation.isParticipant(userObjectId)) {
+      throw new AppError('Access denied: You are not a participant in this conversation', 403);
+    }
+    const message = await Message.findOne({ _id: messageId, conversationId: conversation._id });
+    if (!message) {
+      throw new AppError('Message not found', 404, 'MESSAGE_NOT_FOUND');
+    }
+    if (message.senderId.equals(userObjectId)) {
+      throw new AppError('You cannot mark your own message as read', 400, 'CANNOT_READ_OWN_MESSAGE');
+    }
+    const { readReceipts } = await preferencesService.getPreferences(userId);
+    if (!readReceipts) {
+      return null;
+    }
+    if (!message.isRead) {
+      message.isRead = true;
+      await message.save();
+    }
+    return message;
+  }
+  private async assertSenderCanMessage(senderId: Types.ObjectId): Promise<void> {
+    if (!config.EMAIL_VERIFICATION_REQUIRED) {
+      return;
+    }
+    const sender = await User.findById(senderId).select('emailVerified');
+    if (!sender || !sender.emailVerified) {
+      throw new AppError('Email address must be verified before sending messages', 403, 'EMAIL_NOT_VERIFIED');
+    }
+  }
 }
 export const messageService = new MessageService();
@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import OidcAuthRequest from '../models/oidc-auth-request.model';
+import { config, OidcProviderConfig } from '../config/env';
+import { AppError } from '../utils/app-error';
+import { createCodeChallenge, generateCodeVerifier, generateSecureToken, hashToken } from '../utils/crypto';
+import Logger from '../utils/logger';
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'];
+export interface OidcProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+export interface OidcAuthorizationRequest {
+  authorizationUrl: string;
+  state: string;
+  expiresIn: number;
+}
+export interface OidcIdentity {
+  provider: string;
+  subject: string;
+  email?: string | undefined;
+  emailVerified: boolean;
+  name?: string | undefined;
+  preferredUsername?: string | undefined;
+}
+export interface OidcProviderSummary {
+  id: string;
+  displayName: string;
+}
+interface IdTokenClaims {
+  sub: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  preferred_username?: string;
+}
+interface CacheEntry<T> {
+  value: T;
+  expiresAt: number;
+}
+export class OidcService {
+  private metadataCache = new Map<string, CacheEntry<OidcProviderMetadata>>();
+  private jwksCache = new Map<string, CacheEntry<crypto.JsonWebKey[]>>();
+  public listProviders(): OidcProviderSummary[] {
+    return config.OIDC_PROVIDERS.map(provider => ({ id: provider.id, displayName: provider.displayName }));
+  }
+  public getProvider(providerId: string): OidcProviderConfig {
+    const provider = config.OIDC_PROVIDERS.find(candidate => candidate.id === providerId);
+    if (!provider) {
+      throw new AppError('Identity provider not found', 404, 'OIDC_PROVIDER_NOT_FOUND');
+    }
+    return provider;
+  }
+  public async createAuthorizationRequest(providerId: string): Promise<OidcAuthorizationRequest> {
+    const provider = this.getProvider(providerId);
+    const metadata = await this.getMetadata(provider);
+    const state = generateSecureToken(32);
+    const nonce = generateSecureToken(16);
+    const codeVerifier = generateCodeVerifier();
+    const expiresIn = config.OIDC_AUTH_REQUEST_TTL_SECONDS;
+    await OidcAuthRequest.create({
+      provider: provider.id,
+      stateHash: hashToken(state),
+      nonce,
+      codeVerifier,
+      expiresAt: new Date(Date.now() + expiresIn * 1000)
+    });
+    const authorizationUrl = new URL(metadata.authorization_endpoint);
+    authorizationUrl.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: provider.redirectUri,
+      scope: provider.scopes.join(' '),
+      state,
+      nonce,
+      code_challenge: createCodeChallenge(codeVerifier),
+      code_challenge_method: 'S256'
+    }).toString();
+    return { authorizationUrl: authorizationUrl.toString(), state, expiresIn };
+  }
+  public async completeAuthorization(providerId: string, code: string, state: string): Promise<OidcIdentity> {
+    const provider = this.getProvider(providerId);
+    const authRequest = await OidcAuthRequest.findOneAndDelete({
+      provider: provider.id,
+      stateHash: hashToken(state),
+      expiresAt: { $gt: new Date() }
+    });
+    if (!authRequest) {
+      Logger.security('OIDC callback with unknown or expired state', { provider: provider.id });
+      throw new AppError('Invalid or expired login request', 400, 'INVALID_OIDC_STATE');
+    }
+    const metadata = await this.getMetadata(provider);
+    const idToken = await this.exchangeCode(provider, metadata, code, authRequest.codeVerifier);
+    const claims = await this.verifyIdToken(provider, metadata, idToken);
+    if (claims.nonce !== authRequest.nonce) {
+      Logger.security('OIDC ID token nonce mismatch', { provider: provider.id, subject: claims.sub });
+      throw new AppError('Invalid ID token', 401, 'INVALID_OIDC_TOKEN');
+    }
+    return {
+      provider: provider.id,
+      subject: claims.sub,
+      email: claims.email?.toLowerCase(),
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: claims.name,
+      preferredUsername: claims.preferred_username
+    };
+  }
+  private async exchangeCode(
+    provider: OidcProviderConfig,
+    metadata: OidcProviderMetadata,
+    code: string,
+    codeVerifier: string
+  ): Promise<string> {
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: provider.redirectUri,
+      client_id: provider.clientId,
+      code_verifier: codeVerifier
+    });
+    if (provider.clientSecret) {
+      body.set('client_secret', provider.clientSecret);
+    }
+    const tokens = await this.fetchJson<{ id_token?: string }>(provider, metadata.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: body.toString()
+    });
+    if (!tokens.id_token) {
+      throw new AppError('Identity provider did not return an ID token', 502, 'OIDC_PROVIDER_ERROR');
+    }
+    return tokens.id_token;
+  }
+  private async verifyIdToken(
+    provider: OidcProviderConfig,
+    metadata: OidcProviderMetadata,
+    idToken: string
+  ): Promise<IdTokenClaims> {
+    const kid = jwt.decode(idToken, { complete: true })?.header.kid;
+    const jwk = await this.getSigningKey(provider, metadata, kid);
+    try {
+      return jwt.verify(idToken, crypto.createPublicKey({ key: jwk, format: 'jwk' }), {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: metadata.issuer,
+        audience: provider.clientId
+      }) as IdTokenClaims;
+    } catch (error) {
+      Logger.security('OIDC ID token verification failed', {
+        provider: provider.id,
+        error: (error as Error).message
+      });
+      throw new AppError('Invalid ID token', 401, 'INVALID_OIDC_TOKEN');
+    }
+  }
+  private async getSigningKey(
+    provider: OidcProviderConfig,
+    metadata: OidcProviderMetadata,
+    kid?: string
+  ): Promise<crypto.JsonWebKey> {
+    const findKey = (keys: crypto.JsonWebKey[]) => keys.find(key =>
+      (key as { kid?: string }).kid === kid || (!kid && keys.length === 1)
+    );
+    const cached = this.jwksCache.get(provider.id);
+    const cachedKey = cached && cached.expiresAt > Date.now() ? findKey(cached.value) : undefined;
+    if (cachedKey) {
+      return cachedKey;
+    }
+    const { keys } = await this.fetchJson<{ keys: crypto.JsonWebKey[] }>(provider, metadata.jwks_uri);
+    this.jwksCache.set(provider.id, {
+      value: keys,
+      expiresAt: Date.now() + config.OIDC_METADATA_CACHE_SECONDS * 1000
+    });
+    const key = findKey(keys);
+    if (!key) {
+      throw new AppError('Invalid ID token', 401, 'INVALID_OIDC_TOKEN');
+    }
+    return key;
+  }
+  private async getMetadata(provider: OidcProviderConfig): Promise<OidcProviderMetadata> {
+    const cached = this.metadataCache.get(provider.id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.value;
+    }
+    const metadata = await this.fetchJson<OidcProviderMetadata>(
+      provider,
+      `${provider.issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`
+    );
+    if (metadata.issuer !== provider.issuer) {
+      Logger.error('OIDC discovery issuer mismatch', undefined, {
+        provider: provider.id,
+        expected: provider.issuer,
+        actual: metadata.issuer
+      });
+      throw new AppError('Identity provider is misconfigured', 502, 'OIDC_PROVIDER_ERROR');
+    }
+    this.metadataCache.set(provider.id, {
+      value: metadata,
+      expiresAt: Date.now() + config.OIDC_METADATA_CACHE_SECONDS * 1000
+    });
+    return metadata;
+  }
+  private async fetchJson<T>(provider: OidcProviderConfig, url: string, init: RequestInit = {}): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.timeout(config.OIDC_HTTP_TIMEOUT_MS) });
+    } catch (error) {
+      Logger.error('OIDC provider request failed', error as Error, { provider: provider.id, url });
+      throw new AppError('Identity provider is unavailable', 502, 'OIDC_PROVIDER_ERROR');
+    }
+    if (!response.ok) {
+      Logger.warn('OIDC provider returned an error', { provider: provider.id, url, status: response.status });
+      throw new AppError('Identity provider rejected the request', 502, 'OIDC_PROVIDER_ERROR');
+    }
+    return await response.json() as T;
+  }
+}
+export const oidcService = new OidcService();
+export default oidcService;
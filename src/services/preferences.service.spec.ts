@@ -0,0 +1,69 @@
+import { PreferencesService } from './preferences.service';
+import User from '../models/user.model';
+import UserPreferences from '../models/user-preferences.model';
+import { config } from '../config/env';
+jest.mock('../utils/logger');
+describe('PreferencesService', () => {
+  let preferencesService: PreferencesService;
+  let userId: string;
+  beforeEach(async () => {
+    preferencesService = new PreferencesService();
+    const user = await User.create({ username: 'traveller', email: 'traveller@example.com', password: 'Password123' });
+    userId = user._id.toString();
+  });
+  describe('getPreferences', () => {
+    it('should fall back to the configured defaults without storing a document', async () => {
+      const preferences = await preferencesService.getPreferences(userId);
+      expect(preferences).toEqual({
+        locale: config.DEFAULT_LOCALE,
+        timezone: config.DEFAULT_TIMEZONE,
+        quietHours: { enabled: false, start: '22:00', end: '08:00' },
+        notifications: { messages: true, contactRequests: true },
+        readReceipts: true,
+        autoMessages: true
+      });
+      expect(await UserPreferences.countDocuments()).toBe(0);
+    });
+  });
+  describe('updatePreferences', () => {
+    it('should merge partial updates into the stored preferences', async () => {
+      await preferencesService.updatePreferences(userId, { locale: 'en', quietHours: { enabled: true } });
+      const preferences = await preferencesService.updatePreferences(userId, {
+        timezone: 'America/New_York',
+        quietHours: { start: '23:30' },
+        notifications: { contactRequests: false }
+      });
+      expect(preferences).toMatchObject({
+        locale: 'en',
+        timezone: 'America/New_York',
+        quietHours: { enabled: true, start: '23:30', end: '08:00' },
+        notifications: { messages: true, contactRequests: false }
+      });
+      expect(await UserPreferences.countDocuments({ userId })).toBe(1);
+    });
+    it('should reject unknown time zones', async () => {
+      await expect(
+        preferencesService.updatePreferences(userId, { timezone: 'Mars/Olympus_Mons' })
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'INVALID_TIMEZONE' });
+    });
+  });
+  describe('shouldNotify', () => {
+    it('should respect notification toggles and quiet hours in the user time zone', async () => {
+      await preferencesService.updatePreferences(userId, {
+        timezone: 'America/New_York',
+        quietHours: { enabled: true, start: '22:00', end: '07:00' },
+        notifications: { contactRequests: false }
+      });
+      expect(await preferencesService.shouldNotify(userId, 'messages', new Date('2024-01-15T15:00:00Z'))).toBe(true);
+      expect(await preferencesService.shouldNotify(userId, 'messages', new Date('2024-01-16T04:00:00Z'))).toBe(false);
+      expect(await preferencesService.shouldNotify(userId, 'contactRequests', new Date('2024-01-15T15:00:00Z'))).toBe(false);
+    });
+  });
+  describe('getAutoMessageOptOutUserIds', () => {
+    it('should list users who opted out of automatic messages', async () => {
+      await preferencesService.updatePreferences(userId, { autoMessages: false });
+      const optedOut = await preferencesService.getAutoMessageOptOutUserIds();
+      expect(optedOut.map(id => id.toString())).toEqual([userId]);
+    });
+  });
+});
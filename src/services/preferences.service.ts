@@ -0,0 +1,93 @@
+import { Types } from 'mongoose';
+import UserPreferences, { IUserPreferences } from '../models/user-preferences.model';
+import { config } from '../config/env';
+import { NotificationType, SupportedLocale, resolveSupportedLocale } from '../constants/preferences';
+import { AppError } from '../utils/app-error';
+import { QuietHours, isValidTimeZone, isWithinQuietHours } from '../utils/timezone';
+import Logger from '../utils/logger';
+export interface UserPreferencesSettings {
+  locale: SupportedLocale;
+  timezone: string;
+  quietHours: QuietHours;
+  notifications: Record<NotificationType, boolean>;
+  readReceipts: boolean;
+  autoMessages: boolean;
+}
+export interface UpdatePreferencesData {
+  locale?: SupportedLocale | undefined;
+  timezone?: string | undefined;
+  quietHours?: Partial<QuietHours> | undefined;
+  notifications?: Partial<Record<NotificationType, boolean>> | undefined;
+  readReceipts?: boolean | undefined;
+  autoMessages?: boolean | undefined;
+}
+export class PreferencesService {
+  public async getPreferences(userId: string): Promise<UserPreferencesSettings> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const preferences = await UserPreferences.findOne({ userId: new Types.ObjectId(userId) }).lean();
+    return this.toSettings(preferences);
+  }
+  public async getPreferencesForUsers(userIds: string[]): Promise<Map<string, UserPreferencesSettings>> {
+    const preferences = await UserPreferences.find({
+      userId: { $in: userIds.map(userId => new Types.ObjectId(userId)) }
+    }).lean();
+    const preferencesByUser = new Map(preferences.map(preference => [preference.userId.toString(), preference]));
+    return new Map(userIds.map(userId => [userId, this.toSettings(preferencesByUser.get(userId) || null)]));
+  }
+  public async updatePreferences(userId: string, updateData: UpdatePreferencesData): Promise<UserPreferencesSettings> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    if (updateData.timezone !== undefined && !isValidTimeZone(updateData.timezone)) {
+      throw new AppError(`Unknown time zone: ${updateData.timezone}`, 400, 'INVALID_TIMEZONE');
+    }
+    const update: Record<string, string | boolean> = {};
+    for (const field of ['locale', 'timezone', 'readReceipts', 'autoMessages'] as const) {
+      if (updateData[field] !== undefined) {
+        update[field] = updateData[field]!;
+      }
+    }
+    for (const group of ['quietHours', 'notifications'] as const) {
+      for (const [key, value] of Object.entries(updateData[group] || {})) {
+        if (value !== undefined) {
+          update[`${group}.${key}`] = value;
+        }
+      }
+    }
+    const preferences = await UserPreferences.findOneAndUpdate(
+      { userId: new Types.ObjectId(userId) },
+      { $set: update },
+      { upsert: true, new: true, runValidators: true }
+    ).lean();
+    Logger.info('User preferences updated', { userId, fields: Object.keys(update) });
+    return this.toSettings(preferences);
+  }
+  public async getAutoMessageOptOutUserIds(): Promise<Types.ObjectId[]> {
+    return UserPreferences.distinct('userId', { autoMessages: false });
+  }
+  public async shouldNotify(userId: string, type: NotificationType, now: Date = new Date()): Promise<boolean> {
+    const preferences = await this.getPreferences(userId);
+    return preferences.notifications[type] && !isWithinQuietHours(preferences.quietHours, preferences.timezone, now);
+  }
+  private toSettings(preferences: Partial<IUserPreferences> | null): UserPreferencesSettings {
+    return {
+      locale: preferences?.locale || resolveSupportedLocale(config.DEFAULT_LOCALE, 'tr'),
+      timezone: preferences?.timezone || config.DEFAULT_TIMEZONE,
+      quietHours: {
+        enabled: preferences?.quietHours?.enabled ?? false,
+        start: preferences?.quietHours?.start || '22:00',
+        end: preferences?.quietHours?.end || '08:00'
+      },
+      notifications: {
+        messages: preferences?.notifications?.messages ?? true,
+        contactRequests: preferences?.notifications?.contactRequests ?? true
+      },
+      readReceipts: preferences?.readReceipts ?? true,
+      autoMessages: preferences?.autoMessages ?? true
+    };
+  }
+}
+export const preferencesService = new PreferencesService();
+export default preferencesService;
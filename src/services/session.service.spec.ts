@@ -0,0 +1,86 @@
+import jwt from 'jsonwebtoken';
+import { SessionService } from './session.service';
+import { AuthService, AuthTokens, JWTPayload } from './auth.service';
+import User from '../models/user.model';
+import { AppError } from '../utils/app-error';
+describe('SessionService', () => {
+  let sessionService: SessionService;
+  let authService: AuthService;
+  let userId: string;
+  const validUserData = {
+    username: 'testuser',
+    email: 'test@example.com',
+    password: 'Password123'
+  };
+  const getSessionId = (accessToken: string): string =>
+    (jwt.decode(accessToken) as JWTPayload).sessionId!;
+  beforeEach(async () => {
+    sessionService = new SessionService();
+    authService = new AuthService();
+    await authService.register(validUserData, {
+      userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X)',
+      ip: '10.0.0.1'
+    });
+    const user = await User.findOne({ email: validUserData.email });
+    userId = user!._id.toString();
+  });
+  describe('listSessions', () => {
+    it('should list every active login with device details', async () => {
+      const { accessToken } = await authService.login(
+        { email: validUserData.email, password: validUserData.password },
+        { userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)', ip: '10.0.0.2', deviceLabel: 'Work laptop' }
+      ) as AuthTokens;
+      const sessions = await sessionService.listSessions(userId, getSessionId(accessToken));
+      expect(sessions).toHaveLength(2);
+      const current = sessions.find(session => session.isCurrent);
+      expect(current).toMatchObject({
+        deviceLabel: 'Work laptop',
+        ip: '10.0.0.2'
+      });
+      const other = sessions.find(session => !session.isCurrent);
+      expect(other).toMatchObject({
+        deviceLabel: 'iOS device',
+        ip: '10.0.0.1'
+      });
+    });
+    it('should keep a single session across refresh token rotation', async () => {
+      const tokens = await authService.login({ email: validUserData.email, password: validUserData.password }) as AuthTokens;
+      const rotated = await authService.refreshTokens({ refreshToken: tokens.refreshToken });
+      const sessions = await sessionService.listSessions(userId);
+      expect(sessions).toHaveLength(2);
+      expect(getSessionId(rotated.accessToken)).toBe(getSessionId(tokens.accessToken));
+    });
+  });
+  describe('revokeSession', () => {
+    it('should revoke the session and its refresh token', async () => {
+      const tokens = await authService.login({ email: validUserData.email, password: validUserData.password }) as AuthTokens;
+      await sessionService.revokeSession(userId, getSessionId(tokens.accessToken));
+      const sessions = await sessionService.listSessions(userId);
+      expect(sessions).toHaveLength(1);
+      await expect(
+        authService.refreshTokens({ refreshToken: tokens.refreshToken })
+      ).rejects.toThrow(AppError);
+    });
+    it('should not revoke sessions belonging to another user', async () => {
+      const otherTokens = await authService.register({
+        username: 'otheruser',
+        email: 'other@example.com',
+        password: 'Password123'
+      });
+      await expect(
+        sessionService.revokeSession(userId, getSessionId(otherTokens.accessToken))
+      ).rejects.toMatchObject({ statusCode: 404, errorCode: 'SESSION_NOT_FOUND' });
+    });
+  });
+  describe('revokeOtherSessions', () => {
+    it('should keep only the current session', async () => {
+      await authService.login({ email: validUserData.email, password: validUserData.password }) as AuthTokens;
+      const current = await authService.login({ email: validUserData.email, password: validUserData.password }) as AuthTokens;
+      const revokedCount = await sessionService.revokeOtherSessions(userId, getSessionId(current.accessToken));
+      expect(revokedCount).toBe(2);
+      const sessions = await sessionService.listSessions(userId, getSessionId(current.accessToken));
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].isCurrent).toBe(true);
+    });
+  });
+});
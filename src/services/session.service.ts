@@ -0,0 +1,108 @@
+import { Types } from 'mongoose';
+import RefreshToken, { IRefreshToken } from '../models/refresh-token.model';
+import { getSocketService } from '../socket/socket.service';
+import { tokenRevocationService } from './token-revocation.service';
+import { AppError } from '../utils/app-error';
+import Logger from '../utils/logger';
+export interface SessionListItem {
+  id: string;
+  deviceLabel: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  isCurrent: boolean;
+}
+export class SessionService {
+  public async listSessions(userId: string, currentSessionId?: string): Promise<SessionListItem[]> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const activeTokens = await RefreshToken.findActiveSessions(new Types.ObjectId(userId));
+    return activeTokens.map((token: IRefreshToken) => ({
+      id: token.familyId,
+      deviceLabel: token.deviceLabel,
+      userAgent: token.userAgent || null,
+      ip: token.ip || null,
+      createdAt: token.sessionCreatedAt,
+      lastUsedAt: token.createdAt,
+      expiresAt: token.expiresAt,
+      isCurrent: token.familyId === currentSessionId
+    }));
+  }
+  public async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const activeToken = await RefreshToken.findOne({
+      userId: new Types.ObjectId(userId),
+      familyId: sessionId,
+      revokedAt: { $exists: false }
+    });
+    if (!activeToken) {
+      throw new AppError('Session not found', 404, 'SESSION_NOT_FOUND');
+    }
+    await RefreshToken.revokeFamily(sessionId);
+    await tokenRevocationService.revokeSessions([sessionId]);
+    this.disconnectSessionSockets(userId, [sessionId], 'Session revoked');
+    Logger.auth('Session revoked', { userId, sessionId });
+  }
+  public async revokeOtherSessions(userId: string, currentSessionId?: string): Promise<number> {
+    const activeTokens = await RefreshToken.findActiveSessions(new Types.ObjectId(userId));
+    const sessionIds = activeTokens
+      .map((token: IRefreshToken) => token.familyId)
+      .filter((familyId: string) => familyId !== currentSessionId);
+    if (sessionIds.length === 0) {
+      return 0;
+    }
+    await RefreshToken.updateMany(
+      { familyId: { $in: sessionIds }, revokedAt: { $exists: false } },
+      { $set: { revokedAt: new Date() } }
+    );
+    await tokenRevocationService.revokeSessions(sessionIds);
+    this.disconnectSessionSockets(userId, sessionIds, 'Signed out from another device');
+    Logger.auth('Other sessions revoked', {
+      userId,
+      currentSessionId,
+      revokedCount: sessionIds.length
+    });
+    return sessionIds.length;
+  }
+  public async revokeAllSessions(userId: string, reason: string): Promise<number> {
+    await tokenRevocationService.revokeAllForUser(userId, reason);
+    const revokedCount = await this.revokeOtherSessions(userId);
+    Logger.auth('All sessions revoked', { userId, reason, revokedCount });
+    return revokedCount;
+  }
+  public disconnectUserSockets(userId: string, reason: string): void {
+    try {
+      getSocketService().disconnectUser(userId, reason);
+    } catch (error) {
+      Logger.debug('Socket service unavailable, skipping user socket disconnect', {
+        userId,
+        error: (error as Error).message
+      });
+    }
+  }
+  public disconnectApiKeySockets(userId: string, apiKeyId: string, reason: string): void {
+    try {
+      getSocketService().disconnectApiKey(userId, apiKeyId, reason);
+    } catch (error) {
+      Logger.debug('Socket service unavailable, skipping API key socket disconnect', {
+        userId,
+        apiKeyId,
+        error: (error as Error).message
+      });
+    }
+  }
+  private disconnectSessionSockets(userId: string, sessionIds: string[], reason: string): void {
+    try {
+      getSocketService().disconnectUserSessions(userId, sessionIds, reason);
+    } catch (error) {
+      Logger.debug('Socket service unavailable, skipping session socket disconnect', {
+        userId,
+        error: (error as Error).message
+      });
+    }
+  }
+}
+export const sessionService = new SessionService();
+export default sessionService;
@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { createStorageDriver, LocalStorageDriver, S3StorageDriver, StorageService } from './storage.service';
+import { AppError } from '../utils/app-error';
+jest.mock('../utils/logger');
+describe('StorageService', () => {
+  describe('createStorageDriver', () => {
+    it('should create the configured driver', () => {
+      expect(createStorageDriver('local')).toBeInstanceOf(LocalStorageDriver);
+      expect(createStorageDriver('s3')).toBeInstanceOf(S3StorageDriver);
+    });
+    it('should reject unknown drivers', () => {
+      expect(() => createStorageDriver('floppy')).toThrow('Unknown storage driver: floppy');
+    });
+  });
+  describe('LocalStorageDriver', () => {
+    let directory: string;
+    let driver: LocalStorageDriver;
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+      driver = new LocalStorageDriver(directory);
+    });
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+    it('should store, read and delete objects', async () => {
+      await driver.put('avatars/user1/abc/small.webp', Buffer.from('image-bytes'));
+      const stored = await driver.get('avatars/user1/abc/small.webp');
+      expect(stored?.body.toString()).toBe('image-bytes');
+      expect(stored?.contentType).toBe('image/webp');
+      await driver.delete('avatars/user1/abc/small.webp');
+      expect(await driver.get('avatars/user1/abc/small.webp')).toBeNull();
+    });
+    it('should refuse keys that escape the storage directory', async () => {
+      await expect(driver.get('../secrets.json')).rejects.toMatchObject({ errorCode: 'INVALID_STORAGE_KEY' });
+      await expect(driver.put('/etc/passwd', Buffer.from(''))).rejects.toBeInstanceOf(AppError);
+    });
+  });
+  describe('S3StorageDriver', () => {
+    const objects = new Map<string, { body: Buffer; contentType: string }>();
+    const authorizations: string[] = [];
+    let server: http.Server;
+    let driver: S3StorageDriver;
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        authorizations.push(req.headers.authorization || '');
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+          const key = req.url!;
+          if (req.method === 'PUT') {
+            objects.set(key, { body: Buffer.concat(chunks), contentType: req.headers['content-type'] || '' });
+            res.writeHead(200).end();
+          } else if (req.method === 'GET' && objects.has(key)) {
+            const object = objects.get(key)!;
+            res.writeHead(200, { 'Content-Type': object.contentType }).end(object.body);
+          } else if (req.method === 'DELETE') {
+            objects.delete(key);
+            res.writeHead(204).end();
+          } else {
+            res.writeHead(404).end();
+          }
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      driver = new S3StorageDriver({
+        endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        region: 'us-east-1',
+        bucket: 'media',
+        accessKeyId: 'test-access-key',
+        secretAccessKey: 'test-secret-key'
+      });
+    });
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+    it('should store objects in the bucket with signed requests', async () => {
+      await driver.put('avatars/user1/abc/small.webp', Buffer.from('image-bytes'), 'image/webp');
+      expect(objects.get('/media/avatars/user1/abc/small.webp')?.contentType).toBe('image/webp');
+      expect(authorizations[0]).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=test-access-key\/\d{8}\/us-east-1\/s3\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+      );
+      const stored = await driver.get('avatars/user1/abc/small.webp');
+      expect(stored).toEqual({ body: Buffer.from('image-bytes'), contentType: 'image/webp' });
+    });
+    it('should return null for missing objects and tolerate deleting them', async () => {
+      expect(await driver.get('avatars/missing.webp')).toBeNull();
+      await expect(driver.delete('avatars/missing.webp')).resolves.toBeUndefined();
+    });
+  });
+  describe('delete', () => {
+    it('should not throw when the driver fails to delete', async () => {
+      const storageService = StorageService.getInstance();
+      const previousDriver = storageService.getDriver();
+      storageService.setDriver({
+        name: 'failing',
+        put: jest.fn(),
+        get: jest.fn(),
+        delete: jest.fn().mockRejectedValue(new Error('Network down'))
+      });
+      await expect(storageService.delete(['avatars/a.webp'])).resolves.toBeUndefined();
+      storageService.setDriver(previousDriver);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import { S3StorageOptions, StorageDriver, StoredObject, STORAGE_DRIVERS } from '../types/storage.types';
+import { AppError } from '../utils/app-error';
+import Logger from '../utils/logger';
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.webp': 'image/webp',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif'
+};
+export function assertValidStorageKey(key: string): void {
+  const segments = key.split('/');
+  if (!key || key.startsWith('/') || segments.some(segment => !segment || segment === '.' || segment === '..')
+    || !/^[a-zA-Z0-9._/-]+$/.test(key)) {
+    throw new AppError('Invalid storage key', 400, 'INVALID_STORAGE_KEY');
+  }
+}
+export class LocalStorageDriver implements StorageDriver {
+  public readonly name = STORAGE_DRIVERS.LOCAL;
+  private readonly root: string;
+  constructor(directory: string) {
+    this.root = path.resolve(directory);
+  }
+  public async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+  public async get(key: string): Promise<StoredObject | null> {
+    try {
+      const body = await fs.readFile(this.resolvePath(key));
+      return {
+        body,
+        contentType: CONTENT_TYPES_BY_EXTENSION[path.extname(key).toLowerCase()] || 'application/octet-stream'
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+  public async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+  private resolvePath(key: string): string {
+    assertValidStorageKey(key);
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new AppError('Invalid storage key', 400, 'INVALID_STORAGE_KEY');
+    }
+    return filePath;
+  }
+}
+export class S3StorageDriver implements StorageDriver {
+  public readonly name = STORAGE_DRIVERS.S3;
+  constructor(private readonly options: S3StorageOptions) {}
+  public async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, body, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed with status ${response.status}`);
+    }
+  }
+  public async get(key: string): Promise<StoredObject | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 GET ${key} failed with status ${response.status}`);
+    }
+    return {
+      body: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || 'application/octet-stream'
+    };
+  }
+  public async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${key} failed with status ${response.status}`);
+    }
+  }
+  private async request(method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    assertValidStorageKey(key);
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey } = this.options;
+    const url = new URL(`${endpoint.replace(/\/+$/, '')}/${bucket}/${key}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = crypto.createHash('sha256').update(body || '').digest('hex');
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType && { 'content-type': contentType })
+    };
+    const headerNames = Object.keys(headers).sort();
+    const signedHeaders = headerNames.join(';');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      headerNames.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders,
+      payloadHash
+    ].join('\n');
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      crypto.createHash('sha256').update(canonicalRequest).digest('hex')
+    ].join('\n');
+    const signingKey = [dateStamp, region, 's3', 'aws4_request'].reduce<Buffer | string>(
+      (key, part) => crypto.createHmac('sha256', key).update(part).digest(),
+      `AWS4${secretAccessKey}`
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+    const { host, ...requestHeaders } = headers;
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      },
+      ...(body && { body: new Uint8Array(body) }),
+      signal: AbortSignal.timeout(this.options.timeoutMs || 10000)
+    });
+  }
+}
+export function createStorageDriver(name: string): StorageDriver {
+  switch (name) {
+    case STORAGE_DRIVERS.LOCAL:
+      return new LocalStorageDriver(config.STORAGE_LOCAL_DIR);
+    case STORAGE_DRIVERS.S3:
+      return new S3StorageDriver({
+        endpoint: config.STORAGE_S3_ENDPOINT,
+        region: config.STORAGE_S3_REGION,
+        bucket: config.STORAGE_S3_BUCKET,
+        accessKeyId: config.STORAGE_S3_ACCESS_KEY_ID,
+        secretAccessKey: config.STORAGE_S3_SECRET_ACCESS_KEY,
+        timeoutMs: config.STORAGE_HTTP_TIMEOUT_MS
+      });
+    default:
+      throw new Error(`Unknown storage driver: ${name}`);
+  }
+}
+export class StorageService {
+  private static instance: StorageService;
+  private driver: StorageDriver;
+  private constructor() {
+    this.driver = createStorageDriver(config.STORAGE_DRIVER);
+  }
+  public static getInstance(): StorageService {
+    if (!StorageService.instance) {
+      StorageService.instance = new StorageService();
+    }
+    return StorageService.instance;
+  }
+  public setDriver(driver: StorageDriver): void {
+    this.driver = driver;
+  }
+  public getDriver(): StorageDriver {
+    return this.driver;
+  }
+  public async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    try {
+      await this.driver.put(key, body, contentType);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('[STORAGE] Failed to store object', error as Error, {
+        key,
+        driver: this.driver.name,
+        category: 'storage'
+      });
+      throw new AppError('Failed to store file', 500, 'STORAGE_WRITE_FAILED');
+    }
+  }
+  public async get(key: string): Promise<StoredObject | null> {
+    try {
+      return await this.driver.get(key);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      Logger.error('[STORAGE] Failed to read object', error as Error, {
+        key,
+        driver: this.driver.name,
+        category: 'storage'
+      });
+      throw new AppError('Failed to read file', 500, 'STORAGE_READ_FAILED');
+    }
+  }
+  public async delete(keys: string[]): Promise<void> {
+    await Promise.all(keys.map(async key => {
+      try {
+        await this.driver.delete(key);
+      } catch (error) {
+        Logger.warn('[STORAGE] Failed to delete object', {
+          key,
+          driver: this.driver.name,
+          error: (error as Error).message,
+          category: 'storage'
+        });
+      }
+    }));
+  }
+}
+export const storageService = StorageService.getInstance();
+export default storageService;
@@ -0,0 +1,72 @@
+import { RedisMemoryServer } from 'redis-memory-server';
+import Redis from 'ioredis';
+import { TokenRevocationService } from './token-revocation.service';
+jest.mock('../utils/logger');
+describe('TokenRevocationService', () => {
+  let redisServer: RedisMemoryServer;
+  let redis: Redis;
+  let tokenRevocationService: TokenRevocationService;
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+  const token = { userId: 'user123', jti: 'token-1', sessionId: 'session-1', iat: 0 };
+  beforeAll(async () => {
+    redisServer = new RedisMemoryServer();
+    const host = await redisServer.getHost();
+    const port = await redisServer.getPort();
+    redis = new Redis({
+      host,
+      port,
+      maxRetriesPerRequest: 1
+    });
+    const mockRedisClient = {
+      getClient: () => redis,
+      isClientConnected: () => true
+    };
+    jest.doMock('../config/redis', () => ({
+      redisClient: mockRedisClient
+    }));
+    const { TokenRevocationService: MockedTokenRevocationService } = await import('./token-revocation.service');
+    tokenRevocationService = MockedTokenRevocationService.getInstance();
+  });
+  afterAll(async () => {
+    await redis.disconnect();
+    await redisServer.stop();
+  });
+  beforeEach(async () => {
+    await redis.flushall();
+  });
+  it('should not treat unknown tokens as revoked', async () => {
+    await expect(tokenRevocationService.isRevoked({ ...token, iat: nowSeconds() })).resolves.toBe(false);
+  });
+  it('should deny a revoked token id until it expires', async () => {
+    const exp = nowSeconds() + 60;
+    await tokenRevocationService.revokeToken(token.jti, exp);
+    expect(await tokenRevocationService.isRevoked({ ...token, iat: nowSeconds() })).toBe(true);
+    expect(await tokenRevocationService.isRevoked({ ...token, jti: 'token-2', iat: nowSeconds() })).toBe(false);
+    expect(await redis.ttl('revoked_token:token-1')).toBeGreaterThan(0);
+  });
+  it('should skip tokens that have already expired', async () => {
+    await tokenRevocationService.revokeToken(token.jti, nowSeconds() - 1);
+    expect(await redis.exists('revoked_token:token-1')).toBe(0);
+  });
+  it('should deny every token of a revoked session', async () => {
+    await tokenRevocationService.revokeSessions(['session-1']);
+    expect(await tokenRevocationService.isRevoked({ ...token, jti: 'token-2', iat: nowSeconds() })).toBe(true);
+    expect(await tokenRevocationService.isRevoked({ ...token, sessionId: 'session-2', iat: nowSeconds() })).toBe(false);
+  });
+  it('should deny tokens issued before a user-wide revocation', async () => {
+    await tokenRevocationService.revokeAllForUser(token.userId, 'Password reset');
+    expect(await tokenRevocationService.isRevoked({ ...token, iat: nowSeconds() - 10 })).toBe(true);
+    expect(await tokenRevocationService.isRevoked({ ...token, iat: nowSeconds() + 1 })).toBe(false);
+    expect(await tokenRevocationService.isRevoked({ ...token, userId: 'user456', iat: nowSeconds() - 10 })).toBe(false);
+  });
+  it('should deny tokens issued in the same second as a user-wide revocation', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1700000000500);
+    try {
+      await tokenRevocationService.revokeAllForUser(token.userId, 'Password reset');
+      expect(await tokenRevocationService.isRevoked({ ...token, iat: 1700000000 })).toBe(true);
+      expect(await tokenRevocationService.isRevoked({ ...token, iat: 1700000001 })).toBe(false);
+    } finally {
+      now.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,89 @@
+import Redis from 'ioredis';
+import { redisClient } from '../config/redis';
+import { config } from '../config/env';
+import { durationToSeconds } from '../utils/duration';
+import Logger from '../utils/logger';
+export interface RevocableToken {
+  userId: string;
+  jti?: string | undefined;
+  sessionId?: string | undefined;
+  iat?: number | undefined;
+}
+export class TokenRevocationService {
+  private static instance: TokenRevocationService;
+  private readonly REVOKED_TOKEN_PREFIX = 'revoked_token:';
+  private readonly REVOKED_SESSION_PREFIX = 'revoked_session:';
+  private readonly USER_CUTOFF_PREFIX = 'tokens_revoked_before:';
+  private constructor() {}
+  public static getInstance(): TokenRevocationService {
+    if (!TokenRevocationService.instance) {
+      TokenRevocationService.instance = new TokenRevocationService();
+    }
+    return TokenRevocationService.instance;
+  }
+  public async revokeToken(jti: string, expiresAt: number): Promise<void> {
+    const redis = this.getRedis();
+    if (!redis) {
+      return;
+    }
+    const ttlSeconds = expiresAt - Math.floor(Date.now() / 1000);
+    if (ttlSeconds <= 0) {
+      return;
+    }
+    await redis.set(`${this.REVOKED_TOKEN_PREFIX}${jti}`, '1', 'EX', ttlSeconds);
+    Logger.auth('Access token revoked', { jti });
+  }
+  public async revokeSessions(sessionIds: string[]): Promise<void> {
+    const redis = this.getRedis();
+    if (!redis || sessionIds.length === 0) {
+      return;
+    }
+    const ttlSeconds = this.getAccessTokenLifetimeSeconds();
+    const pipeline = redis.pipeline();
+    sessionIds.forEach(sessionId => pipeline.set(`${this.REVOKED_SESSION_PREFIX}${sessionId}`, '1', 'EX', ttlSeconds));
+    await pipeline.exec();
+  }
+  public async revokeAllForUser(userId: string, reason: string): Promise<void> {
+    const redis = this.getRedis();
+    if (!redis) {
+      return;
+    }
+    await redis.set(
+      `${this.USER_CUTOFF_PREFIX}${userId}`,
+      Math.floor(Date.now() / 1000).toString(),
+      'EX',
+      this.getAccessTokenLifetimeSeconds()
+    );
+    Logger.security('All access tokens revoked for user', { userId, reason });
+  }
+  public async isRevoked(token: RevocableToken): Promise<boolean> {
+    const redis = this.getRedis();
+    if (!redis) {
+      return false;
+    }
+    const [revokedToken, revokedSession, cutoff] = await redis.mget(
+      `${this.REVOKED_TOKEN_PREFIX}${token.jti || ''}`,
+      `${this.REVOKED_SESSION_PREFIX}${token.sessionId || ''}`,
+      `${this.USER_CUTOFF_PREFIX}${token.userId}`
+    );
+    if (token.jti && revokedToken) {
+      return true;
+    }
+    if (token.sessionId && revokedSession) {
+      return true;
+    }
+    return !!cutoff && (token.iat === undefined || token.iat <= parseInt(cutoff));
+  }
+  private getAccessTokenLifetimeSeconds(): number {
+    return durationToSeconds(config.JWT_EXPIRES_IN);
+  }
+  private getRedis(): Redis | null {
+    if (!redisClient.isClientConnected()) {
+      Logger.debug('Redis unavailable, skipping access token revocation');
+      return null;
+    }
+    return redisClient.getClient();
+  }
+}
+export const tokenRevocationService = TokenRevocationService.getInstance();
+export default tokenRevocationService;
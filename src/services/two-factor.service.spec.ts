@@ -0,0 +1,168 @@
+import { TwoFactorService } from './two-factor.service';
+import { AuthService, AuthTokens, TwoFactorChallenge } from './auth.service';
+import { AccountService } from './account.service';
+import User from '../models/user.model';
+import { generateTotp, TOTP_PERIOD_SECONDS } from '../utils/totp';
+describe('TwoFactorService', () => {
+  let twoFactorService: TwoFactorService;
+  let authService: AuthService;
+  let userId: string;
+  const validUserData = {
+    username: 'testuser',
+    email: 'test@example.com',
+    password: 'Password123'
+  };
+  const enable = async (): Promise<{ secret: string; recoveryCodes: string[] }> => {
+    const { secret } = await twoFactorService.beginEnrollment(userId);
+    const recoveryCodes = await twoFactorService.confirmEnrollment(userId, generateTotp(secret));
+    return { secret, recoveryCodes };
+  };
+  const nextStepCode = (secret: string): string =>
+    generateTotp(secret, Date.now() + TOTP_PERIOD_SECONDS * 1000);
+  beforeEach(async () => {
+    twoFactorService = new TwoFactorService();
+    authService = new AuthService();
+    await authService.register(validUserData);
+    const user = await User.findOne({ email: validUserData.email });
+    userId = user!._id.toString();
+  });
+  describe('enrollment', () => {
+    it('should return an otpauth URI without enabling 2FA yet', async () => {
+      const { secret, otpauthUri } = await twoFactorService.beginEnrollment(userId);
+      expect(otpauthUri).toContain(`secret=${secret}`);
+      expect(otpauthUri).toContain(encodeURIComponent(validUserData.email));
+      const user = await User.findById(userId);
+      expect(user?.twoFactorEnabled).toBe(false);
+      expect(user?.twoFactorPendingSecret).toBe(secret);
+    });
+    it('should enable 2FA and store only hashed recovery codes', async () => {
+      const { secret, recoveryCodes } = await enable();
+      expect(recoveryCodes).toHaveLength(10);
+      const user = await User.findById(userId);
+      expect(user?.twoFactorEnabled).toBe(true);
+      expect(user?.twoFactorSecret).toBe(secret);
+      expect(user?.twoFactorPendingSecret).toBeUndefined();
+      const storedHashes = user!.twoFactorRecoveryCodes.map(code => code.codeHash);
+      recoveryCodes.forEach(code => expect(storedHashes).not.toContain(code));
+      expect(user!.toJSON()).not.toHaveProperty('twoFactorSecret');
+    });
+    it('should reject an invalid confirmation code', async () => {
+      await twoFactorService.beginEnrollment(userId);
+      await expect(
+        twoFactorService.confirmEnrollment(userId, '000000')
+      ).rejects.toMatchObject({ statusCode: 400, errorCode: 'INVALID_TWO_FACTOR_CODE' });
+    });
+    it('should not start enrollment twice once enabled', async () => {
+      await enable();
+      await expect(
+        twoFactorService.beginEnrollment(userId)
+      ).rejects.toMatchObject({ errorCode: 'TWO_FACTOR_ALREADY_ENABLED' });
+    });
+  });
+  describe('two-step login', () => {
+    it('should return a challenge instead of tokens when 2FA is enabled', async () => {
+      await enable();
+      const result = await authService.login({ email: validUserData.email, password: validUserData.password });
+      expect(result).not.toHaveProperty('accessToken');
+      expect(result).toMatchObject({ twoFactorRequired: true });
+      await expect(
+        authService.verifyAccessToken((result as TwoFactorChallenge).challengeToken)
+      ).rejects.toMatchObject({ statusCode: 401 });
+    });
+    it('should issue tokens after a valid TOTP code', async () => {
+      const { secret } = await enable();
+      const { challengeToken } = await authService.login({
+        email: validUserData.email,
+        password: validUserData.password
+      }) as TwoFactorChallenge;
+      const tokens = await authService.completeTwoFactorLogin({ challengeToken, code: nextStepCode(secret) });
+      const decoded = await authService.verifyAccessToken(tokens.accessToken);
+      expect(decoded.userId).toBe(userId);
+    });
+    it('should only reactivate an account after the second factor', async () => {
+      const { secret } = await enable();
+      await new AccountService().deactivate(userId, { password: validUserData.password });
+      const { challengeToken } = await authService.reactivateAccount({
+        email: validUserData.email,
+        password: validUserData.password
+      }) as TwoFactorChallenge;
+      expect((await User.findById(userId))?.isActive).toBe(false);
+      const tokens = await authService.completeTwoFactorLogin({ challengeToken, code: nextStepCode(secret) });
+      expect(tokens).toHaveProperty('accessToken');
+      expect((await User.findById(userId))?.isActive).toBe(true);
+    });
+    it('should reject a replayed TOTP code', async () => {
+      const { secret } = await enable();
+      const { challengeToken } = await authService.login({
+        email: validUserData.email,
+        password: validUserData.password
+      }) as TwoFactorChallenge;
+      const code = nextStepCode(secret);
+      await authService.completeTwoFactorLogin({ challengeToken, code });
+      await expect(
+        authService.completeTwoFactorLogin({ challengeToken, code })
+      ).rejects.toMatchObject({ statusCode: 401, errorCode: 'INVALID_TWO_FACTOR_CODE' });
+    });
+    it('should accept each recovery code only once', async () => {
+      const { recoveryCodes } = await enable();
+      const { challengeToken } = await authService.login({
+        email: validUserData.email,
+        password: validUserData.password
+      }) as TwoFactorChallenge;
+      const tokens: AuthTokens = await authService.completeTwoFactorLogin({
+        challengeToken,
+        code: recoveryCodes[0].toUpperCase()
+      });
+      expect(tokens).toHaveProperty('refreshToken');
+      await expect(
+        authService.completeTwoFactorLogin({ challengeToken, code: recoveryCodes[0] })
+      ).rejects.toMatchObject({ errorCode: 'INVALID_TWO_FACTOR_CODE' });
+    });
+    it('should accept each challenge token only once', async () => {
+      const { secret, recoveryCodes } = await enable();
+      const { challengeToken } = await authService.login({
+        email: validUserData.email,
+        password: validUserData.password
+      }) as TwoFactorChallenge;
+      await authService.completeTwoFactorLogin({ challengeToken, code: nextStepCode(secret) });
+      await expect(
+        authService.completeTwoFactorLogin({ challengeToken, code: recoveryCodes[0] })
+      ).rejects.toMatchObject({ statusCode: 401, errorCode: 'INVALID_TWO_FACTOR_CHALLENGE' });
+    });
+    it('should reject a forged challenge token', async () => {
+      await enable();
+      const tokens = await authService.register({
+        username: 'otheruser',
+        email: 'other@example.com',
+        password: 'Password123'
+      });
+      await expect(
+        authService.completeTwoFactorLogin({ challengeToken: tokens.accessToken, code: '123456' })
+      ).rejects.toMatchObject({ statusCode: 401, errorCode: 'INVALID_TWO_FACTOR_CHALLENGE' });
+    });
+  });
+  describe('disable', () => {
+    it('should require the password and a valid code', async () => {
+      const { secret } = await enable();
+      await expect(
+        twoFactorService.disable(userId, 'WrongPassword1', nextStepCode(secret))
+      ).rejects.toMatchObject({ errorCode: 'INVALID_CURRENT_PASSWORD' });
+      await twoFactorService.disable(userId, validUserData.password, nextStepCode(secret));
+      const user = await User.findById(userId);
+      expect(user?.twoFactorEnabled).toBe(false);
+      expect(user?.twoFactorSecret).toBeUndefined();
+      const result = await authService.login({ email: validUserData.email, password: validUserData.password });
+      expect(result).toHaveProperty('accessToken');
+    });
+  });
+  describe('regenerateRecoveryCodes', () => {
+    it('should invalidate the previous recovery codes', async () => {
+      const { secret, recoveryCodes } = await enable();
+      const newCodes = await twoFactorService.regenerateRecoveryCodes(userId, nextStepCode(secret));
+      expect(newCodes).toHaveLength(10);
+      const user = await User.findById(userId);
+      await expect(twoFactorService.verifyCode(user!, recoveryCodes[0])).resolves.toBe(false);
+      await expect(twoFactorService.verifyCode(user!, newCodes[0])).resolves.toBe(true);
+    });
+  });
+});
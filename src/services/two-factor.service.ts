@@ -0,0 +1,143 @@
+import { Types } from 'mongoose';
+import User, { IUser } from '../models/user.model';
+import { config } from '../config/env';
+import { AppError } from '../utils/app-error';
+import { generateSecureToken, hashToken } from '../utils/crypto';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+import Logger from '../utils/logger';
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+export class TwoFactorService {
+  public async beginEnrollment(userId: string): Promise<TwoFactorEnrollment> {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is already enabled', 400, 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
+    Logger.auth('Two-factor enrollment started', { userId });
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, config.TWO_FACTOR_ISSUER)
+    };
+  }
+  public async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is already enabled', 400, 'TWO_FACTOR_ALREADY_ENABLED');
+    }
+    if (!user.twoFactorPendingSecret) {
+      throw new AppError('Two-factor enrollment has not been started', 400, 'TWO_FACTOR_NOT_ENROLLING');
+    }
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      Logger.security('Two-factor enrollment failed - invalid code', { userId });
+      throw new AppError('Invalid two-factor authentication code', 400, 'INVALID_TWO_FACTOR_CODE');
+    }
+    const recoveryCodes = this.generateRecoveryCodes();
+    user.twoFactorEnabled = true;
+    user.twoFactorEnabledAt = new Date();
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorLastUsedStep = step;
+    user.twoFactorRecoveryCodes = recoveryCodes.map(recoveryCode => ({ codeHash: this.hashRecoveryCode(recoveryCode) }));
+    user.set('twoFactorPendingSecret', undefined);
+    await user.save();
+    Logger.security('Two-factor authentication enabled', { userId });
+    return recoveryCodes;
+  }
+  public async disable(userId: string, password: string, code: string): Promise<void> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled', 400, 'TWO_FACTOR_NOT_ENABLED');
+    }
+    if (!(await user.comparePassword(password))) {
+      Logger.security('Two-factor disable failed - invalid password', { userId });
+      throw new AppError('Current password is incorrect', 400, 'INVALID_CURRENT_PASSWORD');
+    }
+    await this.assertValidCode(user, code);
+    user.twoFactorEnabled = false;
+    user.twoFactorRecoveryCodes = [];
+    user.set('twoFactorEnabledAt', undefined);
+    user.set('twoFactorSecret', undefined);
+    user.set('twoFactorLastUsedStep', undefined);
+    await user.save();
+    Logger.security('Two-factor authentication disabled', { userId });
+  }
+  public async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled', 400, 'TWO_FACTOR_NOT_ENABLED');
+    }
+    await this.assertValidCode(user, code);
+    const recoveryCodes = this.generateRecoveryCodes();
+    await User.updateOne(
+      { _id: user._id },
+      { $set: { twoFactorRecoveryCodes: recoveryCodes.map(recoveryCode => ({ codeHash: this.hashRecoveryCode(recoveryCode) })) } }
+    );
+    Logger.security('Two-factor recovery codes regenerated', { userId });
+    return recoveryCodes;
+  }
+  public async verifyCode(user: IUser, code: string): Promise<boolean> {
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+    const step = verifyTotp(user.twoFactorSecret, code);
+    if (step !== null) {
+      const result = await User.updateOne(
+        {
+          _id: user._id,
+          $or: [
+            { twoFactorLastUsedStep: { $exists: false } },
+            { twoFactorLastUsedStep: { $lt: step } }
+          ]
+        },
+        { $set: { twoFactorLastUsedStep: step } }
+      );
+      return result.modifiedCount === 1;
+    }
+    const result = await User.updateOne(
+      {
+        _id: user._id,
+        twoFactorRecoveryCodes: {
+          $elemMatch: { codeHash: this.hashRecoveryCode(code), usedAt: { $exists: false } }
+        }
+      },
+      { $set: { 'twoFactorRecoveryCodes.$.usedAt': new Date() } }
+    );
+    if (result.modifiedCount === 1) {
+      Logger.security('Two-factor recovery code used', { userId: user._id.toString() });
+      return true;
+    }
+    return false;
+  }
+  private async assertValidCode(user: IUser, code: string): Promise<void> {
+    if (!(await this.verifyCode(user, code))) {
+      Logger.security('Two-factor verification failed - invalid code', { userId: user._id.toString() });
+      throw new AppError('Invalid two-factor authentication code', 400, 'INVALID_TWO_FACTOR_CODE');
+    }
+  }
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: config.TWO_FACTOR_RECOVERY_CODE_COUNT }, () => {
+      const code = generateSecureToken(5);
+      return `${code.slice(0, 5)}-${code.slice(5)}`;
+    });
+  }
+  private hashRecoveryCode(code: string): string {
+    return hashToken(code.trim().toLowerCase().replace(/-/g, ''));
+  }
+  private async findUser(userId: string): Promise<IUser> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    return user;
+  }
+}
+export const twoFactorService = new TwoFactorService();
+export default twoFactorService;
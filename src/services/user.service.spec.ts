@@ -1,6 +1,12 @@
+import { Types } from 'mongoose';
 import { UserService } from './user.service';
 import User from '../models/user.model';
-import { AuthService } from './auth.service';
+import Conversation from '../models/conversation.model';
+import { Request, Response } from 'express';
+import { AuthService, AuthTokens } from './auth.service';
+import { authMiddleware, authorize } from '../api/middlewares/auth.middleware';
+import { redisClient } from '../config/redis';
+import { ROLES, PERMISSIONS } from '../constants/roles';
 describe('UserService', () => {
   let userService: UserService;
   let authService: AuthService;
@@ -10,8 +16,10 @@ describe('UserService', () => {
   });
   afterEach(async () => {
     await User.deleteMany({});
+    await Conversation.deleteMany({});
   });
   describe('getUserList', () => {
+    const viewerId = new Types.ObjectId().toString();
     beforeEach(async () => {
       for (let i = 1; i <= 15; i++) {
         await authService.register({
@@ -22,7 +30,7 @@ describe('UserService', () => {
       }
     });
     it('should return user list with default pagination', async () => {
-      const result = await userService.getUserList({});
+      const result = await userService.getUserList(viewerId, {});
       expect(result.users).toHaveLength(10);
       expect(result.pagination.currentPage).toBe(1);
       expect(result.pagination.totalUsers).toBe(15);
@@ -31,7 +39,7 @@ describe('UserService', () => {
       expect(result.pagination.hasPrevPage).toBe(false);
     });
     it('should return user list with custom pagination', async () => {
-      const result = await userService.getUserList({ page: 2, limit: 5 });
+      const result = await userService.getUserList(viewerId, { page: 2, limit: 5 });
       expect(result.users).toHaveLength(5);
       expect(result.pagination.currentPage).toBe(2);
       expect(result.pagination.totalUsers).toBe(15);
@@ -40,7 +48,7 @@ describe('UserService', () => {
       expect(result.pagination.hasPrevPage).toBe(true);
     });
     it('should return last page correctly', async () => {
-      const result = await userService.getUserList({ page: 2, limit: 10 });
+      const result = await userService.getUserList(viewerId, { page: 2, limit: 10 });
       expect(result.users).toHaveLength(5);
       expect(result.pagination.currentPage).toBe(2);
       expect(result.pagination.totalUsers).toBe(15);
@@ -49,7 +57,7 @@ describe('UserService', () => {
       expect(result.pagination.hasPrevPage).toBe(true);
     });
     it('should not include password in user data', async () => {
-      const result = await userService.getUserList({});
+      const result = await userService.getUserList(viewerId, {});
       result.users.forEach(user => {
         expect(user).toHaveProperty('id');
         expect(user).toHaveProperty('username');
@@ -61,7 +69,7 @@ describe('UserService', () => {
     });
     it('should return empty list when no users exist', async () => {
       await User.deleteMany({});
-      const result = await userService.getUserList({});
+      const result = await userService.getUserList(viewerId, {});
       expect(result.users).toHaveLength(0);
       expect(result.pagination.totalUsers).toBe(0);
       expect(result.pagination.totalPages).toBe(0);
@@ -69,7 +77,7 @@ describe('UserService', () => {
       expect(result.pagination.hasPrevPage).toBe(false);
     });
     it('should handle large page numbers gracefully', async () => {
-      const result = await userService.getUserList({ page: 100, limit: 10 });
+      const result = await userService.getUserList(viewerId, { page: 100, limit: 10 });
       expect(result.users).toHaveLength(0);
       expect(result.pagination.currentPage).toBe(100);
       expect(result.pagination.totalUsers).toBe(15);
@@ -78,7 +86,7 @@ describe('UserService', () => {
       expect(result.pagination.hasPrevPage).toBe(true);
     });
     it('should sort users by creation date (newest first)', async () => {
-      const result = await userService.getUserList({ limit: 15 });
+      const result = await userService.getUserList(viewerId, { limit: 15 });
       for (let i = 0; i < result.users.length - 1; i++) {
         const currentUser = new Date(result.users[i].createdAt);
         const nextUser = new Date(result.users[i + 1].createdAt);
@@ -86,4 +94,158 @@ describe('UserService', () => {
       }
     });
   });
+  describe('searchUsers', () => {
+    let viewerId: string;
+    beforeEach(async () => {
+      const viewer = await User.create({ username: 'viewer', email: 'viewer@example.com', password: 'Password123' });
+      viewerId = viewer._id.toString();
+      await User.create({ username: 'Alice_W', email: 'alice@example.com', password: 'Password123', displayName: 'Alice Walker', lastSeenAt: new Date() });
+      await User.create({
+        username: 'bob',
+        email: 'albert@corp.example.com',
+        password: 'Password123',
+        displayName: 'Bob Builder',
+        privacy: { emailVisibility: 'everyone' }
+      });
+      await User.create({ username: 'carol', email: 'carol@example.com', password: 'Password123', isActive: false, lastSeenAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) });
+    });
+    it('should match username, display name and email prefixes case-insensitively', async () => {
+      const byName = await userService.searchUsers(viewerId, { q: 'ali' });
+      expect(byName.users.map(user => user.username)).toEqual(['Alice_W']);
+      const byDisplayName = await userService.searchUsers(viewerId, { q: 'BOB b' });
+      expect(byDisplayName.users.map(user => user.username)).toEqual(['bob']);
+      const byEmail = await userService.searchUsers(viewerId, { q: 'al', sort: 'username', order: 'asc' });
+      expect(byEmail.users.map(user => user.username)).toEqual(['Alice_W', 'bob']);
+    });
+    it('should never return the searching user', async () => {
+      const result = await userService.searchUsers(viewerId, { q: 'view' });
+      expect(result.users).toHaveLength(0);
+    });
+    it('should treat regular expression characters literally', async () => {
+      const result = await userService.searchUsers(viewerId, { q: '.*' });
+      expect(result.users).toHaveLength(0);
+    });
+    it('should filter by active state and recent activity', async () => {
+      const inactive = await userService.searchUsers(viewerId, { active: false });
+      expect(inactive.users.map(user => user.username)).toEqual(['carol']);
+      const recent = await userService.searchUsers(viewerId, { activeWithinDays: 7 });
+      expect(recent.users.map(user => user.username)).toEqual(['Alice_W']);
+      expect(recent.users[0].lastSeenAt).toBeInstanceOf(Date);
+    });
+    it('should keep search fields in sync when profiles change', async () => {
+      const bob = await User.findOne({ username: 'bob' });
+      await authService.updateProfile(bob!._id.toString(), { displayName: 'Robert' });
+      expect((await userService.searchUsers(viewerId, { q: 'rob' })).users).toHaveLength(1);
+      await authService.updateProfile(bob!._id.toString(), { displayName: null });
+      expect((await userService.searchUsers(viewerId, { q: 'rob' })).users).toHaveLength(0);
+    });
+    it('should only match and reveal emails and activity the user has made visible', async () => {
+      const alice = await User.findOne({ username: 'Alice_W' });
+      expect((await userService.searchUsers(viewerId, { q: 'alice@' })).users).toHaveLength(0);
+      const [visibleAlice] = (await userService.searchUsers(viewerId, { q: 'alice' })).users;
+      expect(visibleAlice.email).toBeNull();
+      expect(visibleAlice.lastSeenAt).toBeInstanceOf(Date);
+      await userService.updatePrivacy(alice!._id.toString(), { emailVisibility: 'conversations', lastSeenVisibility: 'conversations' });
+      expect((await userService.searchUsers(viewerId, { activeWithinDays: 7 })).users).toHaveLength(0);
+      await Conversation.create({ participants: [viewerId, alice!._id] });
+      const [partner] = (await userService.searchUsers(viewerId, { q: 'alice@' })).users;
+      expect(partner.email).toBe('alice@example.com');
+      expect(partner.lastSeenAt).toBeInstanceOf(Date);
+    });
+    it('should leave users hiding their activity out of last-seen ordering', async () => {
+      const alice = await User.findOne({ username: 'Alice_W' });
+      const visible = await userService.searchUsers(viewerId, { sort: 'lastSeenAt', order: 'desc' });
+      expect(visible.users.map(user => user.username)).toContain('Alice_W');
+      await userService.updatePrivacy(alice!._id.toString(), { lastSeenVisibility: 'nobody' });
+      const hidden = await userService.searchUsers(viewerId, { sort: 'lastSeenAt', order: 'desc' });
+      expect(hidden.users.map(user => user.username)).not.toContain('Alice_W');
+      expect(hidden.users.map(user => user.username)).toContain('carol');
+    });
+  });
+  describe('updatePrivacy', () => {
+    it('should default to hiding emails and update individual settings', async () => {
+      const user = await User.create({ username: 'private', email: 'private@example.com', password: 'Password123' });
+      expect(await userService.getPrivacy(user._id.toString())).toEqual({
+        emailVisibility: 'nobody',
+        lastSeenVisibility: 'everyone',
+        messagesFrom: 'everyone'
+      });
+      const privacy = await userService.updatePrivacy(user._id.toString(), { lastSeenVisibility: 'nobody' });
+      expect(privacy).toEqual({ emailVisibility: 'nobody', lastSeenVisibility: 'nobody', messagesFrom: 'everyone' });
+      const [listed] = (await userService.getUserList(new Types.ObjectId().toString(), {})).users;
+      expect(listed.email).toBeNull();
+      expect(listed.lastSeenAt).toBeNull();
+    });
+  });
+  describe('updateUserRoles', () => {
+    let userId: string;
+    beforeEach(async () => {
+      await authService.register({
+        username: 'moderated',
+        email: 'moderated@example.com',
+        password: 'Password123'
+      });
+      const user = await User.findOne({ email: 'moderated@example.com' });
+      userId = user!._id.toString();
+    });
+    it('should default new users to the user role', async () => {
+      const user = await User.findById(userId);
+      expect(user?.roles).toEqual([ROLES.USER]);
+      expect(user?.permissions).toEqual([]);
+    });
+    it('should assign roles and direct permissions', async () => {
+      const result = await userService.updateUserRoles(
+        userId,
+        { roles: [ROLES.USER, ROLES.MODERATOR], permissions: [PERMISSIONS.JOBS_MANAGE] },
+        'admin123'
+      );
+      expect(result.roles).toEqual([ROLES.USER, ROLES.MODERATOR]);
+      expect(result.effectivePermissions).toEqual(
+        expect.arrayContaining([PERMISSIONS.JOBS_MANAGE, PERMISSIONS.MESSAGES_MODERATE, PERMISSIONS.USERS_READ])
+      );
+    });
+    it('should include roles and permissions in newly issued tokens', async () => {
+      await userService.updateUserRoles(userId, { roles: [ROLES.ADMIN] }, 'admin123');
+      const { accessToken } = await authService.login({
+        email: 'moderated@example.com',
+        password: 'Password123'
+      }) as AuthTokens;
+      const decoded = await authService.verifyAccessToken(accessToken);
+      expect(decoded.roles).toEqual([ROLES.ADMIN]);
+      expect(decoded.permissions).toEqual(Object.values(PERMISSIONS).sort());
+    });
+    it('should stop tokens issued before a demotion from authorizing admin actions', async () => {
+      await userService.updateUserRoles(userId, { roles: [ROLES.ADMIN] }, 'admin123');
+      const { accessToken } = await authService.login({
+        email: 'moderated@example.com',
+        password: 'Password123'
+      }) as AuthTokens;
+      const store = new Map<string, string>();
+      const redis = {
+        set: jest.fn(async (key: string, value: string) => store.set(key, value)),
+        mget: jest.fn(async (...keys: string[]) => keys.map(key => store.get(key) ?? null))
+      };
+      const connected = jest.spyOn(redisClient, 'isClientConnected').mockReturnValue(true);
+      const client = jest.spyOn(redisClient, 'getClient').mockReturnValue(redis as any);
+      try {
+        await userService.updateUserRoles(userId, { roles: [ROLES.USER] }, 'admin123');
+        const req = { headers: { authorization: `Bearer ${accessToken}` } } as Request;
+        const next = jest.fn();
+        await authMiddleware(req, {} as Response, next);
+        if (req.user) {
+          authorize(PERMISSIONS.USERS_MANAGE)(req, {} as Response, next);
+        }
+        expect(next).toHaveBeenCalledTimes(1);
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 401, errorCode: 'TOKEN_REVOKED' }));
+      } finally {
+        connected.mockRestore();
+        client.mockRestore();
+      }
+    });
+    it('should throw for unknown users', async () => {
+      await expect(
+        userService.updateUserRoles('507f1f77bcf86cd799439011', { roles: [ROLES.ADMIN] }, 'admin123')
+      ).rejects.toMatchObject({ statusCode: 404, errorCode: 'USER_NOT_FOUND' });
+    });
+  });
 });
@@ -1,43 +1,107 @@
-import User from '../models/user.model';
+import { FilterQuery, SortOrder, Types } from 'mongoose';
+import User, { IUser, PublicUser, getPrivacySettings, toPublicUser, toUserProfile } from '../models/user.model';
+import Conversation from '../models/conversation.model';
+import { blockService } from './block.service';
+import { sessionService } from './session.service';
+import { tokenRevocationService } from './token-revocation.service';
+import { getSocketService } from '../socket/socket.service';
+import { ROLES, Role, Permission, resolvePermissions } from '../constants/roles';
+import { UserSearchSort } from '../constants/user-search';
+import {
+  DEFAULT_PRIVACY_SETTINGS,
+  PRIVACY_AUDIENCES,
+  MessageAudience,
+  PrivacyAudience,
+  PrivacySettings,
+  VIEWER_RELATIONS,
+  ViewerRelation,
+  VisibilitySetting,
+  isVisibleTo
+} from '../constants/privacy';
+import { config } from '../config/env';
 import { AppError } from '../utils/app-error';
+import Logger from '../utils/logger';
 export interface UserListQuery {
   page?: number;
   limit?: number;
 }
+export type UserListItem = PublicUser & {
+  createdAt: Date;
+  updatedAt: Date;
+};
+export interface UserListPagination {
+  currentPage: number;
+  totalPages: number;
+  totalUsers: number;
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+}
 export interface UserListResponse {
-  users: Array<{
-    id: string;
-    username: string;
-    email: string;
-    createdAt: Date;
-    updatedAt: Date;
+  users: UserListItem[];
+  pagination: UserListPagination;
+}
+export interface UserSearchQuery extends UserListQuery {
+  q?: string | undefined;
+  active?: boolean | undefined;
+  online?: boolean | undefined;
+  activeWithinDays?: number | undefined;
+  sort?: UserSearchSort | undefined;
+  order?: 'asc' | 'desc' | undefined;
+}
+export interface UserSearchResponse {
+  users: Array<UserListItem & {
+    isOnline: boolean;
   }>;
-  pagination: {
-    currentPage: number;
-    totalPages: number;
-    totalUsers: number;
-    hasNextPage: boolean;
-    hasPrevPage: boolean;
-  };
+  pagination: UserListPagination;
+}
+const USER_SEARCH_SORT_FIELDS: Record<UserSearchSort, string> = {
+  username: 'usernameLower',
+  displayName: 'displayNameLower',
+  createdAt: 'createdAt',
+  lastSeenAt: 'lastSeenAt'
+};
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const audienceFilter = (setting: VisibilitySetting, relation: ViewerRelation): FilterQuery<IUser> => {
+  const audiences: Array<PrivacyAudience | null> = Object.values(PRIVACY_AUDIENCES)
+    .filter(audience => isVisibleTo(audience, relation));
+  if (audiences.includes(DEFAULT_PRIVACY_SETTINGS[setting])) {
+    audiences.push(null);
+  }
+  return { [`privacy.${setting}`]: { $in: audiences } };
+};
+export interface UpdateUserRolesData {
+  roles: Role[];
+  permissions?: Permission[] | undefined;
+}
+export interface UserAccessResponse {
+  id: string;
+  roles: Role[];
+  permissions: Permission[];
+  effectivePermissions: Permission[];
+}
+export interface UpdatePrivacySettingsData {
+  emailVisibility?: PrivacyAudience | undefined;
+  lastSeenVisibility?: PrivacyAudience | undefined;
+  messagesFrom?: MessageAudience | undefined;
 }
 export class UserService {
-  async getUserList(query: UserListQuery): Promise<UserListResponse> {
+  async getUserList(viewerId: string, query: UserListQuery): Promise<UserListResponse> {
     try {
       const page = query.page || 1;
       const limit = query.limit || 10;
       const skip = (page - 1) * limit;
-      const totalUsers = await User.countDocuments();
+      const filter = { deletedAt: { $exists: false } };
+      const totalUsers = await User.countDocuments(filter);
       const totalPages = Math.ceil(totalUsers / limit);
-      const users = await User.find()
+      const users = await User.find(filter)
         .select('-password')
         .sort({ createdAt: -1 })
         .skip(skip)
         .limit(limit)
         .lean();
+      const partnerIds = await this.getPartnerIds(viewerId);
       const userList = users.map(user => ({
-        id: user._id.toString(),
-        username: user.username,
-        email: user.email,
+        ...toPublicUser(user, this.getViewerRelation(viewerId, user._id, partnerIds)),
         createdAt: user.createdAt,
         updatedAt: user.updatedAt
       }));
@@ -56,4 +120,198 @@ export class UserService {
       throw new AppError('Failed to retrieve user list', 500);
     }
   }
+  async searchUsers(viewerId: string, query: UserSearchQuery): Promise<UserSearchResponse> {
+    const page = query.page || 1;
+    const limit = query.limit || 10;
+    const onlineUserIds = this.getOnlineUserIds();
+    const onlineObjectIds = onlineUserIds.map(id => new Types.ObjectId(id));
+    const hiddenUserIds = await this.getHiddenUserIds(viewerId);
+    const partnerIds = await this.getPartnerIds(viewerId);
+    const lastSeenVisible = this.getVisibilityFilter('lastSeenVisibility', partnerIds);
+    const filter: FilterQuery<IUser> = {
+      _id: query.online ? { $in: onlineObjectIds, $nin: hiddenUserIds } : { $nin: hiddenUserIds },
+      deletedAt: { $exists: false }
+    };
+    const conditions: FilterQuery<IUser>[] = [];
+    const sort = query.sort || (query.q ? 'username' : 'createdAt');
+    if (query.q) {
+      const prefix = new RegExp(`^${escapeRegExp(query.q.trim().toLowerCase())}`);
+      conditions.push({
+        $or: [
+          { usernameLower: prefix },
+          { displayNameLower: prefix },
+          { $and: [{ email: prefix }, this.getVisibilityFilter('emailVisibility', partnerIds)] }
+        ]
+      });
+    }
+    if (query.active !== undefined) {
+      filter.isActive = query.active;
+    }
+    if (query.online || query.activeWithinDays || sort === 'lastSeenAt') {
+      conditions.push(lastSeenVisible);
+    }
+    if (query.online === false) {
+      filter.$nor = [{ $and: [{ _id: { $in: onlineObjectIds } }, lastSeenVisible] }];
+    }
+    if (query.activeWithinDays) {
+      filter.lastSeenAt = { $gte: new Date(Date.now() - query.activeWithinDays * 24 * 60 * 60 * 1000) };
+    }
+    if (conditions.length > 0) {
+      filter.$and = conditions;
+    }
+    const order: SortOrder = query.order || (sort === 'username' || sort === 'displayName' ? 'asc' : 'desc');
+    const [users, totalUsers] = await Promise.all([
+      User.find(filter)
+        .select('-password')
+        .sort({ [USER_SEARCH_SORT_FIELDS[sort]]: order, _id: order })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      User.countDocuments(filter)
+    ]);
+    const totalPages = Math.ceil(totalUsers / limit);
+    return {
+      users: users.map(user => {
+        const relation = this.getViewerRelation(viewerId, user._id, partnerIds);
+        return {
+          ...toPublicUser(user, relation),
+          isOnline: isVisibleTo(getPrivacySettings(user).lastSeenVisibility, relation)
+            && onlineUserIds.includes(user._id.toString()),
+          createdAt: user.createdAt,
+          updatedAt: user.updatedAt
+        };
+      }),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalUsers,
+        hasNextPage: page < totalPages,
+        hasPrevPage: page > 1
+      }
+    };
+  }
+  async getPrivacy(userId: string): Promise<PrivacySettings> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const user = await User.findById(userId).select('privacy');
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    return getPrivacySettings(user);
+  }
+  async updatePrivacy(userId: string, updateData: UpdatePrivacySettingsData): Promise<PrivacySettings> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const update: Record<string, PrivacyAudience | MessageAudience> = {};
+    for (const setting of ['emailVisibility', 'lastSeenVisibility', 'messagesFrom'] as const) {
+      const audience = updateData[setting];
+      if (audience) {
+        update[`privacy.${setting}`] = audience;
+      }
+    }
+    const user = await User.findByIdAndUpdate(userId, { $set: update }, { new: true, runValidators: true }).select('privacy');
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    const privacy = getPrivacySettings(user);
+    Logger.info('Privacy settings updated', { userId, ...privacy });
+    return privacy;
+  }
+  broadcastProfileUpdate(user: IUser): void {
+    const profile = toUserProfile(user);
+    try {
+      getSocketService().broadcastProfileUpdate({
+        userId: user._id.toString(),
+        username: user.username,
+        ...profile,
+        statusExpiresAt: profile.statusExpiresAt?.toISOString() || null
+      });
+    } catch (error) {
+      Logger.debug('Socket service unavailable, skipping profile broadcast', {
+        userId: user._id.toString(),
+        error: (error as Error).message
+      });
+    }
+  }
+  private async getHiddenUserIds(viewerId: string): Promise<Types.ObjectId[]> {
+    return [new Types.ObjectId(viewerId), ...await blockService.getBlockedUserIds(viewerId)];
+  }
+  private async getPartnerIds(viewerId: string): Promise<Types.ObjectId[]> {
+    return Conversation.findPartnerIds(new Types.ObjectId(viewerId));
+  }
+  private getViewerRelation(viewerId: string, userId: Types.ObjectId, partnerIds: Types.ObjectId[]): ViewerRelation {
+    if (userId.equals(viewerId)) {
+      return VIEWER_RELATIONS.SELF;
+    }
+    return partnerIds.some(partnerId => partnerId.equals(userId)) ? VIEWER_RELATIONS.CONVERSATION : VIEWER_RELATIONS.NONE;
+  }
+  private getVisibilityFilter(setting: VisibilitySetting, partnerIds: Types.ObjectId[]): FilterQuery<IUser> {
+    return {
+      $or: [
+        audienceFilter(setting, VIEWER_RELATIONS.NONE),
+        { _id: { $in: partnerIds }, ...audienceFilter(setting, VIEWER_RELATIONS.CONVERSATION) }
+      ]
+    };
+  }
+  private getOnlineUserIds(): string[] {
+    try {
+      return getSocketService().getOnlineUsers();
+    } catch (error) {
+      Logger.debug('Socket service unavailable, treating all users as offline', {
+        error: (error as Error).message
+      });
+      return [];
+    }
+  }
+  async updateUserRoles(userId: string, updateData: UpdateUserRolesData, updatedBy: string): Promise<UserAccessResponse> {
+    if (!Types.ObjectId.isValid(userId)) {
+      throw new AppError('Invalid user ID format', 400);
+    }
+    const roles = Array.from(new Set(updateData.roles));
+    const update: { roles: Role[]; permissions?: Permission[] } = { roles };
+    if (updateData.permissions) {
+      update.permissions = Array.from(new Set(updateData.permissions));
+    }
+    const user = await User.findByIdAndUpdate(userId, update, { new: true, runValidators: true });
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+    await tokenRevocationService.revokeAllForUser(userId, 'Roles changed');
+    sessionService.disconnectUserSockets(userId, 'Roles changed');
+    Logger.security('User roles updated', {
+      userId,
+      updatedBy,
+      roles: user.roles,
+      permissions: user.permissions
+    });
+    return {
+      id: user._id.toString(),
+      roles: user.roles,
+      permissions: user.permissions,
+      effectivePermissions: resolvePermissions(user.roles, user.permissions)
+    };
+  }
+  applyConfiguredAdminRole(user: IUser): boolean {
+    if (!user.emailVerified || !config.ADMIN_EMAILS.includes(user.email.toLowerCase()) || user.roles.includes(ROLES.ADMIN)) {
+      return false;
+    }
+    user.roles = [...user.roles, ROLES.ADMIN];
+    Logger.security('Admin role granted to configured email', { userId: user._id.toString() });
+    return true;
+  }
+  async grantConfiguredAdminRoles(): Promise<number> {
+    if (config.ADMIN_EMAILS.length === 0) {
+      return 0;
+    }
+    const result = await User.updateMany(
+      { email: { $in: config.ADMIN_EMAILS }, emailVerified: true, roles: { $ne: ROLES.ADMIN } },
+      { $addToSet: { roles: ROLES.ADMIN } }
+    );
+    if (result.modifiedCount > 0) {
+      Logger.security('Admin role granted to configured emails', { count: result.modifiedCount });
+    }
+    return result.modifiedCount;
+  }
 }
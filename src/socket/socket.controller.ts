@@ -1,9 +1,13 @@
 import { Server as SocketIOServer } from 'socket.io';
 import { Types } from 'mongoose';
 import Logger from '../utils/logger';
-import { requireAuth, getConversationRoom } from './socket.middleware';
+import { requireScopes, getConversationRoom } from './socket.middleware';
+import { API_KEY_SCOPES } from '../constants/api-key-scopes';
 import Conversation from '../models/conversation.model';
+import { toPublicUser } from '../models/user.model';
+import { VIEWER_RELATIONS } from '../constants/privacy';
 import { MessageService } from '../services/message.service';
+import { AppError } from '../utils/app-error';
 import {
   AuthenticatedSocket,
   ServerToClientEvents,
@@ -14,6 +18,7 @@ import {
   JoinConversationData,
   LeaveConversationData,
   SendMessageData,
+  MarkReadData,
   TypingStartData,
   TypingStopData
 } from '../types/socket.types';
@@ -28,12 +33,13 @@ export class SocketController {
     socket.on(SOCKET_EVENTS.JOIN_CONVERSATION, (data) => this.handleJoinConversation(socket, data));
     socket.on(SOCKET_EVENTS.LEAVE_CONVERSATION, (data) => this.handleLeaveConversation(socket, data));
     socket.on(SOCKET_EVENTS.MESSAGE_SEND, (data) => this.handleSendMessage(socket, data));
+    socket.on(SOCKET_EVENTS.MESSAGE_MARK_READ, (data) => this.handleMarkRead(socket, data));
     socket.on(SOCKET_EVENTS.TYPING_START, (data) => this.handleTypingStart(socket, data));
     socket.on(SOCKET_EVENTS.TYPING_STOP, (data) => this.handleTypingStop(socket, data));
   }
   private async handleJoinConversation(socket: AuthenticatedSocket, data: JoinConversationData): Promise<void> {
     try {
-      if (!requireAuth(socket)) return;
+      if (!requireScopes(socket, API_KEY_SCOPES.CONVERSATIONS_READ)) return;
       const { conversationId } = data;
       const userId = socket.userId!;
       Logger.info('[SOCKET] Join conversation attempt', {
@@ -86,7 +92,7 @@ export class SocketController {
   }
   private async handleLeaveConversation(socket: AuthenticatedSocket, data: LeaveConversationData): Promise<void> {
     try {
-      if (!requireAuth(socket)) return;
+      if (!requireScopes(socket, API_KEY_SCOPES.CONVERSATIONS_READ)) return;
       const { conversationId } = data;
       const userId = socket.userId!;
       Logger.info('[SOCKET] Leave conversation attempt', {
@@ -124,7 +130,7 @@ export class SocketController {
   }
   private async handleSendMessage(socket: AuthenticatedSocket, data: SendMessageData): Promise<void> {
     try {
-      if (!requireAuth(socket)) return;
+      if (!requireScopes(socket, API_KEY_SCOPES.MESSAGES_WRITE)) return;
       const { conversationId, content } = data;
       const userId = socket.userId!;
       Logger.info('[SOCKET] Send message attempt', {
@@ -135,17 +141,14 @@ export class SocketController {
         category: 'socket'
       });
       const message = await this.messageService.createMessage(conversationId, userId, content);
+      const conversation = await Conversation.findById(conversationId).select('type');
       const roomName = getConversationRoom(conversationId);
       const populatedSender = message.senderId as any; // senderId is populated with user data
       this.io.to(roomName).emit(SOCKET_EVENTS.MESSAGE_NEW, {
         messageId: message._id.toString(),
         conversationId: message.conversationId.toString(),
         senderId: populatedSender._id.toString(),
-        senderInfo: {
-          _id: populatedSender._id.toString(),
-          username: populatedSender.username,
-          email: populatedSender.email
-        },
+        senderInfo: toPublicUser(populatedSender, conversation?.getParticipantRelation() || VIEWER_RELATIONS.NONE),
         content: message.content,
         createdAt: message.createdAt.toISOString(),
         isRead: message.isRead
@@ -166,14 +169,50 @@ export class SocketController {
       });
       socket.emit(SOCKET_EVENTS.ERROR, {
         message: 'Failed to send message',
-        code: 'SEND_MESSAGE_ERROR',
+        code: error instanceof AppError && error.errorCode ? error.errorCode : 'SEND_MESSAGE_ERROR',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+  private async handleMarkRead(socket: AuthenticatedSocket, data: MarkReadData): Promise<void> {
+    try {
+      if (!requireScopes(socket, API_KEY_SCOPES.MESSAGES_WRITE)) return;
+      const { messageId, conversationId } = data;
+      const userId = socket.userId!;
+      const message = await this.messageService.markMessageRead(messageId, conversationId, userId);
+      if (message) {
+        socket.to(getConversationRoom(conversationId)).emit(SOCKET_EVENTS.MESSAGE_READ, {
+          messageId,
+          conversationId,
+          readBy: userId,
+          readAt: message.updatedAt.toISOString()
+        });
+      }
+      Logger.debug('[SOCKET] Message marked as read', {
+        socketId: socket.id,
+        userId,
+        messageId,
+        conversationId,
+        receiptShared: !!message,
+        category: 'socket'
+      });
+    } catch (error) {
+      Logger.error('[SOCKET] Error marking message as read', error instanceof Error ? error : new Error('Unknown error'), {
+        socketId: socket.id,
+        userId: socket.userId || 'unknown',
+        messageId: data.messageId,
+        category: 'socket'
+      });
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        message: 'Failed to mark message as read',
+        code: error instanceof AppError && error.errorCode ? error.errorCode : 'MARK_READ_ERROR',
         details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   }
   private handleTypingStart(socket: AuthenticatedSocket, data: TypingStartData): void {
     try {
-      if (!requireAuth(socket)) return;
+      if (!requireScopes(socket, API_KEY_SCOPES.MESSAGES_WRITE)) return;
       const { conversationId } = data;
       const userId = socket.userId!;
       const username = socket.user!.username;
@@ -200,7 +239,7 @@ export class SocketController {
   }
   private handleTypingStop(socket: AuthenticatedSocket, data: TypingStopData): void {
     try {
-      if (!requireAuth(socket)) return;
+      if (!requireScopes(socket, API_KEY_SCOPES.MESSAGES_WRITE)) return;
       const { conversationId } = data;
       const userId = socket.userId!;
       const username = socket.user!.username;
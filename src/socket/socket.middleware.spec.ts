@@ -1,18 +1,33 @@
 import { Socket } from 'socket.io';
-import jwt from 'jsonwebtoken';
-import { socketAuthMiddleware, requireAuth, getUserRoom, getConversationRoom } from './socket.middleware';
+import {
+  socketAuthMiddleware,
+  reauthenticateSocket,
+  requireAuth,
+  requirePermissions,
+  socketAuthorize,
+  getUserRoom,
+  getConversationRoom
+} from './socket.middleware';
 import { AuthenticatedSocket } from '../types/socket.types';
 import User from '../models/user.model';
+import { AuthService } from '../services/auth.service';
+import { apiKeyService } from '../services/api-key.service';
+import { auditLogService } from '../services/audit-log.service';
+import { PERMISSIONS } from '../constants/roles';
+import { API_KEY_SCOPES } from '../constants/api-key-scopes';
 jest.mock('../models/user.model', () => ({
   findById: jest.fn().mockReturnValue({
     select: jest.fn()
   })
 }));
-jest.mock('jsonwebtoken');
+jest.mock('../services/auth.service');
+jest.mock('../services/api-key.service');
+jest.mock('../services/audit-log.service');
 jest.mock('../utils/logger');
 describe('Socket Middleware', () => {
   let mockSocket: Partial<Socket>;
   let mockNext: jest.Mock;
+  let mockAuthService: jest.Mocked<AuthService>;
   beforeEach(() => {
     mockSocket = {
       id: 'socket123',
@@ -31,6 +46,10 @@ describe('Socket Middleware', () => {
     };
     mockNext = jest.fn();
     jest.clearAllMocks();
+    mockAuthService = {
+      verifyAccessToken: jest.fn()
+    } as any;
+    (AuthService as jest.MockedClass<typeof AuthService>).mockImplementation(() => mockAuthService);
   });
   describe('socketAuthMiddleware', () => {
     const mockUserData = {
@@ -38,21 +57,19 @@ describe('Socket Middleware', () => {
       username: 'testuser',
       email: 'test@example.com'
     };
-    beforeEach(() => {
-      process.env.JWT_SECRET = 'test-secret';
-    });
     it('should authenticate user with valid token in auth', async () => {
       const token = 'valid-token';
       mockSocket.handshake!.auth!.token = token;
-      (jwt.verify as jest.Mock).mockReturnValue({
+      mockAuthService.verifyAccessToken.mockResolvedValue({
         userId: 'user123',
-        email: 'test@example.com'
+        email: 'test@example.com',
+        username: 'testuser'
       });
       (User.findById as jest.Mock).mockReturnValue({
         select: jest.fn().mockResolvedValue(mockUserData)
       });
       await socketAuthMiddleware(mockSocket as Socket, mockNext);
-      expect(jwt.verify).toHaveBeenCalledWith(token, 'test-secret');
+      expect(mockAuthService.verifyAccessToken).toHaveBeenCalledWith(token);
       expect(User.findById).toHaveBeenCalledWith('user123');
       expect((mockSocket as AuthenticatedSocket).userId).toBe('user123');
       expect((mockSocket as AuthenticatedSocket).user).toEqual({
@@ -62,43 +79,80 @@ describe('Socket Middleware', () => {
       });
       expect(mockNext).toHaveBeenCalledWith();
     });
+    it('should track when the access token expires', async () => {
+      const exp = Math.floor(Date.now() / 1000) + 900;
+      mockSocket.handshake!.auth!.token = 'valid-token';
+      mockAuthService.verifyAccessToken.mockResolvedValue({
+        userId: 'user123',
+        email: 'test@example.com',
+        username: 'testuser',
+        exp
+      });
+      (User.findById as jest.Mock).mockReturnValue({
+        select: jest.fn().mockResolvedValue(mockUserData)
+      });
+      await socketAuthMiddleware(mockSocket as Socket, mockNext);
+      expect((mockSocket as AuthenticatedSocket).tokenExpiresAt).toBe(exp * 1000);
+    });
     it('should authenticate user with valid token in query', async () => {
       const token = 'valid-token';
       mockSocket.handshake!.query!.token = token;
-      (jwt.verify as jest.Mock).mockReturnValue({
+      mockAuthService.verifyAccessToken.mockResolvedValue({
         userId: 'user123',
-        email: 'test@example.com'
+        email: 'test@example.com',
+        username: 'testuser'
       });
       (User.findById as jest.Mock).mockReturnValue({
         select: jest.fn().mockResolvedValue(mockUserData)
       });
       await socketAuthMiddleware(mockSocket as Socket, mockNext);
-      expect(jwt.verify).toHaveBeenCalledWith(token, 'test-secret');
+      expect(mockAuthService.verifyAccessToken).toHaveBeenCalledWith(token);
       expect(mockNext).toHaveBeenCalledWith();
     });
-    it('should reject when no token provided', async () => {
+    it('should authenticate API keys with their scopes and no role permissions', async () => {
+      mockSocket.handshake!.auth!.apiKey = 'rtm_abc_secret';
+      (apiKeyService.authenticate as jest.Mock).mockResolvedValue({
+        userId: 'user123',
+        email: 'test@example.com',
+        username: 'testuser',
+        permissions: [],
+        apiKeyId: 'key123',
+        scopes: [API_KEY_SCOPES.MESSAGES_WRITE]
+      });
+      (User.findById as jest.Mock).mockReturnValue({
+        select: jest.fn().mockResolvedValue({ ...mockUserData, roles: ['admin'], permissions: [] })
+      });
       await socketAuthMiddleware(mockSocket as Socket, mockNext);
-      expect(mockNext).toHaveBeenCalledWith(new Error('Authentication failed: No token provided'));
+      expect(apiKeyService.authenticate).toHaveBeenCalledWith('rtm_abc_secret', '127.0.0.1');
+      expect(mockAuthService.verifyAccessToken).not.toHaveBeenCalled();
+      const authenticatedSocket = mockSocket as AuthenticatedSocket;
+      expect(authenticatedSocket.apiKeyId).toBe('key123');
+      expect(authenticatedSocket.scopes).toEqual([API_KEY_SCOPES.MESSAGES_WRITE]);
+      expect(authenticatedSocket.permissions).toEqual([]);
+      expect(mockNext).toHaveBeenCalledWith();
     });
-    it('should reject when JWT_SECRET not configured', async () => {
-      delete process.env.JWT_SECRET;
-      mockSocket.handshake!.auth!.token = 'some-token';
+    it('should reject when no token provided', async () => {
       await socketAuthMiddleware(mockSocket as Socket, mockNext);
-      expect(mockNext).toHaveBeenCalledWith(new Error('Server configuration error'));
+      expect(mockNext).toHaveBeenCalledWith(new Error('Authentication failed: No token provided'));
     });
     it('should reject when token is invalid', async () => {
       mockSocket.handshake!.auth!.token = 'invalid-token';
-      (jwt.verify as jest.Mock).mockImplementation(() => {
-        throw new Error('Invalid token');
-      });
+      mockAuthService.verifyAccessToken.mockRejectedValue(new Error('Invalid token'));
       await socketAuthMiddleware(mockSocket as Socket, mockNext);
       expect(mockNext).toHaveBeenCalledWith(new Error('Authentication failed: Invalid token'));
+      expect(auditLogService.record).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'socket_auth',
+        outcome: 'failure',
+        reason: 'INVALID_TOKEN',
+        ip: '127.0.0.1'
+      }));
     });
     it('should reject when user not found', async () => {
       mockSocket.handshake!.auth!.token = 'valid-token';
-      (jwt.verify as jest.Mock).mockReturnValue({
+      mockAuthService.verifyAccessToken.mockResolvedValue({
         userId: 'user123',
-        email: 'test@example.com'
+        email: 'test@example.com',
+        username: 'testuser'
       });
       (User.findById as jest.Mock).mockReturnValue({
         select: jest.fn().mockResolvedValue(null)
@@ -108,9 +162,10 @@ describe('Socket Middleware', () => {
     });
     it('should handle database errors', async () => {
       mockSocket.handshake!.auth!.token = 'valid-token';
-      (jwt.verify as jest.Mock).mockReturnValue({
+      mockAuthService.verifyAccessToken.mockResolvedValue({
         userId: 'user123',
-        email: 'test@example.com'
+        email: 'test@example.com',
+        username: 'testuser'
       });
       (User.findById as jest.Mock).mockReturnValue({
         select: jest.fn().mockRejectedValue(new Error('Database error'))
@@ -119,6 +174,56 @@ describe('Socket Middleware', () => {
       expect(mockNext).toHaveBeenCalledWith(new Error('Authentication failed: Server error'));
     });
   });
+  describe('reauthenticateSocket', () => {
+    let socket: AuthenticatedSocket;
+    beforeEach(() => {
+      socket = {
+        id: 'socket123',
+        userId: 'user123',
+        sessionId: 'session-old',
+        tokenExpiresAt: Date.now(),
+        permissions: [],
+        emit: jest.fn()
+      } as unknown as AuthenticatedSocket;
+    });
+    it('should update the session, permissions and expiry from the new token', async () => {
+      const exp = Math.floor(Date.now() / 1000) + 900;
+      mockAuthService.verifyAccessToken.mockResolvedValue({
+        userId: 'user123',
+        email: 'test@example.com',
+        username: 'testuser',
+        sessionId: 'session-new',
+        exp
+      });
+      (User.findById as jest.Mock).mockReturnValue({
+        select: jest.fn().mockResolvedValue({ roles: ['admin'], permissions: [] })
+      });
+      await reauthenticateSocket(socket, 'fresh-token');
+      expect(mockAuthService.verifyAccessToken).toHaveBeenCalledWith('fresh-token');
+      expect(socket.sessionId).toBe('session-new');
+      expect(socket.tokenExpiresAt).toBe(exp * 1000);
+      expect(socket.permissions).toContain(PERMISSIONS.JOBS_MANAGE);
+    });
+    it('should reject tokens issued to another user', async () => {
+      mockAuthService.verifyAccessToken.mockResolvedValue({
+        userId: 'someone-else',
+        email: 'other@example.com',
+        username: 'other'
+      });
+      await expect(reauthenticateSocket(socket, 'foreign-token')).rejects.toMatchObject({
+        statusCode: 403,
+        errorCode: 'TOKEN_SUBJECT_MISMATCH'
+      });
+      expect(socket.sessionId).toBe('session-old');
+    });
+    it('should reject refreshes on API key connections', async () => {
+      socket.apiKeyId = 'key123';
+      await expect(reauthenticateSocket(socket, 'fresh-token')).rejects.toMatchObject({
+        errorCode: 'TOKEN_REFRESH_NOT_SUPPORTED'
+      });
+      expect(mockAuthService.verifyAccessToken).not.toHaveBeenCalled();
+    });
+  });
   describe('requireAuth', () => {
     it('should return true for authenticated socket', () => {
       const authenticatedSocket = {
@@ -142,6 +247,43 @@ describe('Socket Middleware', () => {
       });
     });
   });
+  describe('requirePermissions', () => {
+    it('should return true when the socket has every required permission', () => {
+      const adminSocket = {
+        userId: 'user123',
+        user: { _id: 'user123', username: 'admin', email: 'admin@example.com' },
+        permissions: [PERMISSIONS.JOBS_MANAGE, PERMISSIONS.QUEUES_MANAGE],
+        emit: jest.fn()
+      } as unknown as AuthenticatedSocket;
+      expect(requirePermissions(adminSocket, PERMISSIONS.JOBS_MANAGE)).toBe(true);
+      expect(adminSocket.emit).not.toHaveBeenCalled();
+    });
+    it('should return false and emit a forbidden error when a permission is missing', () => {
+      const userSocket = {
+        userId: 'user123',
+        user: { _id: 'user123', username: 'test', email: 'test@example.com' },
+        permissions: [],
+        emit: jest.fn()
+      } as unknown as AuthenticatedSocket;
+      expect(requirePermissions(userSocket, PERMISSIONS.JOBS_MANAGE)).toBe(false);
+      expect(userSocket.emit).toHaveBeenCalledWith('error', {
+        message: 'You do not have permission to perform this action',
+        code: 'FORBIDDEN'
+      });
+    });
+  });
+  describe('socketAuthorize', () => {
+    it('should allow sockets with the required permissions', () => {
+      const socket = { id: 'socket123', userId: 'user123', permissions: [PERMISSIONS.MESSAGES_MODERATE] };
+      socketAuthorize(PERMISSIONS.MESSAGES_MODERATE)(socket as unknown as Socket, mockNext);
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+    it('should reject sockets without the required permissions', () => {
+      const socket = { id: 'socket123', userId: 'user123', permissions: [] };
+      socketAuthorize(PERMISSIONS.MESSAGES_MODERATE)(socket as unknown as Socket, mockNext);
+      expect(mockNext).toHaveBeenCalledWith(new Error('Forbidden: insufficient permissions'));
+    });
+  });
   describe('Room helpers', () => {
     it('should generate correct user room name', () => {
       const result = getUserRoom('user123');
@@ -1,35 +1,40 @@
 import { Socket } from 'socket.io';
-import jwt from 'jsonwebtoken';
 import User from '../models/user.model';
+import { AuthService, JWTPayload } from '../services/auth.service';
+import { apiKeyService } from '../services/api-key.service';
+import { auditLogService } from '../services/audit-log.service';
+import { AppError } from '../utils/app-error';
 import Logger from '../utils/logger';
 import { AuthenticatedSocket } from '../types/socket.types';
-export interface SocketAuthPayload {
-  userId: string;
-  email: string;
-  iat: number;
-  exp: number;
-}
+import { Permission, hasPermissions, resolvePermissions } from '../constants/roles';
+import { ApiKeyScope, hasScopes, isApiKey } from '../constants/api-key-scopes';
+import { AUDIT_EVENT_TYPES, AUDIT_OUTCOMES } from '../constants/audit-events';
+const recordSocketAuthFailure = (socket: Socket, reason: string, userId?: string): Promise<void> =>
+  auditLogService.record({
+    type: AUDIT_EVENT_TYPES.SOCKET_AUTH,
+    outcome: AUDIT_OUTCOMES.FAILURE,
+    userId,
+    reason,
+    ip: socket.handshake.address,
+    userAgent: socket.handshake.headers['user-agent']
+  });
 export const socketAuthMiddleware = async (socket: Socket, next: (err?: Error) => void) => {
   try {
-    const token = socket.handshake.auth?.token || socket.handshake.query?.token;
+    const token = socket.handshake.auth?.apiKey || socket.handshake.auth?.token || socket.handshake.query?.token;
     if (!token) {
       Logger.warn('[SOCKET] Authentication failed: No token provided', {
         socketId: socket.id,
         ip: socket.handshake.address,
         category: 'socket'
       });
+      await recordSocketAuthFailure(socket, 'NO_TOKEN');
       return next(new Error('Authentication failed: No token provided'));
     }
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      Logger.error('[SOCKET] JWT_SECRET not configured', new Error('JWT_SECRET not configured'), {
-        category: 'socket'
-      });
-      return next(new Error('Server configuration error'));
-    }
-    let decoded: SocketAuthPayload;
+    let decoded: JWTPayload;
     try {
-      decoded = jwt.verify(token, jwtSecret) as SocketAuthPayload;
+      decoded = isApiKey(token)
+        ? await apiKeyService.authenticate(token, socket.handshake.address)
+        : await new AuthService().verifyAccessToken(token);
     } catch (jwtError) {
       Logger.warn('[SOCKET] Authentication failed: Invalid token', {
         socketId: socket.id,
@@ -37,19 +42,38 @@ export const socketAuthMiddleware = async (socket: Socket, next: (err?: Error) =
         error: jwtError instanceof Error ? jwtError.message : 'Unknown JWT error',
         category: 'socket'
       });
+      await recordSocketAuthFailure(socket, (jwtError instanceof AppError && jwtError.errorCode) || 'INVALID_TOKEN');
       return next(new Error('Authentication failed: Invalid token'));
     }
-    const user = await User.findById(decoded.userId).select('username email');
+    const user = await User.findById(decoded.userId).select('username email roles permissions');
     if (!user) {
       Logger.warn('[SOCKET] Authentication failed: User not found', {
         socketId: socket.id,
         userId: decoded.userId,
         category: 'socket'
       });
+      await recordSocketAuthFailure(socket, 'USER_NOT_FOUND', decoded.userId);
       return next(new Error('Authentication failed: User not found'));
     }
     const authenticatedSocket = socket as AuthenticatedSocket;
     authenticatedSocket.userId = user._id.toString();
+    if (decoded.sessionId) {
+      authenticatedSocket.sessionId = decoded.sessionId;
+    }
+    authenticatedSocket.roles = user.roles;
+    if (decoded.impersonatorId) {
+      authenticatedSocket.impersonatorId = decoded.impersonatorId;
+    }
+    if (decoded.exp) {
+      authenticatedSocket.tokenExpiresAt = decoded.exp * 1000;
+    }
+    if (decoded.apiKeyId) {
+      authenticatedSocket.apiKeyId = decoded.apiKeyId;
+      authenticatedSocket.scopes = decoded.scopes || [];
+      authenticatedSocket.permissions = [];
+    } else {
+      authenticatedSocket.permissions = resolvePermissions(user.roles, user.permissions);
+    }
     authenticatedSocket.user = {
       _id: user._id.toString(),
       username: user.username,
@@ -71,6 +95,44 @@ export const socketAuthMiddleware = async (socket: Socket, next: (err?: Error) =
     next(new Error('Authentication failed: Server error'));
   }
 };
+export const reauthenticateSocket = async (socket: AuthenticatedSocket, token: string): Promise<void> => {
+  if (socket.apiKeyId) {
+    throw new AppError('API key connections do not use access tokens', 400, 'TOKEN_REFRESH_NOT_SUPPORTED');
+  }
+  if (!token || isApiKey(token)) {
+    throw new AppError('Access token is required', 400, 'NO_TOKEN');
+  }
+  const decoded = await new AuthService().verifyAccessToken(token);
+  if (decoded.userId !== socket.userId || decoded.apiKeyId || decoded.impersonatorId !== socket.impersonatorId) {
+    Logger.security('[SOCKET] Token refresh rejected - subject mismatch', {
+      socketId: socket.id,
+      userId: socket.userId!,
+      tokenUserId: decoded.userId
+    });
+    throw new AppError('Token does not belong to this connection', 403, 'TOKEN_SUBJECT_MISMATCH');
+  }
+  const user = await User.findById(decoded.userId).select('roles permissions');
+  if (!user) {
+    throw new AppError('Account is disabled', 401, 'ACCOUNT_DISABLED');
+  }
+  if (decoded.sessionId) {
+    socket.sessionId = decoded.sessionId;
+  } else {
+    delete socket.sessionId;
+  }
+  if (decoded.exp) {
+    socket.tokenExpiresAt = decoded.exp * 1000;
+  } else {
+    delete socket.tokenExpiresAt;
+  }
+  socket.roles = user.roles;
+  socket.permissions = resolvePermissions(user.roles, user.permissions);
+  Logger.info('[SOCKET] Access token refreshed', {
+    socketId: socket.id,
+    userId: socket.userId!,
+    category: 'socket'
+  });
+};
 export const requireAuth = (socket: AuthenticatedSocket): boolean => {
   if (!socket.userId || !socket.user) {
     socket.emit('error', {
@@ -81,6 +143,63 @@ export const requireAuth = (socket: AuthenticatedSocket): boolean => {
   }
   return true;
 };
+export const requirePermissions = (socket: AuthenticatedSocket, ...permissions: Permission[]): boolean => {
+  if (!requireAuth(socket)) {
+    return false;
+  }
+  if (!hasPermissions(socket.permissions, permissions)) {
+    Logger.security('[SOCKET] Access denied - missing permissions', {
+      socketId: socket.id,
+      userId: socket.userId!,
+      required: permissions,
+      granted: socket.permissions || []
+    });
+    socket.emit('error', {
+      message: 'You do not have permission to perform this action',
+      code: 'FORBIDDEN'
+    });
+    return false;
+  }
+  return true;
+};
+export const requireScopes = (socket: AuthenticatedSocket, ...scopes: ApiKeyScope[]): boolean => {
+  if (!requireAuth(socket)) {
+    return false;
+  }
+  if (socket.apiKeyId && !hasScopes(socket.scopes, scopes)) {
+    Logger.security('[SOCKET] Access denied - API key missing scopes', {
+      socketId: socket.id,
+      userId: socket.userId!,
+      apiKeyId: socket.apiKeyId,
+      required: scopes,
+      granted: socket.scopes || []
+    });
+    socket.emit('error', {
+      message: 'API key does not have the required scope',
+      code: 'INSUFFICIENT_SCOPE'
+    });
+    return false;
+  }
+  return true;
+};
+export const socketAuthorize = (...permissions: Permission[]) => (
+  socket: Socket,
+  next: (err?: Error) => void
+): void => {
+  const authenticatedSocket = socket as AuthenticatedSocket;
+  if (!authenticatedSocket.userId) {
+    return next(new Error('Authentication required'));
+  }
+  if (!hasPermissions(authenticatedSocket.permissions, permissions)) {
+    Logger.security('[SOCKET] Connection rejected - missing permissions', {
+      socketId: socket.id,
+      userId: authenticatedSocket.userId,
+      required: permissions
+    });
+    return next(new Error('Forbidden: insufficient permissions'));
+  }
+  next();
+};
 export const getUserRoom = (userId: string): string => {
   return `user:${userId}`;
 };
@@ -1,20 +1,34 @@
 import { Server as HttpServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import Logger from '../utils/logger';
-import { socketAuthMiddleware } from './socket.middleware';
+import { config } from '../config/env';
+import { Types } from 'mongoose';
+import { socketAuthMiddleware, reauthenticateSocket, getUserRoom, getConversationRoom } from './socket.middleware';
 import { SocketController } from './socket.controller';
+import { impersonationService } from '../services/impersonation.service';
+import { AUDIT_OUTCOMES } from '../constants/audit-events';
+import { AppError } from '../utils/app-error';
+import User, { getPrivacySettings } from '../models/user.model';
+import Conversation from '../models/conversation.model';
+import UserBlock from '../models/user-block.model';
+import { PRIVACY_AUDIENCES } from '../constants/privacy';
 import {
   ServerToClientEvents,
   ClientToServerEvents,
   InterServerEvents,
   SocketData,
-  AuthenticatedSocket
+  AuthenticatedSocket,
+  AuthRefreshData,
+  UserProfileUpdatedData,
+  SOCKET_EVENTS
 } from '../types/socket.types';
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
 export class SocketService {
   private io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
   private socketController: SocketController;
   private connectedUsers: Map<string, Set<string>> = new Map(); 
   private userSockets: Map<string, string> = new Map(); 
+  private tokenTimers: Map<string, NodeJS.Timeout[]> = new Map();
   constructor(httpServer: HttpServer) {
     this.io = new SocketIOServer(httpServer, {
       cors: {
@@ -53,13 +67,107 @@ export class SocketService {
       category: 'socket'
     });
     this.addUserConnection(userId, socket.id);
+    this.touchLastSeen(userId);
     socket.join(`user:${userId}`);
     this.broadcastUserStatus(userId, username, 'online');
+    if (socket.impersonatorId) {
+      this.auditImpersonatedEvents(socket);
+    }
+    this.scheduleTokenExpiry(socket);
     this.socketController.setupSocketHandlers(socket);
+    socket.on(SOCKET_EVENTS.AUTH_REFRESH, (data) => this.handleAuthRefresh(socket, data));
     socket.on('disconnect', (reason) => {
       this.handleDisconnection(socket, reason);
     });
   }
+  private async handleAuthRefresh(socket: AuthenticatedSocket, data: AuthRefreshData): Promise<void> {
+    try {
+      await reauthenticateSocket(socket, data?.token);
+      if (!socket.connected) {
+        return;
+      }
+      this.scheduleTokenExpiry(socket);
+      socket.emit(SOCKET_EVENTS.AUTH_REFRESHED, {
+        expiresAt: socket.tokenExpiresAt ? new Date(socket.tokenExpiresAt).toISOString() : null
+      });
+    } catch (error) {
+      Logger.warn('[SOCKET] Token refresh failed', {
+        socketId: socket.id,
+        userId: socket.userId!,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        category: 'socket'
+      });
+      socket.emit(SOCKET_EVENTS.ERROR, {
+        message: error instanceof AppError ? error.message : 'Token refresh failed',
+        code: (error instanceof AppError && error.errorCode) || 'TOKEN_REFRESH_FAILED'
+      });
+    }
+  }
+  private scheduleTokenExpiry(socket: AuthenticatedSocket): void {
+    this.clearTokenExpiry(socket.id);
+    if (!socket.tokenExpiresAt) {
+      return;
+    }
+    const expiresAt = socket.tokenExpiresAt;
+    const expiresInMs = expiresAt - Date.now();
+    if (expiresInMs > MAX_TIMER_DELAY_MS) {
+      // setTimeout fires immediately past 2^31-1 ms, so wait until the expiry is in range
+      this.tokenTimers.set(socket.id, [
+        setTimeout(() => this.scheduleTokenExpiry(socket), Math.min(expiresInMs - MAX_TIMER_DELAY_MS, MAX_TIMER_DELAY_MS))
+      ]);
+      return;
+    }
+    const warningInMs = expiresInMs - config.SOCKET_TOKEN_EXPIRY_WARNING_SECONDS * 1000;
+    this.tokenTimers.set(socket.id, [
+      setTimeout(() => {
+        socket.emit(SOCKET_EVENTS.AUTH_EXPIRING, {
+          expiresAt: new Date(expiresAt).toISOString(),
+          expiresIn: Math.max(Math.round((expiresAt - Date.now()) / 1000), 0)
+        });
+      }, Math.max(warningInMs, 0)),
+      setTimeout(() => {
+        Logger.info('[SOCKET] Disconnecting socket with expired token', {
+          socketId: socket.id,
+          userId: socket.userId!,
+          category: 'socket'
+        });
+        socket.emit(SOCKET_EVENTS.AUTH_EXPIRED, { reason: 'Access token expired' });
+        socket.disconnect(true);
+      }, Math.max(expiresInMs, 0))
+    ]);
+  }
+  private clearTokenExpiry(socketId: string): void {
+    this.tokenTimers.get(socketId)?.forEach(timer => clearTimeout(timer));
+    this.tokenTimers.delete(socketId);
+  }
+  private auditImpersonatedEvents(socket: AuthenticatedSocket): void {
+    const principal = {
+      userId: socket.userId!,
+      email: socket.user!.email,
+      username: socket.user!.username,
+      impersonatorId: socket.impersonatorId!
+    };
+    const context = {
+      ip: socket.handshake.address,
+      userAgent: socket.handshake.headers['user-agent']
+    };
+    Logger.security('[SOCKET] Impersonated socket connected', {
+      socketId: socket.id,
+      userId: principal.userId,
+      impersonatorId: principal.impersonatorId,
+      category: 'socket'
+    });
+    socket.use(async ([event], next) => {
+      await impersonationService.recordAction(
+        principal,
+        `socket:${event}`,
+        AUDIT_OUTCOMES.SUCCESS,
+        { socketId: socket.id, event },
+        context
+      );
+      next();
+    });
+  }
   private handleDisconnection(socket: AuthenticatedSocket, reason: string): void {
     const userId = socket.userId!;
     const username = socket.user!.username;
@@ -71,11 +179,24 @@ export class SocketService {
       totalConnections: this.io.engine.clientsCount - 1,
       category: 'socket'
     });
+    this.clearTokenExpiry(socket.id);
     this.removeUserConnection(userId, socket.id);
     if (!this.isUserOnline(userId)) {
+      this.touchLastSeen(userId);
       this.broadcastUserStatus(userId, username, 'offline');
     }
   }
+  private async touchLastSeen(userId: string): Promise<void> {
+    try {
+      await User.updateOne({ _id: userId }, { $set: { lastSeenAt: new Date() } });
+    } catch (error) {
+      Logger.warn('[SOCKET] Failed to update last seen time', {
+        userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        category: 'socket'
+      });
+    }
+  }
   private addUserConnection(userId: string, socketId: string): void {
     if (!this.connectedUsers.has(userId)) {
       this.connectedUsers.set(userId, new Set());
@@ -102,24 +223,133 @@ export class SocketService {
   public getUserSocketCount(userId: string): number {
     return this.connectedUsers.get(userId)?.size || 0;
   }
-  public broadcastUserStatus(userId: string, username: string, status: 'online' | 'offline'): void {
-    const eventName = status === 'online' ? 'user:online' : 'user:offline';
-    this.io.emit(eventName, {
+  public disconnectUserSessions(userId: string, sessionIds: string[], reason: string): number {
+    const socketIds = this.connectedUsers.get(userId);
+    if (!socketIds) {
+      return 0;
+    }
+    let disconnected = 0;
+    Array.from(socketIds).forEach(socketId => {
+      const socket = this.io.sockets.sockets.get(socketId) as AuthenticatedSocket | undefined;
+      if (socket && socket.sessionId && sessionIds.includes(socket.sessionId)) {
+        socket.emit(SOCKET_EVENTS.SESSION_REVOKED, { sessionId: socket.sessionId, reason });
+        socket.disconnect(true);
+        disconnected++;
+      }
+    });
+    Logger.info('[SOCKET] User session sockets disconnected', {
       userId,
-      username,
-      status,
-      ...(status === 'offline' && { lastSeen: new Date().toISOString() })
+      sessionIds,
+      reason,
+      disconnected,
+      category: 'socket'
     });
-    Logger.info(`[SOCKET] User status broadcasted: ${status}`, {
+    return disconnected;
+  }
+  public disconnectApiKey(userId: string, apiKeyId: string, reason: string): number {
+    const socketIds = this.connectedUsers.get(userId);
+    if (!socketIds) {
+      return 0;
+    }
+    let disconnected = 0;
+    Array.from(socketIds).forEach(socketId => {
+      const socket = this.io.sockets.sockets.get(socketId) as AuthenticatedSocket | undefined;
+      if (socket && socket.apiKeyId === apiKeyId) {
+        socket.emit(SOCKET_EVENTS.AUTH_REVOKED, { reason });
+        socket.disconnect(true);
+        disconnected++;
+      }
+    });
+    Logger.info('[SOCKET] API key sockets disconnected', {
+      userId,
+      apiKeyId,
+      reason,
+      disconnected,
+      category: 'socket'
+    });
+    return disconnected;
+  }
+  public disconnectUser(userId: string, reason: string): number {
+    const socketIds = this.connectedUsers.get(userId);
+    if (!socketIds) {
+      return 0;
+    }
+    let disconnected = 0;
+    Array.from(socketIds).forEach(socketId => {
+      const socket = this.io.sockets.sockets.get(socketId);
+      if (socket) {
+        socket.emit(SOCKET_EVENTS.AUTH_REVOKED, { reason });
+        socket.disconnect(true);
+        disconnected++;
+      }
+    });
+    Logger.info('[SOCKET] User sockets disconnected', {
+      userId,
+      reason,
+      disconnected,
+      category: 'socket'
+    });
+    return disconnected;
+  }
+  public async broadcastUserStatus(userId: string, username: string, status: 'online' | 'offline'): Promise<void> {
+    const eventName = status === 'online' ? 'user:online' : 'user:offline';
+    const statusData = {
       userId,
       username,
       status,
+      ...(status === 'offline' && { lastSeen: new Date().toISOString() })
+    };
+    try {
+      const user = await User.findById(userId).select('privacy');
+      const { lastSeenVisibility } = getPrivacySettings(user || {});
+      if (lastSeenVisibility === PRIVACY_AUDIENCES.NOBODY) {
+        Logger.debug('[SOCKET] User status hidden by privacy settings', {
+          userId,
+          status,
+          category: 'socket'
+        });
+        return;
+      }
+      const userObjectId = new Types.ObjectId(userId);
+      const blockedUserIds = await UserBlock.findBlockedUserIds(userObjectId);
+      if (lastSeenVisibility === PRIVACY_AUDIENCES.EVERYONE) {
+        this.io.except(blockedUserIds.map(blockedUserId => getUserRoom(blockedUserId.toString()))).emit(eventName, statusData);
+      } else {
+        const partnerIds = (await Conversation.findPartnerIds(userObjectId))
+          .filter(partnerId => !blockedUserIds.some(blockedUserId => blockedUserId.equals(partnerId)));
+        if (partnerIds.length > 0) {
+          this.io.to(partnerIds.map(partnerId => getUserRoom(partnerId.toString()))).emit(eventName, statusData);
+        }
+      }
+      Logger.info(`[SOCKET] User status broadcasted: ${status}`, {
+        userId,
+        username,
+        status,
+        audience: lastSeenVisibility,
+        category: 'socket'
+      });
+    } catch (error) {
+      Logger.warn('[SOCKET] Failed to broadcast user status', {
+        userId,
+        status,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        category: 'socket'
+      });
+    }
+  }
+  public broadcastProfileUpdate(data: UserProfileUpdatedData): void {
+    this.io.emit(SOCKET_EVENTS.USER_PROFILE_UPDATED, data);
+    Logger.info('[SOCKET] User profile update broadcasted', {
+      userId: data.userId,
       category: 'socket'
     });
   }
   public emitToUser(userId: string, event: string, data: any): void {
     this.io.to(`user:${userId}`).emit(event as any, data);
   }
+  public removeUserFromConversation(userId: string, conversationId: string): void {
+    this.io.in(getUserRoom(userId)).socketsLeave(getConversationRoom(conversationId));
+  }
   public emitToConversation(conversationId: string, event: string, data: any): void {
     this.io.to(`conversation:${conversationId}`).emit(event as any, data);
   }
@@ -3,16 +3,19 @@ import { messageConsumerService } from '../services/message-consumer.service';
 import { rabbitmqConfig } from '../config/rabbitmq';
 import { socketService } from '../socket/socket.service';
 import { userStatusService } from '../services/user-status.service';
+import { preferencesService } from '../services/preferences.service';
 jest.mock('../services/message-consumer.service');
 jest.mock('../config/rabbitmq');
 jest.mock('../socket/socket.service');
 jest.mock('../services/user-status.service');
+jest.mock('../services/preferences.service');
 jest.mock('../utils/logger');
 jest.mock('amqplib');
 const mockMessageConsumerService = messageConsumerService as jest.Mocked<typeof messageConsumerService>;
 const mockRabbitmqConfig = rabbitmqConfig as jest.Mocked<typeof rabbitmqConfig>;
 const mockSocketService = socketService as jest.Mocked<typeof socketService>;
 const mockUserStatusService = userStatusService as jest.Mocked<typeof userStatusService>;
+const mockPreferencesService = preferencesService as jest.Mocked<typeof preferencesService>;
 describe('MessageSubscriber', () => {
   let messageSubscriber: MessageSubscriber;
   let mockChannel: any;
@@ -98,6 +101,7 @@ describe('MessageSubscriber', () => {
         conversationId: 'conv123'
       });
       mockUserStatusService.isUserOnline.mockResolvedValue(true);
+      mockPreferencesService.shouldNotify.mockResolvedValue(true);
       const Message = require('../models/message.model');
       const mockMessageDoc = {
         _id: 'msg123',
@@ -119,9 +123,15 @@ describe('MessageSubscriber', () => {
         conversationId: 'conv123',
         senderId: '507f1f77bcf86cd799439012',
         senderInfo: {
-          _id: '507f1f77bcf86cd799439012',
+          id: '507f1f77bcf86cd799439012',
           username: 'testuser',
-          email: 'test@example.com'
+          email: null,
+          displayName: null,
+          bio: null,
+          avatarUrl: null,
+          statusText: null,
+          statusExpiresAt: null,
+          lastSeenAt: null
         },
         content: 'Test message',
         createdAt: new Date().toISOString(),
@@ -161,6 +171,31 @@ describe('MessageSubscriber', () => {
       expect(mockSocketService.emitToUser).not.toHaveBeenCalled();
       expect(mockChannel.ack).toHaveBeenCalledWith(mockMessage);
     });
+    it('should skip notification if receiver muted message notifications', async () => {
+      const mockMessage = {
+        content: Buffer.from(JSON.stringify({
+          autoMessageId: '507f1f77bcf86cd799439011',
+          senderId: '507f1f77bcf86cd799439012',
+          receiverId: '507f1f77bcf86cd799439013',
+          content: 'Test message',
+          originalSendDate: new Date().toISOString(),
+          queuedAt: new Date().toISOString()
+        })),
+        properties: { headers: {} }
+      };
+      mockMessageConsumerService.processQueueMessage.mockResolvedValue({
+        success: true,
+        messageId: 'msg123',
+        conversationId: 'conv123'
+      });
+      mockUserStatusService.isUserOnline.mockResolvedValue(true);
+      mockPreferencesService.shouldNotify.mockResolvedValue(false);
+      const consumeCallback = mockChannel.consume.mock.calls[0][1];
+      await consumeCallback(mockMessage);
+      expect(mockPreferencesService.shouldNotify).toHaveBeenCalledWith('507f1f77bcf86cd799439013', 'messages');
+      expect(mockSocketService.emitToUser).not.toHaveBeenCalled();
+      expect(mockChannel.ack).toHaveBeenCalledWith(mockMessage);
+    });
     it('should handle processing failure with retry', async () => {
       const mockMessage = {
         content: Buffer.from(JSON.stringify({
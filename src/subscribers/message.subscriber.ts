@@ -4,6 +4,8 @@ import { messageConsumerService } from '../services/message-consumer.service';
 import { ConsumerConfig, ConsumerStats, CONSUMER_EVENTS } from '../types/consumer.types';
 import { getSocketService } from '../socket/socket.service';
 import { userStatusService } from '../services/user-status.service';
+import { preferencesService } from '../services/preferences.service';
+import { USER_PUBLIC_FIELDS } from '../models/user.model';
 import Logger from '../utils/logger';
 import { EventEmitter } from 'events';
 export class MessageSubscriber extends EventEmitter {
@@ -154,8 +156,16 @@ export class MessageSubscriber extends EventEmitter {
         });
         return;
       }
+      const wantsNotification = await preferencesService.shouldNotify(queueMessage.receiverId, 'messages');
+      if (!wantsNotification) {
+        Logger.debug('[MESSAGE_SUBSCRIBER] Receiver muted message notifications, skipping notification', {
+          receiverId: queueMessage.receiverId,
+          category: 'message-consumer'
+        });
+        return;
+      }
       const Message = require('../models/message.model').default;
-      const message = await Message.findById(result.messageId).populate('senderId', 'username email');
+      const message = await Message.findById(result.messageId).populate('senderId', USER_PUBLIC_FIELDS);
       if (!message) {
         Logger.warn('[MESSAGE_SUBSCRIBER] Message not found for notification', {
           messageId: result.messageId,
@@ -1,3 +1,4 @@
+import { PublicUser } from '../models/user.model';
 export interface ConsumerConfig {
   queueName: string;
   prefetch: number;
@@ -18,11 +19,7 @@ export interface AutoMessageNotification {
   messageId: string;
   conversationId: string;
   senderId: string;
-  senderInfo: {
-    _id: string;
-    username: string;
-    email: string;
-  };
+  senderInfo: PublicUser;
   content: string;
   createdAt: string;
   isAutoMessage: true;
@@ -0,0 +1,14 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+export const MAIL_TRANSPORTS = {
+  CONSOLE: 'console',
+  FILE: 'file'
+} as const;
+export type MailTransportName = typeof MAIL_TRANSPORTS[keyof typeof MAIL_TRANSPORTS];
@@ -1,6 +1,17 @@
 import { Socket } from 'socket.io';
+import { Role, Permission } from '../constants/roles';
+import { ApiKeyScope } from '../constants/api-key-scopes';
+import { ContactRequestStatus } from '../constants/contacts';
+import { PublicUser } from '../models/user.model';
 export interface AuthenticatedSocket extends Socket {
   userId?: string;
+  sessionId?: string;
+  roles?: Role[];
+  permissions?: Permission[];
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[];
+  impersonatorId?: string;
+  tokenExpiresAt?: number;
   user?: {
     _id: string;
     username: string;
@@ -13,10 +24,21 @@ export interface ServerToClientEvents {
   'message:read': (data: MessageReadData) => void;
   'user:online': (data: UserStatusData) => void;
   'user:offline': (data: UserStatusData) => void;
+  'user:profile-updated': (data: UserProfileUpdatedData) => void;
+  'contact:request': (data: ContactRequestEventData) => void;
+  'contact:accepted': (data: ContactRequestEventData) => void;
+  'contact:declined': (data: ContactRequestEventData) => void;
+  'contact:cancelled': (data: ContactRequestEventData) => void;
+  'contact:removed': (data: ContactRemovedData) => void;
   'user:typing': (data: TypingData) => void;
   'user:stop-typing': (data: TypingData) => void;
   'conversation:joined': (data: ConversationJoinedData) => void;
   'conversation:left': (data: ConversationLeftData) => void;
+  'session:revoked': (data: SessionRevokedData) => void;
+  'auth:refreshed': (data: AuthRefreshedData) => void;
+  'auth:expiring': (data: AuthExpiringData) => void;
+  'auth:expired': (data: AuthRevokedData) => void;
+  'auth:revoked': (data: AuthRevokedData) => void;
   'error': (data: SocketErrorData) => void;
 }
 export interface ClientToServerEvents {
@@ -28,6 +50,7 @@ export interface ClientToServerEvents {
   'typing:start': (data: TypingStartData) => void;
   'typing:stop': (data: TypingStopData) => void;
   'status:update': (data: StatusUpdateData) => void;
+  'auth:refresh': (data: AuthRefreshData) => void;
 }
 export interface InterServerEvents {
   ping: () => void;
@@ -41,11 +64,7 @@ export interface NewMessageData {
   messageId: string;
   conversationId: string;
   senderId: string;
-  senderInfo: {
-    _id: string;
-    username: string;
-    email: string;
-  };
+  senderInfo: PublicUser;
   content: string;
   createdAt: string;
   isRead: boolean;
@@ -68,6 +87,25 @@ export interface UserStatusData {
   status: 'online' | 'offline';
   lastSeen?: string;
 }
+export interface ContactRequestEventData {
+  requestId: string;
+  status: ContactRequestStatus;
+  user: PublicUser;
+  createdAt: string;
+  respondedAt: string | null;
+}
+export interface ContactRemovedData {
+  userId: string;
+}
+export interface UserProfileUpdatedData {
+  userId: string;
+  username: string;
+  displayName: string | null;
+  bio: string | null;
+  avatarUrl: string | null;
+  statusText: string | null;
+  statusExpiresAt: string | null;
+}
 export interface TypingData {
   conversationId: string;
   userId: string;
@@ -83,6 +121,20 @@ export interface ConversationLeftData {
   userId: string;
   username: string;
 }
+export interface SessionRevokedData {
+  sessionId: string;
+  reason: string;
+}
+export interface AuthRefreshedData {
+  expiresAt: string | null;
+}
+export interface AuthExpiringData {
+  expiresAt: string;
+  expiresIn: number;
+}
+export interface AuthRevokedData {
+  reason: string;
+}
 export interface SocketErrorData {
   message: string;
   code?: string;
@@ -115,6 +167,9 @@ export interface TypingStopData {
 export interface StatusUpdateData {
   status: 'online' | 'offline';
 }
+export interface AuthRefreshData {
+  token: string;
+}
 export type ConversationRoom = `conversation:${string}`;
 export type UserRoom = `user:${string}`;
 export const SOCKET_EVENTS = {
@@ -136,7 +191,19 @@ export const SOCKET_EVENTS = {
   USER_STOP_TYPING: 'user:stop-typing',
   USER_ONLINE: 'user:online',
   USER_OFFLINE: 'user:offline',
+  USER_PROFILE_UPDATED: 'user:profile-updated',
+  CONTACT_REQUEST: 'contact:request',
+  CONTACT_ACCEPTED: 'contact:accepted',
+  CONTACT_DECLINED: 'contact:declined',
+  CONTACT_CANCELLED: 'contact:cancelled',
+  CONTACT_REMOVED: 'contact:removed',
   STATUS_UPDATE: 'status:update',
+  SESSION_REVOKED: 'session:revoked',
+  AUTH_REFRESH: 'auth:refresh',
+  AUTH_REFRESHED: 'auth:refreshed',
+  AUTH_EXPIRING: 'auth:expiring',
+  AUTH_EXPIRED: 'auth:expired',
+  AUTH_REVOKED: 'auth:revoked',
   ERROR: 'error'
 } as const;
 export type SocketEventName = typeof SOCKET_EVENTS[keyof typeof SOCKET_EVENTS];
@@ -0,0 +1,23 @@
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
+export interface S3StorageOptions {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  timeoutMs?: number;
+}
+export const STORAGE_DRIVERS = {
+  LOCAL: 'local',
+  S3: 's3'
+} as const;
+export type StorageDriverName = typeof STORAGE_DRIVERS[keyof typeof STORAGE_DRIVERS];
@@ -0,0 +1,13 @@
+import crypto from 'crypto';
+export function generateSecureToken(byteLength: number = 32): string {
+  return crypto.randomBytes(byteLength).toString('hex');
+}
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+export function generateCodeVerifier(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+export function createCodeChallenge(codeVerifier: string): string {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
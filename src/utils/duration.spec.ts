@@ -0,0 +1,20 @@
+import { durationToSeconds } from './duration';
+describe('durationToSeconds', () => {
+  it.each([
+    ['15m', 900],
+    ['7d', 604800],
+    ['2h', 7200],
+    ['45s', 45],
+    ['2 days', 172800],
+    ['1 week', 604800],
+    ['1.5h', 5400],
+    ['30000', 30],
+    [120, 120]
+  ])('should convert %p to %p seconds', (value, expected) => {
+    expect(durationToSeconds(value)).toBe(expected);
+  });
+  it('should reject unsupported formats', () => {
+    expect(() => durationToSeconds('1 fortnight')).toThrow('Invalid duration: 1 fortnight');
+    expect(() => durationToSeconds('soon')).toThrow('Invalid duration: soon');
+  });
+});
@@ -0,0 +1,29 @@
+const UNIT_MILLISECONDS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  y: 365.25 * 24 * 60 * 60 * 1000
+};
+const UNIT_ALIASES: Record<string, string> = {
+  milliseconds: 'ms', millisecond: 'ms', msecs: 'ms', msec: 'ms', ms: 'ms',
+  seconds: 's', second: 's', secs: 's', sec: 's', s: 's',
+  minutes: 'm', minute: 'm', mins: 'm', min: 'm', m: 'm',
+  hours: 'h', hour: 'h', hrs: 'h', hr: 'h', h: 'h',
+  days: 'd', day: 'd', d: 'd',
+  weeks: 'w', week: 'w', w: 'w',
+  years: 'y', year: 'y', yrs: 'y', yr: 'y', y: 'y'
+};
+export function durationToSeconds(value: string | number): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const match = value.trim().match(/^(-?(?:\d+)?\.?\d+) *([a-z]+)?$/i);
+  const unit = UNIT_ALIASES[(match?.[2] || 'ms').toLowerCase()];
+  if (!match || !unit) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+  return Math.ceil(parseFloat(match[1]) * UNIT_MILLISECONDS[unit] / 1000);
+}
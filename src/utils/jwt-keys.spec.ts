@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  generateSigningKey,
+  getActiveSigningKey,
+  rotateKeyRing,
+  rotateKeyRingFile,
+  readKeyRingFile,
+  toPublicJwk,
+  isKeyRetained,
+  parseJwtSigningAlgorithm
+} from './jwt-keys';
+describe('JWT key ring', () => {
+  const now = new Date('2024-01-01T00:00:00.000Z');
+  const fileRotationOptions = {
+    alg: 'ES256' as const,
+    activationDelaySeconds: 300,
+    retentionSeconds: 3600
+  };
+  const rotationOptions = { ...fileRotationOptions, now };
+  describe('generateSigningKey', () => {
+    it.each(['RS256', 'ES256'] as const)('should generate a %s key pair with a key id', (alg) => {
+      const key = generateSigningKey(alg);
+      expect(key.alg).toBe(alg);
+      expect(key.kid).toMatch(/^[a-f0-9]{16}$/);
+      expect(key.privateKey).toContain('PRIVATE KEY');
+      expect(key.publicKey).toContain('PUBLIC KEY');
+    });
+  });
+  describe('parseJwtSigningAlgorithm', () => {
+    it('should reject symmetric algorithms', () => {
+      expect(() => parseJwtSigningAlgorithm('HS256')).toThrow('Unsupported JWT signing algorithm: HS256');
+    });
+  });
+  describe('rotateKeyRing', () => {
+    it('should keep signing with the current key until the new key activates', () => {
+      const current = generateSigningKey('ES256', new Date(now.getTime() - 60000));
+      const rotated = rotateKeyRing({ keys: [current] }, rotationOptions);
+      const next = rotated.keys[1];
+      expect(rotated.keys).toHaveLength(2);
+      expect(getActiveSigningKey(rotated, now)?.kid).toBe(current.kid);
+      const afterActivation = new Date(now.getTime() + 301 * 1000);
+      expect(getActiveSigningKey(rotated, afterActivation)?.kid).toBe(next.kid);
+      expect(rotated.keys[0].retiredAt).toBe(next.activatesAt);
+    });
+    it('should drop retired keys once the retention period has passed', () => {
+      const expired = {
+        ...generateSigningKey('ES256', new Date(now.getTime() - 7200 * 1000)),
+        retiredAt: new Date(now.getTime() - 3601 * 1000).toISOString()
+      };
+      const current = generateSigningKey('ES256', new Date(now.getTime() - 3601 * 1000));
+      const rotated = rotateKeyRing({ keys: [expired, current] }, rotationOptions);
+      expect(rotated.keys.map(key => key.kid)).not.toContain(expired.kid);
+      expect(rotated.keys.map(key => key.kid)).toContain(current.kid);
+    });
+  });
+  describe('isKeyRetained', () => {
+    it('should retain active keys and recently retired keys', () => {
+      const key = generateSigningKey('ES256');
+      expect(isKeyRetained(key, 60, now)).toBe(true);
+      expect(isKeyRetained({ ...key, retiredAt: now.toISOString() }, 60, new Date(now.getTime() + 30000))).toBe(true);
+      expect(isKeyRetained({ ...key, retiredAt: now.toISOString() }, 60, new Date(now.getTime() + 61000))).toBe(false);
+    });
+  });
+  describe('toPublicJwk', () => {
+    it('should export only public parameters', () => {
+      const key = generateSigningKey('RS256');
+      const jwk = toPublicJwk(key);
+      expect(jwk).toMatchObject({ kid: key.kid, alg: 'RS256', use: 'sig', kty: 'RSA' });
+      expect(jwk).toHaveProperty('n');
+      expect(jwk).not.toHaveProperty('d');
+      const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+      expect(publicKey.export({ type: 'spki', format: 'pem' })).toBe(key.publicKey);
+    });
+  });
+  describe('rotateKeyRingFile', () => {
+    let directory: string;
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keys-'));
+    });
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+    it('should activate the first key immediately and stage later ones', () => {
+      const keyRingPath = path.join(directory, 'nested', 'keyring.json');
+      const first = rotateKeyRingFile(keyRingPath, fileRotationOptions);
+      expect(new Date(first.key.activatesAt).getTime()).toBeLessThanOrEqual(Date.now());
+      const second = rotateKeyRingFile(keyRingPath, fileRotationOptions);
+      expect(new Date(second.key.activatesAt).getTime()).toBeGreaterThan(Date.now());
+      const stored = readKeyRingFile(keyRingPath);
+      expect(stored.keys.map(key => key.kid)).toEqual([first.key.kid, second.key.kid]);
+      expect(fs.statSync(keyRingPath).mode & 0o777).toBe(0o600);
+    });
+  });
+});
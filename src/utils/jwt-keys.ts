@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+export const JWT_SIGNING_ALGORITHMS = ['RS256', 'ES256'] as const;
+export type JwtSigningAlgorithm = typeof JWT_SIGNING_ALGORITHMS[number];
+export interface JwtSigningKey {
+  kid: string;
+  alg: JwtSigningAlgorithm;
+  publicKey: string;
+  privateKey?: string | undefined;
+  createdAt: string;
+  activatesAt: string;
+  retiredAt?: string | undefined;
+}
+export interface JwtKeyRing {
+  keys: JwtSigningKey[];
+}
+export interface RotateKeyRingOptions {
+  alg: JwtSigningAlgorithm;
+  activationDelaySeconds: number;
+  retentionSeconds: number;
+  now?: Date;
+}
+export interface PublicJwk {
+  kid: string;
+  alg: JwtSigningAlgorithm;
+  use: 'sig';
+  kty: string;
+  [parameter: string]: string;
+}
+export function isJwtSigningAlgorithm(value: string): value is JwtSigningAlgorithm {
+  return (JWT_SIGNING_ALGORITHMS as readonly string[]).includes(value);
+}
+export function parseJwtSigningAlgorithm(value: string): JwtSigningAlgorithm {
+  if (!isJwtSigningAlgorithm(value)) {
+    throw new Error(`Unsupported JWT signing algorithm: ${value}`);
+  }
+  return value;
+}
+export function generateSigningKey(alg: JwtSigningAlgorithm, activatesAt: Date = new Date()): JwtSigningKey {
+  const { publicKey, privateKey } = alg === 'ES256'
+    ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return {
+    kid: crypto.randomBytes(8).toString('hex'),
+    alg,
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    createdAt: new Date().toISOString(),
+    activatesAt: activatesAt.toISOString()
+  };
+}
+export function isKeyRetained(key: JwtSigningKey, retentionSeconds: number, now: Date = new Date()): boolean {
+  if (!key.retiredAt) {
+    return true;
+  }
+  return new Date(key.retiredAt).getTime() + retentionSeconds * 1000 > now.getTime();
+}
+export function getActiveSigningKey(keyRing: JwtKeyRing, now: Date = new Date()): JwtSigningKey | undefined {
+  return keyRing.keys
+    .filter(key => key.privateKey && new Date(key.activatesAt) <= now)
+    .filter(key => !key.retiredAt || new Date(key.retiredAt) > now)
+    .sort((a, b) => new Date(b.activatesAt).getTime() - new Date(a.activatesAt).getTime())[0];
+}
+export function rotateKeyRing(keyRing: JwtKeyRing, options: RotateKeyRingOptions): JwtKeyRing {
+  const now = options.now || new Date();
+  const activatesAt = new Date(now.getTime() + options.activationDelaySeconds * 1000);
+  const newKey = generateSigningKey(options.alg, activatesAt);
+  const keys = keyRing.keys
+    .map(key => (key.retiredAt ? key : { ...key, retiredAt: activatesAt.toISOString() }))
+    .filter(key => isKeyRetained(key, options.retentionSeconds, now));
+  return { keys: [...keys, newKey] };
+}
+export function toPublicJwk(key: JwtSigningKey): PublicJwk {
+  const jwk = crypto.createPublicKey(key.publicKey).export({ format: 'jwk' }) as Record<string, string>;
+  return {
+    ...jwk,
+    kty: jwk.kty,
+    kid: key.kid,
+    alg: key.alg,
+    use: 'sig'
+  };
+}
+export function readKeyRingFile(keyRingPath: string): JwtKeyRing {
+  const keyRing = JSON.parse(fs.readFileSync(keyRingPath, 'utf8')) as JwtKeyRing;
+  if (!Array.isArray(keyRing.keys)) {
+    throw new Error(`Invalid JWT key ring at ${keyRingPath}`);
+  }
+  return keyRing;
+}
+export function writeKeyRingFile(keyRingPath: string, keyRing: JwtKeyRing): void {
+  fs.mkdirSync(path.dirname(keyRingPath), { recursive: true });
+  const temporaryPath = `${keyRingPath}.${process.pid}.tmp`;
+  fs.writeFileSync(temporaryPath, JSON.stringify(keyRing, null, 2), { mode: 0o600 });
+  fs.renameSync(temporaryPath, keyRingPath);
+}
+export function rotateKeyRingFile(
+  keyRingPath: string,
+  options: RotateKeyRingOptions
+): { keyRing: JwtKeyRing; key: JwtSigningKey } {
+  const currentKeyRing = fs.existsSync(keyRingPath) ? readKeyRingFile(keyRingPath) : { keys: [] };
+  const keyRing = rotateKeyRing(currentKeyRing, {
+    ...options,
+    activationDelaySeconds: getActiveSigningKey(currentKeyRing, options.now) ? options.activationDelaySeconds : 0
+  });
+  writeKeyRingFile(keyRingPath, keyRing);
+  return { keyRing, key: keyRing.keys[keyRing.keys.length - 1] };
+}
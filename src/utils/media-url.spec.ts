@@ -0,0 +1,28 @@
+import { createSignedMediaUrl, assertValidMediaSignature } from './media-url';
+import { config } from '../config/env';
+describe('media URLs', () => {
+  const key = 'avatars/user1/abc/medium.webp';
+  const parse = (url: string) => {
+    const { searchParams } = new URL(url, 'http://localhost');
+    return { expires: Number(searchParams.get('expires')), signature: searchParams.get('signature')! };
+  };
+  it('should produce URLs that verify until they expire', () => {
+    const now = Date.now();
+    const url = createSignedMediaUrl(key, now);
+    expect(url.startsWith(`${config.MEDIA_BASE_URL}/${key}?`)).toBe(true);
+    const { expires, signature } = parse(url);
+    expect(expires * 1000).toBeGreaterThan(now + config.MEDIA_URL_TTL_SECONDS * 1000 - 1000);
+    expect(() => assertValidMediaSignature(key, expires, signature, now)).not.toThrow();
+    expect(() => assertValidMediaSignature(key, expires, signature, expires * 1000)).toThrow('Media URL has expired');
+  });
+  it('should keep the same URL within a caching window', () => {
+    const windowStart = Math.floor(Date.now() / 1000 / config.MEDIA_URL_TTL_SECONDS) * config.MEDIA_URL_TTL_SECONDS * 1000;
+    expect(createSignedMediaUrl(key, windowStart)).toBe(createSignedMediaUrl(key, windowStart + 1000));
+  });
+  it('should reject tampered keys, expiries and signatures', () => {
+    const { expires, signature } = parse(createSignedMediaUrl(key));
+    expect(() => assertValidMediaSignature('avatars/user2/abc/medium.webp', expires, signature)).toThrow('Invalid media signature');
+    expect(() => assertValidMediaSignature(key, expires + 60, signature)).toThrow('Invalid media signature');
+    expect(() => assertValidMediaSignature(key, expires, 'forged')).toThrow('Invalid media signature');
+  });
+});
@@ -0,0 +1,21 @@
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { AppError } from './app-error';
+function signMediaKey(key: string, expires: number): string {
+  return crypto.createHmac('sha256', config.MEDIA_URL_SECRET).update(`${key}:${expires}`).digest('base64url');
+}
+export function createSignedMediaUrl(key: string, now: number = Date.now()): string {
+  const ttl = config.MEDIA_URL_TTL_SECONDS;
+  const expires = (Math.floor(now / 1000 / ttl) + 2) * ttl;
+  return `${config.MEDIA_BASE_URL}/${key}?expires=${expires}&signature=${signMediaKey(key, expires)}`;
+}
+export function assertValidMediaSignature(key: string, expires: number, signature: string, now: number = Date.now()): void {
+  const expected = Buffer.from(signMediaKey(key, expires));
+  const provided = Buffer.from(signature || '');
+  if (!Number.isFinite(expires) || expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    throw new AppError('Invalid media signature', 403, 'INVALID_MEDIA_SIGNATURE');
+  }
+  if (expires * 1000 <= now) {
+    throw new AppError('Media URL has expired', 403, 'MEDIA_URL_EXPIRED');
+  }
+}
@@ -0,0 +1,51 @@
+import { getPasswordPolicyViolations, assertPasswordPolicy, PasswordPolicy } from './password-policy';
+describe('Password Policy', () => {
+  const owner = {
+    email: 'test@example.com',
+    username: 'testuser'
+  };
+  const strictPolicy: PasswordPolicy = {
+    minLength: 10,
+    requireUppercase: true,
+    requireLowercase: true,
+    requireNumber: true,
+    requireSymbol: true
+  };
+  describe('getPasswordPolicyViolations', () => {
+    it('should accept a password meeting every rule', () => {
+      expect(getPasswordPolicyViolations('Str0ng!Passw0rd', owner, strictPolicy)).toEqual([]);
+    });
+    it('should report every failed rule', () => {
+      const violations = getPasswordPolicyViolations('short', owner, strictPolicy);
+      expect(violations).toEqual([
+        'Password must be at least 10 characters long',
+        'Password must contain an uppercase letter',
+        'Password must contain a number',
+        'Password must contain a symbol'
+      ]);
+    });
+    it('should reject passwords equal to email or username regardless of case', () => {
+      const relaxedPolicy: PasswordPolicy = {
+        minLength: 1,
+        requireUppercase: false,
+        requireLowercase: false,
+        requireNumber: false,
+        requireSymbol: false
+      };
+      expect(getPasswordPolicyViolations('TestUser', owner, relaxedPolicy)).toEqual([
+        'Password cannot be the same as your email or username'
+      ]);
+      expect(getPasswordPolicyViolations('TEST@example.com', owner, relaxedPolicy)).toHaveLength(1);
+    });
+  });
+  describe('assertPasswordPolicy', () => {
+    it('should throw a WEAK_PASSWORD error when rules fail', () => {
+      expect(() => assertPasswordPolicy('weak', owner, strictPolicy)).toThrow(
+        expect.objectContaining({ statusCode: 400, errorCode: 'WEAK_PASSWORD' })
+      );
+    });
+    it('should not throw for a valid password', () => {
+      expect(() => assertPasswordPolicy('Str0ng!Passw0rd', owner, strictPolicy)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { config } from '../config/env';
+import { AppError } from './app-error';
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+export interface PasswordOwner {
+  email: string;
+  username: string;
+}
+export const passwordPolicy: PasswordPolicy = {
+  minLength: config.PASSWORD_MIN_LENGTH,
+  requireUppercase: config.PASSWORD_REQUIRE_UPPERCASE,
+  requireLowercase: config.PASSWORD_REQUIRE_LOWERCASE,
+  requireNumber: config.PASSWORD_REQUIRE_NUMBER,
+  requireSymbol: config.PASSWORD_REQUIRE_SYMBOL
+};
+export function getPasswordPolicyViolations(
+  password: string,
+  owner: PasswordOwner,
+  policy: PasswordPolicy = passwordPolicy
+): string[] {
+  const violations: string[] = [];
+  if (password.length < policy.minLength) {
+    violations.push(`Password must be at least ${policy.minLength} characters long`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('Password must contain an uppercase letter');
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('Password must contain a lowercase letter');
+  }
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
+    violations.push('Password must contain a number');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push('Password must contain a symbol');
+  }
+  const normalizedPassword = password.toLowerCase();
+  if (normalizedPassword === owner.email.toLowerCase() || normalizedPassword === owner.username.toLowerCase()) {
+    violations.push('Password cannot be the same as your email or username');
+  }
+  return violations;
+}
+export function assertPasswordPolicy(
+  password: string,
+  owner: PasswordOwner,
+  policy: PasswordPolicy = passwordPolicy
+): void {
+  const violations = getPasswordPolicyViolations(password, owner, policy);
+  if (violations.length > 0) {
+    throw new AppError(`Password does not meet requirements: ${violations.join(', ')}`, 400, 'WEAK_PASSWORD');
+  }
+}
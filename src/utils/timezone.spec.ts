@@ -0,0 +1,28 @@
+import { getMinutesOfDay, getQuietHoursEnd, isValidTimeZone, isWithinQuietHours } from './timezone';
+describe('timezone', () => {
+  const overnight = { enabled: true, start: '22:00', end: '07:30' };
+  it('should validate IANA time zone names', () => {
+    expect(isValidTimeZone('America/New_York')).toBe(true);
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+  it('should read the local time of day in a time zone', () => {
+    const date = new Date('2024-01-15T12:45:00.000Z');
+    expect(getMinutesOfDay(date, 'UTC')).toBe(12 * 60 + 45);
+    expect(getMinutesOfDay(date, 'Europe/Istanbul')).toBe(15 * 60 + 45);
+    expect(getMinutesOfDay(date, 'America/New_York')).toBe(7 * 60 + 45);
+  });
+  it('should detect quiet hours that span midnight in the user time zone', () => {
+    expect(isWithinQuietHours(overnight, 'America/New_York', new Date('2024-01-15T04:00:00.000Z'))).toBe(true);
+    expect(isWithinQuietHours(overnight, 'America/New_York', new Date('2024-01-15T12:20:00.000Z'))).toBe(true);
+    expect(isWithinQuietHours(overnight, 'America/New_York', new Date('2024-01-15T12:30:00.000Z'))).toBe(false);
+    expect(isWithinQuietHours(overnight, 'UTC', new Date('2024-01-15T12:30:00.000Z'))).toBe(false);
+    expect(isWithinQuietHours({ ...overnight, enabled: false }, 'UTC', new Date('2024-01-15T23:00:00.000Z'))).toBe(false);
+  });
+  it('should find when quiet hours end', () => {
+    const date = new Date('2024-01-15T23:10:00.000Z');
+    expect(getQuietHoursEnd(overnight, 'UTC', date).toISOString()).toBe('2024-01-16T07:30:00.000Z');
+    const afternoon = new Date('2024-01-15T15:00:00.000Z');
+    expect(getQuietHoursEnd(overnight, 'UTC', afternoon)).toBe(afternoon);
+  });
+});
@@ -0,0 +1,50 @@
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+const MINUTES_PER_DAY = 24 * 60;
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+export function timeOfDayToMinutes(value: string): number {
+  const [hours, minutes] = value.split(':').map(part => parseInt(part));
+  return hours * 60 + minutes;
+}
+export function getMinutesOfDay(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const hours = parseInt(parts.find(part => part.type === 'hour')!.value);
+  const minutes = parseInt(parts.find(part => part.type === 'minute')!.value);
+  return hours * 60 + minutes;
+}
+export function isWithinQuietHours(quietHours: QuietHours, timeZone: string, date: Date = new Date()): boolean {
+  if (!quietHours.enabled) {
+    return false;
+  }
+  const start = timeOfDayToMinutes(quietHours.start);
+  const end = timeOfDayToMinutes(quietHours.end);
+  const now = getMinutesOfDay(date, timeZone);
+  if (start === end) {
+    return false;
+  }
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+export function getQuietHoursEnd(quietHours: QuietHours, timeZone: string, date: Date = new Date()): Date {
+  if (!isWithinQuietHours(quietHours, timeZone, date)) {
+    return date;
+  }
+  const minutesUntilEnd = (timeOfDayToMinutes(quietHours.end) - getMinutesOfDay(date, timeZone) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const end = new Date(date.getTime() + minutesUntilEnd * 60 * 1000);
+  end.setSeconds(0, 0);
+  return end;
+}
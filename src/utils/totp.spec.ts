@@ -0,0 +1,68 @@
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUri,
+  getTimeStep
+} from './totp';
+describe('TOTP', () => {
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255, 42]);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+    it('should encode the RFC 6238 reference secret', () => {
+      expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    });
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('ABC1')).toThrow('Invalid base32 character: 1');
+    });
+  });
+  describe('generateTotp', () => {
+    it.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037']
+    ])('should match the RFC 6238 vector at %i seconds', (seconds, expected) => {
+      expect(generateTotp(rfcSecret, seconds * 1000)).toBe(expected);
+    });
+  });
+  describe('verifyTotp', () => {
+    const now = 1234567890 * 1000;
+    it('should return the matched time step', () => {
+      expect(verifyTotp(rfcSecret, '005924', now)).toBe(getTimeStep(now));
+    });
+    it('should accept codes from the adjacent time step', () => {
+      const previousCode = generateTotp(rfcSecret, now - 30 * 1000);
+      expect(verifyTotp(rfcSecret, previousCode, now)).toBe(getTimeStep(now) - 1);
+    });
+    it('should reject codes outside the window', () => {
+      const staleCode = generateTotp(rfcSecret, now - 90 * 1000);
+      expect(verifyTotp(rfcSecret, staleCode, now)).toBeNull();
+    });
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(rfcSecret, '12345', now)).toBeNull();
+      expect(verifyTotp(rfcSecret, 'abcdef', now)).toBeNull();
+    });
+  });
+  describe('generateTotpSecret', () => {
+    it('should produce a 160-bit base32 secret', () => {
+      const secret = generateTotpSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+  describe('buildOtpauthUri', () => {
+    it('should include the label, issuer and secret', () => {
+      const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'test@example.com', 'Acme Chat');
+      expect(uri).toBe(
+        'otpauth://totp/Acme%20Chat%3Atest%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Acme+Chat&algorithm=SHA1&digits=6&period=30'
+      );
+    });
+  });
+});
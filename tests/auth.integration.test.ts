@@ -1,4 +1,6 @@
 import request from 'supertest';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
 import { createApp } from '../src/app';
 import User from '../src/models/user.model';
 describe('Auth Integration Tests', () => {
@@ -346,7 +348,8 @@ describe('Auth Integration Tests', () => {
         .expect(200);
       expect(response.body).toHaveProperty('success', true);
       expect(response.body).toHaveProperty('message', 'Profile updated successfully');
-      expect(response.body.data).toHaveProperty('email', 'newemail@example.com');
+      expect(response.body.data).toHaveProperty('email', validUserData.email);
+      expect(response.body.data).toHaveProperty('pendingEmail', 'newemail@example.com');
       expect(response.body.data).toHaveProperty('username', validUserData.username);
     });
     it('should update both username and email successfully', async () => {
@@ -361,7 +364,8 @@ describe('Auth Integration Tests', () => {
         .expect(200);
       expect(response.body).toHaveProperty('success', true);
       expect(response.body.data).toHaveProperty('username', 'newusername');
-      expect(response.body.data).toHaveProperty('email', 'newemail@example.com');
+      expect(response.body.data).toHaveProperty('email', validUserData.email);
+      expect(response.body.data).toHaveProperty('pendingEmail', 'newemail@example.com');
     });
     it('should return 400 for duplicate email', async () => {
       await request(app)
@@ -467,6 +471,19 @@ describe('Auth Integration Tests', () => {
       expect(response.body).toHaveProperty('success', true);
       expect(response.body).toHaveProperty('message', 'Logged out successfully');
     });
+    it('should reject the refresh token after logout', async () => {
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ refreshToken })
+        .expect(200);
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+      expect(response.body).toHaveProperty('success', false);
+      expect(response.body.errorCode).toBe('TOKEN_REVOKED');
+    });
     it('should return 401 for invalid refresh token', async () => {
       const response = await request(app)
         .post('/api/auth/logout')
@@ -611,4 +628,23 @@ describe('Auth Integration Tests', () => {
       expect(response.body.errorCode).toBe('APP_ERROR');
     });
   });
+  describe('GET /.well-known/jwks.json', () => {
+    it('should publish keys that verify issued access tokens', async () => {
+      const registerResponse = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'jwksuser', email: 'jwks@example.com', password: 'Password123' })
+        .expect(201);
+      const { accessToken } = registerResponse.body.data;
+      const response = await request(app)
+        .get('/.well-known/jwks.json')
+        .expect(200);
+      expect(response.headers['cache-control']).toBe('public, max-age=300');
+      const { kid } = jwt.decode(accessToken, { complete: true })!.header;
+      const jwk = response.body.keys.find((key: { kid: string }) => key.kid === kid);
+      expect(jwk).toBeDefined();
+      expect(jwk).not.toHaveProperty('d');
+      const publicKey = crypto.createPublicKey({ key: jwk, format: 'jwk' });
+      expect(jwt.verify(accessToken, publicKey, { algorithms: [jwk.alg] })).toHaveProperty('email', 'jwks@example.com');
+    });
+  });
 });
@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+export interface StubUserClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+}
+interface PendingCode {
+  claims: StubUserClaims;
+  nonce: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+export interface OidcStubProvider {
+  issuer: string;
+  authorize(authorizationUrl: string, claims: StubUserClaims): string;
+  stop(): Promise<void>;
+}
+export async function startOidcStubProvider(clientId: string, clientSecret?: string): Promise<OidcStubProvider> {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = crypto.randomBytes(8).toString('hex');
+  const codes = new Map<string, PendingCode>();
+  let issuer = '';
+  const sendJson = (res: http.ServerResponse, status: number, body: object) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+  const handleToken = (body: URLSearchParams, res: http.ServerResponse) => {
+    const pending = codes.get(body.get('code') || '');
+    codes.delete(body.get('code') || '');
+    const challenge = crypto.createHash('sha256').update(body.get('code_verifier') || '').digest('base64url');
+    if (
+      !pending ||
+      body.get('grant_type') !== 'authorization_code' ||
+      body.get('client_id') !== clientId ||
+      (clientSecret && body.get('client_secret') !== clientSecret) ||
+      body.get('redirect_uri') !== pending.redirectUri ||
+      challenge !== pending.codeChallenge
+    ) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+    const idToken = jwt.sign({ ...pending.claims, nonce: pending.nonce }, privateKey, {
+      algorithm: 'RS256',
+      keyid: kid,
+      issuer,
+      audience: clientId,
+      expiresIn: 300
+    });
+    sendJson(res, 200, { access_token: crypto.randomBytes(16).toString('hex'), token_type: 'Bearer', id_token: idToken });
+  };
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', issuer);
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      return sendJson(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        id_token_signing_alg_values_supported: ['RS256']
+      });
+    }
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+    }
+    if (req.method === 'POST' && url.pathname === '/token') {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => handleToken(new URLSearchParams(raw), res));
+      return;
+    }
+    sendJson(res, 404, { error: 'not_found' });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    issuer,
+    authorize(authorizationUrl: string, claims: StubUserClaims): string {
+      const params = new URL(authorizationUrl).searchParams;
+      if (params.get('client_id') !== clientId || params.get('code_challenge_method') !== 'S256') {
+        throw new Error('Stub provider received an invalid authorization request');
+      }
+      const code = crypto.randomBytes(16).toString('hex');
+      codes.set(code, {
+        claims,
+        nonce: params.get('nonce') || '',
+        codeChallenge: params.get('code_challenge') || '',
+        redirectUri: params.get('redirect_uri') || ''
+      });
+      return code;
+    },
+    stop(): Promise<void> {
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
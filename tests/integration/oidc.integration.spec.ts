@@ -0,0 +1,126 @@
+import request from 'supertest';
+import { createApp } from '../../src/app';
+import User from '../../src/models/user.model';
+import { config, OidcProviderConfig } from '../../src/config/env';
+import { OidcStubProvider, StubUserClaims, startOidcStubProvider } from '../helpers/oidc-stub-provider';
+jest.mock('../../src/utils/logger');
+describe('OIDC Login Integration Tests', () => {
+  const app = createApp();
+  const originalProviders = config.OIDC_PROVIDERS;
+  let stubProvider: OidcStubProvider;
+  let provider: OidcProviderConfig;
+  const employee: StubUserClaims = {
+    sub: 'employee-42',
+    email: 'Jane.Doe@example.com',
+    email_verified: true,
+    preferred_username: 'jane.doe'
+  };
+  const signIn = async (claims: StubUserClaims, expectedStatus: number = 200) => {
+    const authorizeResponse = await request(app)
+      .post(`/api/auth/oidc/${provider.id}/authorize`)
+      .expect(200);
+    const { authorizationUrl, state } = authorizeResponse.body.data;
+    const code = stubProvider.authorize(authorizationUrl, claims);
+    return request(app)
+      .post(`/api/auth/oidc/${provider.id}/callback`)
+      .send({ code, state })
+      .expect(expectedStatus);
+  };
+  beforeAll(async () => {
+    stubProvider = await startOidcStubProvider('messaging-app', 'stub-secret');
+    provider = {
+      id: 'sso',
+      displayName: 'Company SSO',
+      issuer: stubProvider.issuer,
+      clientId: 'messaging-app',
+      clientSecret: 'stub-secret',
+      redirectUri: 'http://localhost:3000/auth/oidc/sso/callback',
+      scopes: ['openid', 'email', 'profile'],
+      allowSignup: true
+    };
+    config.OIDC_PROVIDERS = [provider];
+  });
+  afterAll(async () => {
+    config.OIDC_PROVIDERS = originalProviders;
+    await stubProvider.stop();
+  });
+  it('should list configured providers', async () => {
+    const response = await request(app).get('/api/auth/oidc/providers').expect(200);
+    expect(response.body.data.providers).toEqual([{ id: 'sso', displayName: 'Company SSO' }]);
+  });
+  it('should build a PKCE authorization request', async () => {
+    const response = await request(app).post('/api/auth/oidc/sso/authorize').expect(200);
+    const params = new URL(response.body.data.authorizationUrl).searchParams;
+    expect(params.get('response_type')).toBe('code');
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('code_challenge')).toBeTruthy();
+    expect(params.get('state')).toBe(response.body.data.state);
+    expect(params.get('nonce')).toBeTruthy();
+  });
+  it('should create a user just in time on first sign-in', async () => {
+    const response = await signIn(employee);
+    expect(response.body.data).toHaveProperty('accessToken');
+    expect(response.body.data).toHaveProperty('refreshToken');
+    const user = await User.findOne({ email: 'jane.doe@example.com' });
+    expect(user?.username).toBe('jane_doe');
+    expect(user?.emailVerified).toBe(true);
+    expect(user?.identities).toEqual([
+      expect.objectContaining({ provider: 'sso', subject: 'employee-42' })
+    ]);
+    await signIn(employee);
+    expect(await User.countDocuments()).toBe(1);
+  });
+  it('should link an existing account by verified email', async () => {
+    const existing = await User.create({
+      username: 'jane',
+      email: 'jane.doe@example.com',
+      password: 'Password123',
+      emailVerified: true
+    });
+    await signIn(employee);
+    const user = await User.findById(existing._id);
+    expect(user?.identities).toHaveLength(1);
+    expect(user?.emailVerified).toBe(true);
+    expect(await User.countDocuments()).toBe(1);
+  });
+  it('should refuse to link an existing account whose email is not verified', async () => {
+    const existing = await User.create({ username: 'jane', email: 'jane.doe@example.com', password: 'Password123' });
+    const response = await signIn(employee, 403);
+    expect(response.body.errorCode).toBe('EMAIL_NOT_VERIFIED');
+    const user = await User.findById(existing._id);
+    expect(user?.identities).toHaveLength(0);
+    expect(user?.emailVerified).toBe(false);
+    expect(await User.countDocuments()).toBe(1);
+  });
+  it('should refuse to link or create accounts from unverified emails', async () => {
+    await User.create({ username: 'jane', email: 'jane.doe@example.com', password: 'Password123' });
+    const response = await signIn({ ...employee, email_verified: false }, 403);
+    expect(response.body.errorCode).toBe('OIDC_EMAIL_NOT_VERIFIED');
+    const user = await User.findOne({ email: 'jane.doe@example.com' });
+    expect(user?.identities).toHaveLength(0);
+  });
+  it('should reject a reused state', async () => {
+    const authorizeResponse = await request(app).post('/api/auth/oidc/sso/authorize').expect(200);
+    const { authorizationUrl, state } = authorizeResponse.body.data;
+    const code = stubProvider.authorize(authorizationUrl, employee);
+    await request(app).post('/api/auth/oidc/sso/callback').send({ code, state }).expect(200);
+    const secondCode = stubProvider.authorize(authorizationUrl, employee);
+    await request(app).post('/api/auth/oidc/sso/callback').send({ code: secondCode, state }).expect(400);
+  });
+  it('should issue a two-factor challenge for accounts with 2FA enabled', async () => {
+    await User.create({
+      username: 'jane',
+      email: 'jane.doe@example.com',
+      password: 'Password123',
+      emailVerified: true,
+      twoFactorEnabled: true,
+      twoFactorSecret: 'JBSWY3DPEHPK3PXP'
+    });
+    const response = await signIn(employee);
+    expect(response.body.data).toHaveProperty('twoFactorRequired', true);
+    expect(response.body.data).not.toHaveProperty('accessToken');
+  });
+  it('should return 404 for unknown providers', async () => {
+    await request(app).post('/api/auth/oidc/unknown/authorize').expect(404);
+  });
+});